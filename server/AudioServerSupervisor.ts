@@ -0,0 +1,508 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { createServer } from 'net';
+import { existsSync, statSync } from 'fs';
+import { dirname, join as pathJoin } from 'path';
+import { homedir } from 'os';
+import { AudioServerState, ServerStatus } from './types';
+import { Backoff, BackoffOptions } from './Backoff';
+
+export interface AudioServerSupervisorCallbacks {
+  onStatusChange: (status: ServerStatus) => void;
+  onReady: (afterCrash: boolean) => void;
+  onLog: (message: string) => void;
+  onWarning: (message: string) => void;
+  onError: (error: string) => void;
+}
+
+export interface AudioServerConfig {
+  executablePath: string;
+  args: string[];
+  cwd: string; // empty runs it from the executable's folder
+  env: Record<string, string>; // added to this process's environment
+  baseUrl: string; // where the server's HTTP API answers once it's up
+}
+
+// Where the FlowThing client folder puts the capture server on Windows
+export const DEFAULT_SERVER_EXECUTABLE = pathJoin(
+  process.env.APPDATA || pathJoin(homedir(), 'AppData', 'Roaming'),
+  'deskthing', 'apps', 'FlowThing', 'client', 'Audio.exe'
+);
+
+// How long a freshly spawned server gets to answer its readiness endpoint
+const STARTUP_TIMEOUT_MS = 15000;
+const READY_POLL_MS = 250;
+const PROBE_TIMEOUT_MS = 1000;
+
+// Grace period for a clean exit before the process is killed
+const STOP_TIMEOUT_MS = 5000;
+
+// Crash restarts; the count starts over once a server has stayed up this long
+const RESTART_BACKOFF = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxAttempts: 5,
+  jitter: 0.3
+};
+const STABLE_UPTIME_MS = 60000;
+
+// Startup, stop and restart timings; tests shorten them
+export interface AudioServerSupervisorTimings {
+  startupTimeoutMs: number;
+  readyPollMs: number;
+  stopTimeoutMs: number;
+  restart: BackoffOptions;
+  stableUptimeMs: number;
+}
+
+const DEFAULT_TIMINGS: AudioServerSupervisorTimings = {
+  startupTimeoutMs: STARTUP_TIMEOUT_MS,
+  readyPollMs: READY_POLL_MS,
+  stopTimeoutMs: STOP_TIMEOUT_MS,
+  restart: RESTART_BACKOFF,
+  stableUptimeMs: STABLE_UPTIME_MS
+};
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]'];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Split a command line into arguments at whitespace. Double quotes group text
+// with spaces (\" inside them is a literal quote); backslashes elsewhere are
+// kept so Windows paths work unquoted.
+export const parseArgumentList = (text: string): string[] => {
+  const args: string[] = [];
+  let current = '';
+  let inArgument = false;
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '\\' && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+      inArgument = true;
+    } else if (/\s/.test(char)) {
+      if (inArgument) {
+        args.push(current);
+        current = '';
+        inArgument = false;
+      }
+    } else {
+      current += char;
+      inArgument = true;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Missing closing quote');
+  }
+  if (inArgument) {
+    args.push(current);
+  }
+  return args;
+};
+
+// Parse NAME=value entries, separated and quoted like arguments
+export const parseEnvironment = (text: string): Record<string, string> => {
+  const env: Record<string, string> = {};
+  parseArgumentList(text).forEach(entry => {
+    const match = entry.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s);
+    if (!match) {
+      throw new Error(`Expected NAME=value, got "${entry}"`);
+    }
+    env[match[1]] = match[2];
+  });
+  return env;
+};
+
+// What would stop the server from launching with this config
+export const validateServerConfig = (config: AudioServerConfig): string[] => {
+  const problems: string[] = [];
+  const { executablePath, cwd } = config;
+
+  if (!executablePath) {
+    problems.push('No server executable path configured');
+  } else if (!existsSync(executablePath)) {
+    problems.push(`Server executable not found at: ${executablePath}`);
+  } else if (!statSync(executablePath).isFile()) {
+    problems.push(`Server executable path is a folder, not a file: ${executablePath}`);
+  }
+
+  if (cwd && !(existsSync(cwd) && statSync(cwd).isDirectory())) {
+    problems.push(`Server working directory not found: ${cwd}`);
+  }
+  return problems;
+};
+
+// Whether something already listens on the port at this address
+const isAddressInUse = (port: number, address: string): Promise<boolean> => new Promise(resolve => {
+  const probe = createServer();
+  // Anything else, e.g. no IPv6 on this machine, means nothing can be listening there
+  probe.once('error', (err: NodeJS.ErrnoException) => resolve(err.code === 'EADDRINUSE'));
+  probe.once('listening', () => probe.close(() => resolve(false)));
+  probe.listen(port, address);
+});
+
+// Whether something listens on the port at the host the readiness check connects to.
+// localhost can resolve to either loopback address, so both are checked.
+const isPortInUse = async (port: number, host: string): Promise<boolean> => {
+  const hostname = host.replace(/^\[(.*)\]$/, '$1');
+  const addresses = hostname === 'localhost' ? ['127.0.0.1', '::1'] : [hostname];
+  for (const address of addresses) {
+    if (await isAddressInUse(port, address)) return true;
+  }
+  return false;
+};
+
+// Runs the capture server (Audio.exe): adopts one that is already answering,
+// otherwise spawns it, waits for its readiness endpoint and restarts it when it
+// crashes. A server it adopted is used but never restarted or stopped.
+export class AudioServerSupervisor {
+  private config: AudioServerConfig;
+  private callbacks: AudioServerSupervisorCallbacks;
+  private timings: AudioServerSupervisorTimings;
+  private process: ChildProcess | null = null;
+  private state: AudioServerState = 'stopped';
+  private adopted: boolean = false;
+  private lastError: string | undefined;
+  private startPromise: Promise<boolean> | null = null; // the launch in progress, if any
+  private generation: number = 0; // bumped by stop() so a launch in progress gives up
+  private stopping: boolean = false;
+  private backoff: Backoff;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private stableTimer: NodeJS.Timeout | null = null;
+  private restartCount: number = 0;
+
+  constructor(config: AudioServerConfig, callbacks: AudioServerSupervisorCallbacks, timings: Partial<AudioServerSupervisorTimings> = {}) {
+    this.config = config;
+    this.callbacks = callbacks;
+    this.timings = { ...DEFAULT_TIMINGS, ...timings };
+    this.backoff = new Backoff(this.timings.restart);
+  }
+
+  // New settings take effect on the next start
+  public configure(config: Partial<AudioServerConfig>) {
+    const next = { ...this.config, ...config };
+    if (this.process && JSON.stringify(next) !== JSON.stringify(this.config)) {
+      this.callbacks.onLog('Audio server settings changed, restart the server to apply them');
+    }
+    this.config = next;
+    this.sendStatus();
+  }
+
+  public getStatus(): ServerStatus {
+    return {
+      isRunning: this.isRunning(),
+      executablePath: this.config.executablePath,
+      state: this.state,
+      adopted: this.adopted,
+      pid: this.process?.pid,
+      restartCount: this.restartCount,
+      error: this.lastError
+    };
+  }
+
+  // Starting, up, or about to be restarted after a crash
+  public isRunning(): boolean {
+    return this.state === 'starting' || this.state === 'ready' || this.state === 'restarting';
+  }
+
+  private setState(state: AudioServerState, error?: string) {
+    this.state = state;
+    this.lastError = error;
+    this.sendStatus();
+  }
+
+  private sendStatus() {
+    this.callbacks.onStatusChange(this.getStatus());
+  }
+
+  // Start the server, or adopt one that's already running. Resolves with whether it's ready.
+  public start(): Promise<boolean> {
+    if (this.startPromise) {
+      return this.startPromise;
+    }
+    if (this.state === 'ready') {
+      this.callbacks.onWarning('Audio server is already running');
+      return Promise.resolve(true);
+    }
+
+    this.clearRestartTimer();
+    this.backoff.reset();
+    this.restartCount = 0;
+    return this.runLaunch(false);
+  }
+
+  private runLaunch(afterCrash: boolean): Promise<boolean> {
+    const promise: Promise<boolean> = this.launch(afterCrash).finally(() => {
+      if (this.startPromise === promise) this.startPromise = null;
+    });
+    this.startPromise = promise;
+    return promise;
+  }
+
+  private async launch(afterCrash: boolean): Promise<boolean> {
+    const generation = this.generation;
+    this.setState(afterCrash ? 'restarting' : 'starting');
+
+    const adoptable = await this.probe();
+    if (generation !== this.generation) return false;
+    if (adoptable) {
+      this.callbacks.onLog(`Audio server already answering at ${this.config.baseUrl}, using it instead of starting another`);
+      this.adopted = true;
+      this.setState('ready');
+      this.callbacks.onReady(afterCrash);
+      return true;
+    }
+    this.adopted = false;
+
+    const local = this.getLocalAddress();
+    const port = local?.port;
+    const portInUse = local !== null && await isPortInUse(local.port, local.host);
+    if (generation !== this.generation) return false;
+    if (portInUse) {
+      const error = `Port ${port} is in use by another program that isn't the audio server. Close it or change the Base URL and WebSocket URL settings.`;
+      this.callbacks.onError(error);
+      this.setState('failed', error);
+      return false;
+    }
+
+    const problems = validateServerConfig(this.config);
+    if (problems.length > 0) {
+      const error = problems.join('; ');
+      this.callbacks.onError(error);
+      this.setState('failed', error);
+      return false;
+    }
+
+    const { executablePath, args } = this.config;
+    this.callbacks.onLog(`Starting audio server from: ${[executablePath, ...args].join(' ')}`);
+    const child = this.spawnServer();
+    if (!child) return false;
+
+    const ready = await this.waitUntilReady(child);
+    if (this.process !== child) {
+      // Exited or stopped while starting; the exit handler or stop() has already reported it
+      return false;
+    }
+    if (!ready) {
+      const error = `Audio server did not answer ${this.getProbeUrl()} within ${this.timings.startupTimeoutMs / 1000} seconds`;
+      this.callbacks.onError(error);
+      await this.stopProcess();
+      this.setState('failed', error);
+      return false;
+    }
+
+    this.callbacks.onLog(`Audio server ready (pid ${child.pid})`);
+    this.setState('ready');
+    this.startStableTimer();
+    this.callbacks.onReady(afterCrash);
+    return true;
+  }
+
+  private spawnServer(): ChildProcess | null {
+    const { executablePath, args, cwd, env } = this.config;
+    let child: ChildProcess;
+    try {
+      child = spawn(executablePath, args, {
+        cwd: cwd || dirname(executablePath),
+        env: { ...process.env, ...env },
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.callbacks.onError(`Failed to start audio server: ${errorMsg}`);
+      this.setState('failed', errorMsg);
+      return null;
+    }
+    this.process = child;
+    this.sendStatus();
+
+    child.stdout?.on('data', (data) => {
+      const output = data.toString().trim();
+      if (output) {
+        this.callbacks.onLog(`[Audio Server] ${output}`);
+      }
+    });
+
+    child.stderr?.on('data', (data) => {
+      const error = data.toString().trim();
+      if (error) {
+        this.callbacks.onError(`[Audio Server Error] ${error}`);
+      }
+    });
+
+    child.on('error', (err) => {
+      if (this.process !== child) return;
+      this.process = null;
+      this.callbacks.onError(`Failed to start audio server: ${err.message}`);
+      this.setState('failed', err.message);
+    });
+
+    child.on('exit', (code, signal) => this.handleExit(child, code, signal));
+    return child;
+  }
+
+  // Poll the readiness endpoint until it answers, the process dies or time runs out
+  private async waitUntilReady(child: ChildProcess): Promise<boolean> {
+    const deadline = Date.now() + this.timings.startupTimeoutMs;
+    while (Date.now() < deadline) {
+      if (this.process !== child) return false;
+      if (await this.probe()) return true;
+      await wait(this.timings.readyPollMs);
+    }
+    return false;
+  }
+
+  private handleExit(child: ChildProcess, code: number | null, signal: NodeJS.Signals | null) {
+    if (this.process !== child) return;
+    this.process = null;
+    this.clearStableTimer();
+
+    if (this.stopping) return;
+
+    const reason = signal ? `was killed (${signal})` : `exited with code ${code}`;
+    this.callbacks.onError(`Audio server ${reason}`);
+    this.setState('crashed', `Audio server ${reason}`);
+    this.scheduleRestart();
+  }
+
+  private scheduleRestart() {
+    const delay = this.backoff.next();
+    if (delay === null) {
+      const error = `Audio server crashed ${this.backoff.getMaxAttempts()} times in a row, not restarting it again`;
+      this.callbacks.onError(error);
+      this.setState('failed', error);
+      return;
+    }
+
+    this.restartCount++;
+    this.callbacks.onLog(`Restarting audio server in ${(delay / 1000).toFixed(1)} seconds (attempt ${this.backoff.getAttempts()} of ${this.backoff.getMaxAttempts()})...`);
+    this.setState('restarting', this.lastError);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.runLaunch(true).then(ready => {
+        // Failing to come back counts as another crash, unless the exit handler already gave up
+        if (!ready && this.state === 'failed' && this.backoff.getAttempts() < this.backoff.getMaxAttempts()) {
+          this.scheduleRestart();
+        }
+      });
+    }, delay);
+  }
+
+  // Stop a server we started. An adopted one is left running.
+  public async stop(): Promise<void> {
+    this.generation++;
+    this.clearRestartTimer();
+    this.clearStableTimer();
+
+    if (this.adopted) {
+      this.callbacks.onLog('Leaving the adopted audio server running');
+      this.adopted = false;
+      this.setState('stopped');
+      return;
+    }
+
+    if (!this.process) {
+      if (this.state !== 'stopped') {
+        this.setState('stopped');
+      } else {
+        this.callbacks.onWarning('Audio server is not running');
+      }
+      return;
+    }
+
+    this.callbacks.onLog('Stopping audio server...');
+    await this.stopProcess();
+    this.setState('stopped');
+    this.callbacks.onLog('Audio server stopped');
+  }
+
+  public async restart(): Promise<boolean> {
+    this.callbacks.onLog('Restarting audio server...');
+    await this.stop();
+    await wait(1000);
+    return this.start();
+  }
+
+  // Ask the process to exit, killing it if it doesn't in time
+  private async stopProcess(): Promise<void> {
+    const child = this.process;
+    if (!child) return;
+
+    this.stopping = true;
+    try {
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(() => {
+          this.callbacks.onWarning('Forcing audio server to stop...');
+          child.kill('SIGKILL');
+          resolve();
+        }, this.timings.stopTimeoutMs);
+
+        child.once('exit', () => {
+          clearTimeout(timeout);
+          resolve();
+        });
+        child.kill('SIGTERM');
+      });
+    } finally {
+      this.process = null;
+      this.stopping = false;
+    }
+  }
+
+  private getProbeUrl(): string {
+    return `${this.config.baseUrl}/api/capture/status`;
+  }
+
+  // Whether a capture server answers its status endpoint
+  private async probe(): Promise<boolean> {
+    try {
+      const response = await fetch(this.getProbeUrl(), { signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  // Where to check for port conflicts, if the server is meant to run on this machine
+  private getLocalAddress(): { host: string; port: number } | null {
+    try {
+      const url = new URL(this.config.baseUrl);
+      if (!LOCAL_HOSTS.includes(url.hostname)) return null;
+      return { host: url.hostname, port: Number(url.port) || (url.protocol === 'https:' ? 443 : 80) };
+    } catch {
+      return null;
+    }
+  }
+
+  private startStableTimer() {
+    this.clearStableTimer();
+    this.stableTimer = setTimeout(() => {
+      this.stableTimer = null;
+      this.backoff.reset();
+    }, this.timings.stableUptimeMs);
+  }
+
+  private clearStableTimer() {
+    if (this.stableTimer) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = null;
+    }
+  }
+
+  private clearRestartTimer() {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { AudioFormatData, AudioStreamData, LegacyAudioStreamData } from './types';
+import { PcmLayout, UnsupportedAudioFormatError, resolvePcmLayout } from '../shared/pcmFormat';
+
+// Highest transport version this server can produce.
+// v1: raw bytes as a JSON number[] (legacy clients)
+// v2: base64 payload, either raw PCM or pre-downsampled float32
+export const AUDIO_TRANSPORT_VERSION = 2;
+
+type SampleReader = (buffer: Buffer, offset: number) => number;
+
+// Pick a reader that returns samples normalized to [-1, 1]
+const createSampleReader = (format: AudioFormatData): SampleReader | null => {
+  let layout: PcmLayout;
+  try {
+    layout = resolvePcmLayout(format);
+  } catch (error) {
+    if (error instanceof UnsupportedAudioFormatError) return null;
+    throw error;
+  }
+
+  const bigEndian = !layout.littleEndian;
+  if (layout.sampleType === 'float') {
+    if (layout.bitsPerSample === 64) return bigEndian ? (b, o) => b.readDoubleBE(o) : (b, o) => b.readDoubleLE(o);
+    return bigEndian ? (b, o) => b.readFloatBE(o) : (b, o) => b.readFloatLE(o);
+  }
+
+  switch (layout.bitsPerSample) {
+    case 8:
+      return (b, o) => (b.readUInt8(o) - 128) / 128;
+    case 16:
+      return bigEndian ? (b, o) => b.readInt16BE(o) / 32768 : (b, o) => b.readInt16LE(o) / 32768;
+    case 24:
+      return bigEndian ? (b, o) => b.readIntBE(o, 3) / 8388608 : (b, o) => b.readIntLE(o, 3) / 8388608;
+    case 32:
+      return bigEndian ? (b, o) => b.readInt32BE(o) / 2147483648 : (b, o) => b.readInt32LE(o) / 2147483648;
+    default:
+      return null;
+  }
+};
+
+export class AudioTranscoder {
+  private inputFormat: AudioFormatData | null = null;
+  private reader: SampleReader | null = null;
+  private downsampleFactor: number = 1;
+  private version: number = 1;
+
+  // Set the format of incoming PCM buffers
+  public setInputFormat(format: AudioFormatData) {
+    this.inputFormat = format;
+    this.reader = createSampleReader(format);
+  }
+
+  // Set how many frames to average into one on the server (1 = off)
+  public setDownsampleFactor(factor: number) {
+    this.downsampleFactor = Math.max(1, Math.floor(factor) || 1);
+  }
+
+  public getDownsampleFactor(): number {
+    return this.downsampleFactor;
+  }
+
+  // Set the transport version agreed with the client
+  public setVersion(version: number) {
+    this.version = Math.max(1, Math.min(AUDIO_TRANSPORT_VERSION, Math.floor(version) || 1));
+  }
+
+  public getVersion(): number {
+    return this.version;
+  }
+
+  // Whether frames are currently being decoded and downsampled on the server
+  private isDownsampling(): boolean {
+    return this.version >= 2 && this.downsampleFactor > 1 && this.reader !== null;
+  }
+
+  // Format the client should decode with, reflecting any server-side downsampling
+  public getOutputFormat(): AudioFormatData | null {
+    if (!this.inputFormat || !this.isDownsampling()) {
+      return this.inputFormat;
+    }
+
+    return {
+      sampleRate: this.inputFormat.sampleRate / this.downsampleFactor,
+      bitsPerSample: 32,
+      channels: this.inputFormat.channels,
+      encoding: 'IeeeFloat',
+      endianness: 'little',
+      downsampleFactor: (this.inputFormat.downsampleFactor || 1) * this.downsampleFactor,
+      originalSampleRate: this.inputFormat.originalSampleRate || this.inputFormat.sampleRate
+    };
+  }
+
+  // Decode a raw buffer into interleaved float samples
+  public decode(buffer: Buffer): Float32Array | null {
+    if (!this.inputFormat || !this.reader) {
+      return null;
+    }
+
+    const bytesPerSample = this.inputFormat.bitsPerSample / 8;
+    const sampleCount = Math.floor(buffer.length / bytesPerSample);
+    const samples = new Float32Array(sampleCount);
+
+    for (let i = 0; i < sampleCount; i++) {
+      samples[i] = this.reader(buffer, i * bytesPerSample);
+    }
+
+    return samples;
+  }
+
+  // Average every `downsampleFactor` frames per channel
+  private downsample(samples: Float32Array): Float32Array {
+    const channels = Math.max(1, this.inputFormat?.channels || 1);
+    const factor = this.downsampleFactor;
+    const outFrames = Math.floor(samples.length / channels / factor);
+    const output = new Float32Array(outFrames * channels);
+
+    for (let frame = 0; frame < outFrames; frame++) {
+      for (let ch = 0; ch < channels; ch++) {
+        let sum = 0;
+        for (let k = 0; k < factor; k++) {
+          sum += samples[((frame * factor) + k) * channels + ch];
+        }
+        output[frame * channels + ch] = sum / factor;
+      }
+    }
+
+    return output;
+  }
+
+  // Encode a raw PCM buffer for DeskThing.send according to the agreed version
+  public encode(buffer: Buffer): AudioStreamData | LegacyAudioStreamData {
+    const timestamp = Date.now();
+
+    if (this.version < 2) {
+      return {
+        data: Array.from(buffer),
+        length: buffer.length,
+        timestamp
+      };
+    }
+
+    const samples = this.isDownsampling() ? this.decode(buffer) : null;
+
+    if (!samples) {
+      return {
+        version: this.version,
+        encoding: 'raw',
+        data: buffer.toString('base64'),
+        length: buffer.length,
+        timestamp
+      };
+    }
+
+    const downsampled = this.downsample(samples);
+    const out = Buffer.alloc(downsampled.length * 4);
+    for (let i = 0; i < downsampled.length; i++) {
+      out.writeFloatLE(downsampled[i], i * 4);
+    }
+
+    return {
+      version: this.version,
+      encoding: 'f32le',
+      data: out.toString('base64'),
+      length: out.length,
+      timestamp
+    };
+  }
+}
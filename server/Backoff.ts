@@ -0,0 +1,40 @@
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+  jitter: number; // 0-1: how much of each delay may be randomly cut off
+}
+
+// Exponentially growing retry delays with random jitter, until the attempts run out
+export class Backoff {
+  private options: BackoffOptions;
+  private attempts: number = 0;
+
+  constructor(options: BackoffOptions) {
+    this.options = options;
+  }
+
+  // Delay before the next attempt, or null once maxAttempts have been used
+  public next(): number | null {
+    const { initialDelayMs, maxDelayMs, maxAttempts, jitter } = this.options;
+    if (this.attempts >= maxAttempts) return null;
+
+    const delay = Math.min(maxDelayMs, initialDelayMs * 2 ** this.attempts);
+    this.attempts++;
+    // Randomize so clients that lost the same server don't all retry at once
+    return Math.round(delay * (1 - jitter * Math.random()));
+  }
+
+  // Start over after a success
+  public reset() {
+    this.attempts = 0;
+  }
+
+  public getAttempts(): number {
+    return this.attempts;
+  }
+
+  public getMaxAttempts(): number {
+    return this.options.maxAttempts;
+  }
+}
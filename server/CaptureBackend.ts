@@ -0,0 +1,59 @@
+import { AudioFormatData, StreamConnectionState } from './types';
+
+// Events every capture backend reports to AudioStreamService
+export interface CaptureCallbacks {
+  onConnected: () => void;
+  onDisconnected: () => void;
+  onStateChange: () => void; // getConnectionInfo() changed
+  onAudioFormat: (format: AudioFormatData) => void;
+  onAudioData: (buffer: Buffer) => void;
+  onError: (error: string) => void;
+  onLog: (message: string) => void;
+  onWarning: (message: string) => void;
+}
+
+export interface AudioDevice {
+  deviceId: string;
+  name: string;
+  isDefault: boolean;
+  state: string;
+}
+
+export interface CaptureConnectionInfo {
+  state: StreamConnectionState;
+  attempt: number;
+  retryInMs?: number;
+  stale: boolean;
+}
+
+export interface CaptureStatus {
+  isCapturing: boolean;
+  selectedDeviceId?: string;
+  selectedDeviceName?: string;
+}
+
+// 'websocket': the Windows capture server (Audio.exe) streaming over a WebSocket
+// 'pulse': a PulseAudio/PipeWire source recorded with parec
+export type CaptureBackendType = 'websocket' | 'pulse';
+
+// Where the 'capture' audio source comes from. Every backend reports one
+// audio format followed by raw PCM chunks through CaptureCallbacks.
+export interface CaptureBackend {
+  connect(): void;
+  disconnect(): void;
+  getIsConnected(): boolean;
+  getConnectionInfo(): CaptureConnectionInfo;
+  // Where audio is read from, shown in the stream status
+  getServerUrl(): string;
+  getDevices(): Promise<AudioDevice[]>;
+  selectDevice(deviceId: string): Promise<void>;
+  startCapture(): Promise<void>;
+  stopCapture(): Promise<void>;
+  getCaptureStatus(): Promise<CaptureStatus>;
+}
+
+// The backend for the captureBackend setting; 'auto' uses the capture server on Windows only
+export const resolveCaptureBackend = (setting: string, platform: string = process.platform): CaptureBackendType => {
+  if (setting === 'websocket' || setting === 'pulse') return setting;
+  return platform === 'win32' ? 'websocket' : 'pulse';
+};
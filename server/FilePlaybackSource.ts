@@ -0,0 +1,271 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { readFileSync, readdirSync, existsSync, statSync } from 'fs';
+import { extname, basename, join as pathJoin } from 'path';
+import { AudioFormatData } from './types';
+
+export interface FilePlaybackCallbacks {
+  onStarted: (filePath: string) => void;
+  onStopped: () => void;
+  onAudioFormat: (format: AudioFormatData) => void;
+  onAudioData: (buffer: Buffer) => void;
+  onError: (error: string) => void;
+  onLog: (message: string) => void;
+}
+
+export const PLAYBACK_EXTENSIONS = ['.wav', '.flac', '.mp3'];
+
+// Compressed formats are decoded by ffmpeg into this layout
+const FFMPEG_SAMPLE_RATE = 48000;
+const FFMPEG_CHANNELS = 2;
+
+// How often WAV data is pushed; similar to the capture server's chunk rate
+const CHUNK_INTERVAL_MS = 20;
+
+interface WavFile {
+  format: AudioFormatData;
+  blockAlign: number;
+  data: Buffer;
+}
+
+// List playable files in a folder, sorted by name
+export const listAudioFiles = (folder: string): string[] => {
+  if (!folder || !existsSync(folder) || !statSync(folder).isDirectory()) {
+    return [];
+  }
+
+  return readdirSync(folder)
+    .filter(name => PLAYBACK_EXTENSIONS.includes(extname(name).toLowerCase()))
+    .sort((a, b) => a.localeCompare(b))
+    .map(name => pathJoin(folder, name));
+};
+
+// Parse a RIFF/WAVE file into its format and PCM data
+const parseWav = (buffer: Buffer): WavFile => {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format: AudioFormatData | null = null;
+  let blockAlign = 0;
+  let data: Buffer | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      let formatTag = buffer.readUInt16LE(body);
+      const channels = buffer.readUInt16LE(body + 2);
+      const sampleRate = buffer.readUInt32LE(body + 4);
+      blockAlign = buffer.readUInt16LE(body + 12);
+      const bitsPerSample = buffer.readUInt16LE(body + 14);
+
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format tag at the start of the sub-format GUID
+      if (formatTag === 0xfffe && chunkSize >= 40) {
+        formatTag = buffer.readUInt16LE(body + 24);
+      }
+
+      if (formatTag !== 1 && formatTag !== 3) {
+        throw new Error(`Unsupported WAV encoding (format tag ${formatTag})`);
+      }
+
+      format = {
+        sampleRate,
+        bitsPerSample,
+        channels,
+        encoding: formatTag === 3 ? 'IeeeFloat' : 'Pcm'
+      };
+    } else if (chunkId === 'data') {
+      // Some writers leave the size at 0 or too large when streaming; clamp to the file
+      const end = chunkSize === 0 ? buffer.length : Math.min(buffer.length, body + chunkSize);
+      data = buffer.subarray(body, end);
+    }
+
+    // Chunks are padded to an even size
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  if (!format || !data || blockAlign === 0) {
+    throw new Error('WAV file is missing its fmt or data chunk');
+  }
+
+  return { format, blockAlign, data: data.subarray(0, data.length - (data.length % blockAlign)) };
+};
+
+// Plays a local WAV/FLAC/MP3 file in real time and emits the same
+// audio_format / audio_data stream as the capture server.
+// WAV is read natively; FLAC and MP3 are decoded by ffmpeg.
+export class FilePlaybackSource {
+  private callbacks: FilePlaybackCallbacks;
+  private currentFile: string | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private decoder: ChildProcess | null = null;
+  private ffmpegPath: string = process.env.FFMPEG_PATH || 'ffmpeg';
+
+  constructor(callbacks: FilePlaybackCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  public isPlaying(): boolean {
+    return this.currentFile !== null;
+  }
+
+  public getCurrentFile(): string | null {
+    return this.currentFile;
+  }
+
+  // Start playing a file, replacing anything already playing
+  public play(filePath: string, loop: boolean = true) {
+    this.stop();
+
+    if (!filePath || !existsSync(filePath)) {
+      this.callbacks.onError(`Playback file not found: ${filePath || '(none selected)'}`);
+      return;
+    }
+
+    const extension = extname(filePath).toLowerCase();
+    if (!PLAYBACK_EXTENSIONS.includes(extension)) {
+      this.callbacks.onError(`Unsupported playback file type: ${extension}`);
+      return;
+    }
+
+    if (extension === '.wav') {
+      this.playWav(filePath, loop);
+    } else {
+      this.playWithFfmpeg(filePath, loop);
+    }
+  }
+
+  private playWav(filePath: string, loop: boolean) {
+    let wav: WavFile;
+    try {
+      wav = parseWav(readFileSync(filePath));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.callbacks.onError(`Cannot play ${basename(filePath)}: ${errorMsg}`);
+      return;
+    }
+
+    const { format, blockAlign, data } = wav;
+    const bytesPerSecond = format.sampleRate * blockAlign;
+
+    this.currentFile = filePath;
+    this.callbacks.onLog(`Playing ${basename(filePath)} (${format.sampleRate}Hz, ${format.bitsPerSample}-bit, ${format.channels}ch)`);
+    this.callbacks.onStarted(filePath);
+    this.callbacks.onAudioFormat(format);
+
+    // Pace by wall-clock time so timer jitter doesn't drift the playback rate
+    let startTime = Date.now();
+    let position = 0;
+
+    this.timer = setInterval(() => {
+      const due = Math.floor(((Date.now() - startTime) / 1000) * bytesPerSecond);
+      const end = Math.min(data.length, due - (due % blockAlign));
+
+      if (end > position) {
+        this.callbacks.onAudioData(data.subarray(position, end));
+        position = end;
+      }
+
+      if (position >= data.length) {
+        if (!loop) {
+          this.callbacks.onLog(`Finished playing ${basename(filePath)}`);
+          this.stop();
+          return;
+        }
+        startTime = Date.now();
+        position = 0;
+      }
+    }, CHUNK_INTERVAL_MS);
+  }
+
+  private playWithFfmpeg(filePath: string, loop: boolean) {
+    const frameSize = FFMPEG_CHANNELS * 4;
+    const args = [
+      '-hide_banner', '-loglevel', 'error',
+      '-re',
+      ...(loop ? ['-stream_loop', '-1'] : []),
+      '-i', filePath,
+      '-f', 'f32le', '-acodec', 'pcm_f32le',
+      '-ac', String(FFMPEG_CHANNELS),
+      '-ar', String(FFMPEG_SAMPLE_RATE),
+      'pipe:1'
+    ];
+
+    const decoder = spawn(this.ffmpegPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    this.decoder = decoder;
+    this.currentFile = filePath;
+
+    this.callbacks.onLog(`Decoding ${basename(filePath)} with ffmpeg`);
+    this.callbacks.onStarted(filePath);
+    this.callbacks.onAudioFormat({
+      sampleRate: FFMPEG_SAMPLE_RATE,
+      bitsPerSample: 32,
+      channels: FFMPEG_CHANNELS,
+      encoding: 'IeeeFloat'
+    });
+
+    // Pipe reads don't respect frame boundaries, so carry partial frames over
+    let remainder = Buffer.alloc(0);
+    decoder.stdout?.on('data', (chunk: Buffer) => {
+      const buffer = remainder.length > 0 ? Buffer.concat([remainder, chunk]) : chunk;
+      const usable = buffer.length - (buffer.length % frameSize);
+      remainder = buffer.subarray(usable);
+      if (usable > 0) {
+        this.callbacks.onAudioData(buffer.subarray(0, usable));
+      }
+    });
+
+    decoder.stderr?.on('data', (data) => {
+      const message = data.toString().trim();
+      if (message) {
+        this.callbacks.onError(`[ffmpeg] ${message}`);
+      }
+    });
+
+    decoder.on('error', (err: NodeJS.ErrnoException) => {
+      if (this.decoder !== decoder) return;
+      if (err.code === 'ENOENT') {
+        this.callbacks.onError('ffmpeg is required to play FLAC and MP3 files (WAV plays without it). Install ffmpeg or set FFMPEG_PATH.');
+      } else {
+        this.callbacks.onError(`Failed to start ffmpeg: ${err.message}`);
+      }
+      this.stop();
+    });
+
+    decoder.on('exit', (code) => {
+      if (this.decoder !== decoder) return;
+      if (code === 0) {
+        this.callbacks.onLog(`Finished playing ${basename(filePath)}`);
+      } else if (code !== null) {
+        this.callbacks.onError(`ffmpeg exited with code ${code} while playing ${basename(filePath)}`);
+      }
+      this.decoder = null;
+      this.stop();
+    });
+  }
+
+  // Stop playback and release the timer or decoder process
+  public stop() {
+    const wasPlaying = this.currentFile !== null;
+
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.decoder) {
+      const decoder = this.decoder;
+      this.decoder = null;
+      decoder.kill('SIGTERM');
+    }
+
+    this.currentFile = null;
+
+    if (wasPlaying) {
+      this.callbacks.onStopped();
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { VisualizationPreset, PresetRequest } from './types';
+
+// Where presets live between runs; DeskThing app data in production
+export interface PresetStorage {
+  read: () => Promise<unknown>;
+  write: (presets: VisualizationPreset[]) => void;
+}
+
+export interface PresetStoreCallbacks {
+  onError: (error: string) => void;
+  onLog: (message: string) => void;
+}
+
+// Keeps the saved data a reasonable size; the client enforces the same limit
+export const MAX_PRESETS = 100;
+
+const MAX_NAME_LENGTH = 60;
+
+// A preset as stored, or null if it's malformed
+const sanitizePreset = (value: unknown): VisualizationPreset | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== 'string' || !raw.id) return null;
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return null;
+  if (!raw.settings || typeof raw.settings !== 'object' || Array.isArray(raw.settings)) return null;
+
+  const now = Date.now();
+  const createdAt = typeof raw.createdAt === 'number' && isFinite(raw.createdAt) ? raw.createdAt : now;
+  const updatedAt = typeof raw.updatedAt === 'number' && isFinite(raw.updatedAt) ? raw.updatedAt : createdAt;
+
+  return {
+    id: raw.id,
+    name: raw.name.trim().slice(0, MAX_NAME_LENGTH),
+    createdAt,
+    updatedAt,
+    settings: raw.settings as Record<string, unknown>
+  };
+};
+
+// Named visualization presets shared by every client of this server
+export class PresetStore {
+  private presets: VisualizationPreset[] = [];
+  private loaded: boolean = false;
+
+  constructor(private storage: PresetStorage, private callbacks: PresetStoreCallbacks) {}
+
+  // Read saved presets, dropping any that don't validate
+  public async load(): Promise<void> {
+    try {
+      const stored = await this.storage.read();
+      const list = Array.isArray(stored) ? stored : [];
+      this.presets = list
+        .map(sanitizePreset)
+        .filter((preset): preset is VisualizationPreset => preset !== null)
+        .slice(0, MAX_PRESETS);
+
+      if (this.presets.length < list.length) {
+        this.callbacks.onLog(`Ignored ${list.length - this.presets.length} invalid saved preset(s)`);
+      }
+      this.callbacks.onLog(`Loaded ${this.presets.length} visualization preset(s)`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.callbacks.onError(`Failed to load presets: ${errorMsg}`);
+    }
+    this.loaded = true;
+  }
+
+  public list(): VisualizationPreset[] {
+    return [...this.presets];
+  }
+
+  // Add presets, replacing any with the same id
+  public save(presets: unknown[]) {
+    let changed = false;
+
+    for (const value of presets) {
+      const preset = sanitizePreset(value);
+      if (!preset) {
+        this.callbacks.onError('Ignoring invalid preset from client');
+        continue;
+      }
+
+      const index = this.presets.findIndex(existing => existing.id === preset.id);
+      if (index >= 0) {
+        this.presets[index] = { ...preset, createdAt: this.presets[index].createdAt };
+      } else if (this.presets.length >= MAX_PRESETS) {
+        this.callbacks.onError(`Preset limit of ${MAX_PRESETS} reached, "${preset.name}" was not saved`);
+        continue;
+      } else {
+        this.presets.push(preset);
+      }
+      changed = true;
+    }
+
+    if (changed) this.persist();
+  }
+
+  public delete(id: string) {
+    const remaining = this.presets.filter(preset => preset.id !== id);
+    if (remaining.length === this.presets.length) return;
+
+    this.presets = remaining;
+    this.persist();
+  }
+
+  // Apply a client request; the caller replies with list() either way
+  public async handleRequest(request: PresetRequest | undefined) {
+    if (!this.loaded) await this.load();
+
+    switch (request?.action) {
+      case 'save':
+        this.save(Array.isArray(request.presets) ? request.presets : []);
+        break;
+      case 'delete':
+        if (typeof request.id === 'string') this.delete(request.id);
+        break;
+    }
+  }
+
+  private persist() {
+    try {
+      this.storage.write(this.presets);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.callbacks.onError(`Failed to save presets: ${errorMsg}`);
+    }
+  }
+}
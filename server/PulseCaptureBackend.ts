@@ -0,0 +1,311 @@
+import { spawn, execFile, type ChildProcess } from 'child_process';
+import { AudioFormatData, StreamConnectionState } from './types';
+import { AudioDevice, CaptureBackend, CaptureCallbacks, CaptureConnectionInfo, CaptureStatus } from './CaptureBackend';
+import { Backoff } from './Backoff';
+
+// parec converts whatever the source delivers into this layout
+const CAPTURE_FORMAT: AudioFormatData = {
+  sampleRate: 48000,
+  bitsPerSample: 32,
+  channels: 2,
+  encoding: 'IeeeFloat'
+};
+
+// Monitor of the default output, i.e. whatever the host is playing. PulseAudio
+// on macOS has no monitor of the system output, so there it's the default input.
+const DEFAULT_DEVICE = process.platform === 'darwin' ? '@DEFAULT_SOURCE@' : '@DEFAULT_MONITOR@';
+
+// Keep chunks small so the stream paces like the capture server's
+const LATENCY_MS = 20;
+
+// parec dies when the sound server restarts; retry for a couple of minutes
+const RESTART_BACKOFF = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxAttempts: 8,
+  jitter: 0.5
+};
+
+// Run pactl and resolve with its output. LC_ALL=C keeps the field names parseable.
+const runPactl = (args: string[]): Promise<string> => new Promise((resolve, reject) => {
+  execFile('pactl', args, { env: { ...process.env, LC_ALL: 'C' } }, (error, stdout) => {
+    if (error) {
+      reject((error as NodeJS.ErrnoException).code === 'ENOENT'
+        ? new Error('pactl not found. Install the PulseAudio utilities (pulseaudio-utils) to list devices.')
+        : error);
+      return;
+    }
+    resolve(stdout);
+  });
+});
+
+// Read "Key: value" fields from `pactl info` or one block of `pactl list sources`
+const readField = (block: string, field: string): string | undefined =>
+  block.match(new RegExp(`^\\s*${field}: (.*)$`, 'm'))?.[1].trim();
+
+const isMonitor = (device: AudioDevice) => device.deviceId.endsWith('.monitor');
+
+// Devices from `pactl list sources`, output monitors first. The default device
+// is the monitor of the default output, or on macOS the default input.
+export const parsePulseSources = (sources: string, info: string, platform: NodeJS.Platform = process.platform): AudioDevice[] => {
+  const defaultSink = readField(info, 'Default Sink');
+  const defaultName = platform === 'darwin' ? readField(info, 'Default Source') : defaultSink && `${defaultSink}.monitor`;
+
+  const devices: AudioDevice[] = sources.split(/^Source #/m).slice(1).flatMap(block => {
+    const name = readField(block, 'Name');
+    if (!name) return [];
+    return [{
+      deviceId: name,
+      name: readField(block, 'Description') || name,
+      isDefault: name === defaultName,
+      state: (readField(block, 'State') || 'unknown').toLowerCase()
+    }];
+  });
+
+  devices.sort((a, b) => Number(isMonitor(b)) - Number(isMonitor(a)));
+  return devices;
+};
+
+// Pipe reads don't respect frame boundaries. The returned function takes raw
+// chunks and hands back the whole frames, carrying a partial frame over to the next chunk.
+export const createFrameAssembler = (frameSize: number) => {
+  let remainder = Buffer.alloc(0);
+  return (chunk: Buffer): Buffer | null => {
+    const buffer = remainder.length > 0 ? Buffer.concat([remainder, chunk]) : chunk;
+    const usable = buffer.length - (buffer.length % frameSize);
+    remainder = buffer.subarray(usable);
+    return usable > 0 ? buffer.subarray(0, usable) : null;
+  };
+};
+
+// Records a PulseAudio source with parec. PipeWire hosts work the same through
+// pipewire-pulse, and macOS works with PulseAudio from Homebrew, recording an
+// input such as a loopback device. Output monitors are listed first so system
+// audio can be picked like on Windows.
+export class PulseCaptureBackend implements CaptureBackend {
+  private callbacks: CaptureCallbacks;
+  private recorder: ChildProcess | null = null;
+  private state: StreamConnectionState = 'idle';
+  private backoff: Backoff = new Backoff(RESTART_BACKOFF);
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private retryAt: number | null = null;
+  private deviceId: string = '';
+  private parecPath: string = process.env.PAREC_PATH || 'parec';
+
+  constructor(callbacks: CaptureCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  private getDevice(): string {
+    return this.deviceId || DEFAULT_DEVICE;
+  }
+
+  private setState(state: StreamConnectionState) {
+    if (state === this.state) return;
+    this.state = state;
+    this.callbacks.onStateChange();
+  }
+
+  // Start recording the selected source, with a fresh series of restart attempts
+  public connect() {
+    if (this.recorder) {
+      this.callbacks.onWarning('Already capturing audio');
+      return;
+    }
+
+    this.clearReconnectTimer();
+    this.backoff.reset();
+    this.startRecorder();
+  }
+
+  private startRecorder() {
+    const device = this.getDevice();
+    this.setState('connecting');
+    this.callbacks.onLog(`Capturing ${device} with parec...`);
+
+    const recorder = spawn(this.parecPath, [
+      `--device=${device}`,
+      '--format=float32le',
+      `--rate=${CAPTURE_FORMAT.sampleRate}`,
+      `--channels=${CAPTURE_FORMAT.channels}`,
+      `--latency-msec=${LATENCY_MS}`,
+      '--raw'
+    ], { stdio: ['ignore', 'pipe', 'pipe'] });
+    this.recorder = recorder;
+
+    recorder.on('spawn', () => {
+      if (this.recorder !== recorder) return;
+      this.setState('connected');
+      this.callbacks.onLog('Audio capture started');
+      this.callbacks.onConnected();
+      this.callbacks.onAudioFormat(CAPTURE_FORMAT);
+    });
+
+    const assembleFrames = createFrameAssembler(CAPTURE_FORMAT.channels * (CAPTURE_FORMAT.bitsPerSample / 8));
+    recorder.stdout?.on('data', (chunk: Buffer) => {
+      // parec only gets this far once the source is open
+      if (this.recorder === recorder) this.backoff.reset();
+      const frames = assembleFrames(chunk);
+      if (frames) {
+        this.callbacks.onAudioData(frames);
+      }
+    });
+
+    recorder.stderr?.on('data', (data) => {
+      const message = data.toString().trim();
+      if (message) {
+        this.callbacks.onError(`[parec] ${message}`);
+      }
+    });
+
+    recorder.on('error', (err: NodeJS.ErrnoException) => {
+      if (this.recorder !== recorder) return;
+      if (err.code === 'ENOENT') {
+        // Retrying can't help until it's installed
+        this.callbacks.onError('parec is required to capture audio on this platform. Install PulseAudio utilities (pulseaudio-utils, or pipewire-pulse on PipeWire) or set PAREC_PATH.');
+        this.stopRecorder();
+        this.setState('failed');
+        return;
+      }
+      this.callbacks.onError(`Failed to start parec: ${err.message}`);
+      this.recorderLost();
+    });
+
+    recorder.on('exit', (code) => {
+      if (this.recorder !== recorder) return;
+      this.callbacks.onError(`parec exited with code ${code}`);
+      this.recorderLost();
+    });
+  }
+
+  // Stop recording and any pending restart
+  public disconnect() {
+    this.clearReconnectTimer();
+    this.backoff.reset();
+
+    if (this.recorder) {
+      this.callbacks.onLog('Stopping audio capture...');
+    }
+    const wasConnected = this.stopRecorder();
+    this.setState('idle');
+    if (wasConnected) {
+      this.callbacks.onDisconnected();
+    }
+  }
+
+  // Kill parec if it's still running; returns whether it had been capturing
+  private stopRecorder(): boolean {
+    const recorder = this.recorder;
+    this.recorder = null;
+
+    if (recorder && recorder.exitCode === null) {
+      recorder.kill('SIGTERM');
+    }
+    return this.state === 'connected';
+  }
+
+  // parec stopped on its own: schedule a restart, then report the lost stream
+  private recorderLost() {
+    const wasConnected = this.stopRecorder();
+    this.scheduleReconnect();
+    if (wasConnected) {
+      this.callbacks.onDisconnected();
+    }
+  }
+
+  // Try again after the source disappeared, e.g. while the sound server restarts
+  private scheduleReconnect() {
+    if (this.reconnectTimer) return;
+
+    const delay = this.backoff.next();
+    if (delay === null) {
+      this.callbacks.onError(`Gave up restarting audio capture after ${this.backoff.getMaxAttempts()} attempts`);
+      this.setState('failed');
+      return;
+    }
+
+    this.callbacks.onLog(`Will attempt to restart capture in ${(delay / 1000).toFixed(1)} seconds (attempt ${this.backoff.getAttempts()} of ${this.backoff.getMaxAttempts()})...`);
+    this.retryAt = Date.now() + delay;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.retryAt = null;
+      this.startRecorder();
+    }, delay);
+    this.setState('backoff');
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.retryAt = null;
+  }
+
+  public getIsConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  // A monitor source delivers silence as samples, so a running parec is never stale
+  public getConnectionInfo(): CaptureConnectionInfo {
+    return {
+      state: this.state,
+      attempt: this.backoff.getAttempts(),
+      retryInMs: this.retryAt !== null ? Math.max(0, this.retryAt - Date.now()) : undefined,
+      stale: false
+    };
+  }
+
+  public getServerUrl(): string {
+    return `pulse://${this.getDevice()}`;
+  }
+
+  // ===== Device Management =====
+
+  /**
+   * List PulseAudio sources, output monitors first
+   */
+  public async getDevices(): Promise<AudioDevice[]> {
+    try {
+      this.callbacks.onLog('Fetching audio devices list...');
+      const [info, sources] = await Promise.all([runPactl(['info']), runPactl(['list', 'sources'])]);
+      const devices = parsePulseSources(sources, info);
+      this.callbacks.onLog(`Retrieved ${devices.length} audio devices (${devices.filter(isMonitor).length} output monitors)`);
+      return devices;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.callbacks.onError(`Failed to get devices: ${errorMsg}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Capture from a source; restarts a running capture on the new source
+   */
+  public async selectDevice(deviceId: string): Promise<void> {
+    this.callbacks.onLog(`Selecting audio device: ${deviceId}`);
+    this.deviceId = deviceId;
+
+    if (this.recorder) {
+      this.disconnect();
+      this.connect();
+    }
+  }
+
+  public async startCapture(): Promise<void> {
+    if (!this.recorder) {
+      this.connect();
+    }
+  }
+
+  public async stopCapture(): Promise<void> {
+    this.disconnect();
+  }
+
+  public async getCaptureStatus(): Promise<CaptureStatus> {
+    return {
+      isCapturing: this.state === 'connected',
+      selectedDeviceId: this.getDevice()
+    };
+  }
+}
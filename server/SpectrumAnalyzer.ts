@@ -0,0 +1,211 @@
+import { SpectrumData } from './types';
+import { FftWindow, createWindow } from '../shared/fftWindow';
+
+export interface SpectrumAnalyzerOptions {
+  fftSize: number;
+  binCount: number;
+  windowFunction: FftWindow;
+  minFrequency: number;
+  floorDb: number;
+}
+
+const DEFAULT_OPTIONS: SpectrumAnalyzerOptions = {
+  fftSize: 2048,
+  binCount: 128,
+  windowFunction: 'hann',
+  minFrequency: 20,
+  floorDb: -70
+};
+
+// Runs FFT analysis in Node so only compact spectrum bins cross the DeskThing link
+export class SpectrumAnalyzer {
+  private options: SpectrumAnalyzerOptions = { ...DEFAULT_OPTIONS };
+  private sampleRate: number = 48000;
+  private window: Float32Array = createWindow(DEFAULT_OPTIONS.windowFunction, DEFAULT_OPTIONS.fftSize);
+  private windowGain: number = 1;
+  private cosTable: Float32Array = new Float32Array(0);
+  private sinTable: Float32Array = new Float32Array(0);
+
+  // Ring buffer holding the most recent fftSize mono samples
+  private ring: Float32Array = new Float32Array(DEFAULT_OPTIONS.fftSize);
+  private writeIndex: number = 0;
+
+  // Level statistics accumulated since the last analyze() call
+  private sumSquares: number = 0;
+  private sampleCount: number = 0;
+  private peak: number = 0;
+
+  constructor(options: Partial<SpectrumAnalyzerOptions> = {}) {
+    this.configure(options);
+  }
+
+  // Update analysis options, rebuilding tables when the FFT size or window changes
+  public configure(options: Partial<SpectrumAnalyzerOptions>) {
+    const next = { ...this.options, ...options };
+
+    // FFT size must be a power of two
+    next.fftSize = Math.pow(2, Math.round(Math.log2(Math.max(256, Math.min(8192, next.fftSize)))));
+    next.binCount = Math.max(16, Math.min(512, Math.floor(next.binCount)));
+
+    const rebuild = next.fftSize !== this.ring.length ||
+      next.windowFunction !== this.options.windowFunction ||
+      this.cosTable.length === 0;
+
+    this.options = next;
+
+    if (rebuild) {
+      this.window = createWindow(next.windowFunction, next.fftSize);
+      this.windowGain = this.window.reduce((sum, value) => sum + value, 0) / 2;
+      this.cosTable = new Float32Array(next.fftSize / 2);
+      this.sinTable = new Float32Array(next.fftSize / 2);
+      for (let i = 0; i < next.fftSize / 2; i++) {
+        this.cosTable[i] = Math.cos((2 * Math.PI * i) / next.fftSize);
+        this.sinTable[i] = Math.sin((2 * Math.PI * i) / next.fftSize);
+      }
+      this.ring = new Float32Array(next.fftSize);
+      this.writeIndex = 0;
+    }
+  }
+
+  public getOptions(): SpectrumAnalyzerOptions {
+    return { ...this.options };
+  }
+
+  public setSampleRate(sampleRate: number) {
+    if (sampleRate > 0) {
+      this.sampleRate = sampleRate;
+    }
+  }
+
+  // Add interleaved samples, mixing all channels down to mono
+  public push(samples: Float32Array, channels: number) {
+    const channelCount = Math.max(1, channels);
+    const frames = Math.floor(samples.length / channelCount);
+
+    for (let frame = 0; frame < frames; frame++) {
+      let sum = 0;
+      for (let ch = 0; ch < channelCount; ch++) {
+        sum += samples[frame * channelCount + ch];
+      }
+      const value = sum / channelCount;
+
+      this.ring[this.writeIndex] = value;
+      this.writeIndex = (this.writeIndex + 1) % this.ring.length;
+
+      this.sumSquares += value * value;
+      this.sampleCount++;
+      const magnitude = Math.abs(value);
+      if (magnitude > this.peak) this.peak = magnitude;
+    }
+  }
+
+  // Whether samples arrived since the last analyze() call
+  public hasNewData(): boolean {
+    return this.sampleCount > 0;
+  }
+
+  // In-place iterative radix-2 FFT
+  private fft(real: Float32Array, imag: Float32Array) {
+    const n = real.length;
+
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) {
+        j ^= bit;
+      }
+      j ^= bit;
+      if (i < j) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+      const half = size >> 1;
+      const tableStep = n / size;
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0; k < half; k++) {
+          const cos = this.cosTable[k * tableStep];
+          const sin = this.sinTable[k * tableStep];
+          const a = start + k;
+          const b = a + half;
+          const tre = real[b] * cos + imag[b] * sin;
+          const tim = -real[b] * sin + imag[b] * cos;
+          real[b] = real[a] - tre;
+          imag[b] = imag[a] - tim;
+          real[a] += tre;
+          imag[a] += tim;
+        }
+      }
+    }
+  }
+
+  // Analyze the most recent fftSize samples into log-spaced, normalized bins
+  public analyze(): SpectrumData {
+    const { fftSize, binCount, minFrequency, floorDb } = this.options;
+    const real = new Float32Array(fftSize);
+    const imag = new Float32Array(fftSize);
+
+    // Unroll the ring buffer oldest-first and apply the window
+    for (let i = 0; i < fftSize; i++) {
+      real[i] = this.ring[(this.writeIndex + i) % fftSize] * this.window[i];
+    }
+
+    this.fft(real, imag);
+
+    const halfSize = fftSize / 2;
+    const magnitudes = new Float32Array(halfSize);
+    for (let i = 0; i < halfSize; i++) {
+      magnitudes[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]) / this.windowGain;
+    }
+
+    // Log-frequency mapping from minFrequency up to Nyquist
+    const nyquist = this.sampleRate / 2;
+    const minFreq = Math.max(1, Math.min(minFrequency, nyquist / 2));
+    const hzPerBin = this.sampleRate / fftSize;
+    const bins: number[] = [];
+
+    for (let i = 0; i < binCount; i++) {
+      const lowHz = minFreq * Math.pow(nyquist / minFreq, i / binCount);
+      const highHz = minFreq * Math.pow(nyquist / minFreq, (i + 1) / binCount);
+      const start = Math.min(halfSize - 1, Math.floor(lowHz / hzPerBin));
+      const end = Math.min(halfSize, Math.max(start + 1, Math.ceil(highHz / hzPerBin)));
+
+      // Use the loudest FFT bin in the band so narrow bands at the bottom aren't diluted
+      let magnitude = 0;
+      for (let j = start; j < end; j++) {
+        if (magnitudes[j] > magnitude) magnitude = magnitudes[j];
+      }
+
+      const db = 20 * Math.log10(magnitude + 1e-12);
+      bins.push(Math.max(0, Math.min(1, (db - floorDb) / -floorDb)));
+    }
+
+    const rms = this.sampleCount > 0 ? Math.sqrt(this.sumSquares / this.sampleCount) : 0;
+    const result: SpectrumData = {
+      bins,
+      rms,
+      peak: this.peak,
+      sampleRate: this.sampleRate,
+      fftSize,
+      minFrequency: minFreq,
+      rangeDb: -floorDb,
+      timestamp: Date.now()
+    };
+
+    this.sumSquares = 0;
+    this.sampleCount = 0;
+    this.peak = 0;
+
+    return result;
+  }
+
+  // Clear buffered audio, e.g. after a disconnect
+  public reset() {
+    this.ring.fill(0);
+    this.writeIndex = 0;
+    this.sumSquares = 0;
+    this.sampleCount = 0;
+    this.peak = 0;
+  }
+}
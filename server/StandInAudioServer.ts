@@ -0,0 +1,281 @@
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'http';
+import { type AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { AudioFormatData } from './types';
+import { FilePlaybackSource } from './FilePlaybackSource';
+
+export interface StandInAudioServerOptions {
+  port?: number; // 0 picks a free port
+  file?: string; // play this WAV/FLAC/MP3 instead of the synthetic signal
+  loop?: boolean;
+}
+
+export interface StandInAudioServerCallbacks {
+  onLog: (message: string) => void;
+  onError: (error: string) => void;
+}
+
+// Device entries as the capture server lists them in /api/devices
+interface StandInDevice {
+  id: string;
+  name: string;
+  index: number;
+  state: string;
+}
+
+export const STAND_IN_DEVICES: { renderDevices: StandInDevice[]; captureDevices: StandInDevice[] } = {
+  renderDevices: [
+    { id: 'stand-in-speakers', name: 'Speakers (Stand-in)', index: 0, state: 'Active' },
+    { id: 'stand-in-headphones', name: 'Headphones (Stand-in)', index: 1, state: 'Active' }
+  ],
+  captureDevices: [
+    { id: 'stand-in-microphone', name: 'Microphone (Stand-in)', index: 0, state: 'Active' }
+  ]
+};
+
+const SYNTHETIC_FORMAT: AudioFormatData = {
+  sampleRate: 48000,
+  bitsPerSample: 32,
+  channels: 2,
+  encoding: 'IeeeFloat'
+};
+
+// Same chunk rate as file playback
+const CHUNK_INTERVAL_MS = 20;
+
+// A 120 BPM loop: kick on every beat, a slowly swelling chord and a hi-hat on the off-beats,
+// so bass, mids, treble and beat detection all have something to react to
+const BEAT_SECONDS = 0.5;
+const CHORD_HZ = [220, 277.18, 329.63];
+
+const syntheticSample = (time: number, channel: number): number => {
+  const beatTime = time % BEAT_SECONDS;
+  const kickHz = 50 + 70 * Math.exp(-beatTime * 30);
+  const kick = Math.sin(2 * Math.PI * kickHz * beatTime) * Math.exp(-beatTime * 8);
+
+  const swell = 0.5 + 0.5 * Math.sin(2 * Math.PI * 0.125 * time);
+  const chord = CHORD_HZ.reduce((sum, hz) => sum + Math.sin(2 * Math.PI * hz * time), 0) / CHORD_HZ.length;
+
+  const offBeatTime = (time + BEAT_SECONDS / 2) % BEAT_SECONDS;
+  const hat = (Math.random() * 2 - 1) * Math.exp(-offBeatTime * 60);
+
+  // Pan the chord a little so stereo modes differ between channels
+  const pan = channel === 0 ? 0.8 : 1;
+  return 0.5 * kick + 0.25 * swell * chord * pan + 0.15 * hat;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<Record<string, unknown>> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    try {
+      const text = Buffer.concat(chunks).toString('utf8');
+      const body = text ? JSON.parse(text) : {};
+      resolve(body && typeof body === 'object' ? body : {});
+    } catch (error) {
+      reject(error);
+    }
+  });
+  req.on('error', reject);
+});
+
+// Implements the Windows capture server's HTTP/WebSocket contract with fake
+// devices and synthetic or file-backed audio, for development on any platform
+// and as a fixture for testing WebSocketAudioClient and AudioStreamService.
+export class StandInAudioServer {
+  private options: StandInAudioServerOptions;
+  private callbacks: StandInAudioServerCallbacks;
+  private server: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private format: AudioFormatData | null = null;
+  private isCapturing: boolean = true;
+  private selectedDeviceId: string = STAND_IN_DEVICES.renderDevices[0].id;
+  private timer: NodeJS.Timeout | null = null;
+  private filePlayer: FilePlaybackSource;
+
+  constructor(options: StandInAudioServerOptions = {}, callbacks: StandInAudioServerCallbacks) {
+    this.options = options;
+    this.callbacks = callbacks;
+
+    this.filePlayer = new FilePlaybackSource({
+      onStarted: () => {},
+      onStopped: () => {},
+      onAudioFormat: (format: AudioFormatData) => this.setFormat(format),
+      onAudioData: (buffer: Buffer) => this.broadcast(buffer),
+      onError: (error: string) => this.callbacks.onError(error),
+      onLog: (message: string) => this.callbacks.onLog(message)
+    });
+  }
+
+  // Listen on the configured port; resolves with the port actually bound
+  public start(): Promise<number> {
+    if (this.server) {
+      return Promise.resolve((this.server.address() as AddressInfo).port);
+    }
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        sendJson(res, 500, { message: errorMsg });
+      });
+    });
+    this.server = server;
+
+    this.wss = new WebSocketServer({ server, path: '/ws/audio' });
+    this.wss.on('connection', (ws) => {
+      this.callbacks.onLog('Client connected to /ws/audio');
+      // The format always comes first, as text; audio follows as binary
+      if (this.format) {
+        ws.send(JSON.stringify(this.format));
+      }
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 5012, () => {
+        server.off('error', reject);
+        const port = (server.address() as AddressInfo).port;
+        this.callbacks.onLog(`Stand-in audio server listening on http://localhost:${port} (ws://localhost:${port}/ws/audio)`);
+        if (this.isCapturing) {
+          this.startAudio();
+        }
+        resolve(port);
+      });
+    });
+  }
+
+  // Stop audio, close every client and the listener
+  public async stop(): Promise<void> {
+    this.stopAudio();
+
+    const wss = this.wss;
+    const server = this.server;
+    this.wss = null;
+    this.server = null;
+
+    wss?.clients.forEach(client => client.terminate());
+    await new Promise<void>(resolve => (wss ? wss.close(() => resolve()) : resolve()));
+    await new Promise<void>(resolve => (server ? server.close(() => resolve()) : resolve()));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const route = `${req.method} ${path}`;
+
+    switch (route) {
+      case 'GET /api/devices':
+        sendJson(res, 200, STAND_IN_DEVICES);
+        return;
+
+      case 'POST /api/devices/select': {
+        let body: Record<string, unknown>;
+        try {
+          body = await readJsonBody(req);
+        } catch {
+          sendJson(res, 400, { message: 'Request body is not valid JSON' });
+          return;
+        }
+
+        const device = this.findDevice(body.deviceId);
+        if (!device) {
+          sendJson(res, 404, { message: `Unknown device: ${body.deviceId}` });
+          return;
+        }
+        this.selectedDeviceId = device.id;
+        this.callbacks.onLog(`Selected device: ${device.name}`);
+        sendJson(res, 200, { message: `Selected ${device.name}` });
+        return;
+      }
+
+      case 'POST /api/capture/start':
+        if (!this.isCapturing) {
+          this.isCapturing = true;
+          this.startAudio();
+        }
+        sendJson(res, 200, { message: `Capturing from ${this.getSelectedDevice().name}` });
+        return;
+
+      case 'POST /api/capture/stop':
+        if (this.isCapturing) {
+          this.isCapturing = false;
+          this.stopAudio();
+        }
+        sendJson(res, 200, { message: 'Capture stopped' });
+        return;
+
+      case 'GET /api/capture/status':
+        sendJson(res, 200, {
+          isCapturing: this.isCapturing,
+          selectedDeviceId: this.selectedDeviceId,
+          selectedDeviceName: this.getSelectedDevice().name
+        });
+        return;
+
+      default:
+        sendJson(res, 404, { message: `No route for ${route}` });
+    }
+  }
+
+  private findDevice(deviceId: unknown): StandInDevice | undefined {
+    return [...STAND_IN_DEVICES.renderDevices, ...STAND_IN_DEVICES.captureDevices].find(device => device.id === deviceId);
+  }
+
+  private getSelectedDevice(): StandInDevice {
+    return this.findDevice(this.selectedDeviceId) ?? STAND_IN_DEVICES.renderDevices[0];
+  }
+
+  private startAudio() {
+    if (this.options.file) {
+      this.filePlayer.play(this.options.file, this.options.loop ?? true);
+      return;
+    }
+
+    this.setFormat(SYNTHETIC_FORMAT);
+    const { sampleRate, channels } = SYNTHETIC_FORMAT;
+
+    // Pace by wall-clock time so timer jitter doesn't drift the sample rate
+    const startTime = Date.now();
+    let frame = 0;
+
+    this.timer = setInterval(() => {
+      const due = Math.floor(((Date.now() - startTime) / 1000) * sampleRate);
+      if (due <= frame) return;
+
+      const chunk = Buffer.alloc((due - frame) * channels * 4);
+      for (let i = 0; frame < due; i++, frame++) {
+        const time = frame / sampleRate;
+        for (let channel = 0; channel < channels; channel++) {
+          chunk.writeFloatLE(syntheticSample(time, channel), (i * channels + channel) * 4);
+        }
+      }
+      this.broadcast(chunk);
+    }, CHUNK_INTERVAL_MS);
+  }
+
+  private stopAudio() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.filePlayer.stop();
+  }
+
+  // Tell connected clients about a new format before any audio in it
+  private setFormat(format: AudioFormatData) {
+    this.format = format;
+    this.broadcast(JSON.stringify(format));
+  }
+
+  private broadcast(data: Buffer | string) {
+    this.wss?.clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(data);
+      }
+    });
+  }
+}
@@ -1,42 +1,67 @@
 import WebSocket from 'ws';
-import { AudioFormatData, AudioStreamData } from './types';
-
-export interface WebSocketCallbacks {
-  onConnected: () => void;
-  onDisconnected: () => void;
-  onAudioFormat: (format: AudioFormatData) => void;
-  onAudioData: (data: AudioStreamData) => void;
-  onError: (error: string) => void;
-  onLog: (message: string) => void;
-  onWarning: (message: string) => void;
-}
+import { AudioFormatData, StreamConnectionState } from './types';
+import { AudioDevice, CaptureBackend, CaptureCallbacks, CaptureConnectionInfo, CaptureStatus } from './CaptureBackend';
+import { Backoff, BackoffOptions } from './Backoff';
 
-export interface AudioDevice {
-  deviceId: string;
-  name: string;
-  isDefault: boolean;
-  state: string;
-}
+// Retry after 1, 2, 4 ... up to 30 seconds, then give up until connect() is called again
+const RECONNECT_BACKOFF = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxAttempts: 10,
+  jitter: 0.5
+};
+
+// A server that misses a ping for this long is treated as gone
+const HEARTBEAT_INTERVAL = 5000;
+
+// No binary frames for this long while capturing marks the stream stale
+const STALE_STREAM_MS = 10000;
+
+// Give the server a moment to come up on its new port before reconnecting
+const URL_CHANGE_RECONNECT_MS = 1000;
 
-export interface CaptureStatus {
-  isCapturing: boolean;
-  selectedDeviceId?: string;
-  selectedDeviceName?: string;
+// Reconnect and health check timings; tests shorten them
+export interface WebSocketAudioClientTimings {
+  reconnect: BackoffOptions;
+  heartbeatIntervalMs: number;
+  staleStreamMs: number;
+  urlChangeReconnectMs: number;
 }
 
-export class WebSocketAudioClient {
+const DEFAULT_TIMINGS: WebSocketAudioClientTimings = {
+  reconnect: RECONNECT_BACKOFF,
+  heartbeatIntervalMs: HEARTBEAT_INTERVAL,
+  staleStreamMs: STALE_STREAM_MS,
+  urlChangeReconnectMs: URL_CHANGE_RECONNECT_MS
+};
+
+export class WebSocketAudioClient implements CaptureBackend {
   private ws: WebSocket | null = null;
-  private isConnected: boolean = false;
-  private reconnectInterval: NodeJS.Timeout | null = null;
-  private callbacks: WebSocketCallbacks;
+  private state: StreamConnectionState = 'idle';
+  private callbacks: CaptureCallbacks;
+  private timings: WebSocketAudioClientTimings;
+  
+  // Reconnect state
+  private backoff: Backoff;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private retryAt: number | null = null;
+  
+  // Health checks
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private awaitingPong: boolean = false;
+  private lastAudioAt: number = 0;
+  private stale: boolean = false;
+  private staleReconnected: boolean = false; // a stale stream gets one reconnect, then stays flagged
+  private captureStopped: boolean = false; // stopped through the API, so silence is expected
   
   // WebSocket and API URLs - now configurable
   private baseUrl: string = "http://localhost:5012";
   private wsUrl: string = "ws://localhost:5012";
-  private readonly RECONNECT_DELAY = 5000; // 5 seconds
 
-  constructor(callbacks: WebSocketCallbacks, baseUrl: string = "http://localhost:5012", wsUrl: string = "ws://localhost:5012") {
+  constructor(callbacks: CaptureCallbacks, baseUrl: string = "http://localhost:5012", wsUrl: string = "ws://localhost:5012", timings: Partial<WebSocketAudioClientTimings> = {}) {
     this.callbacks = callbacks;
+    this.timings = { ...DEFAULT_TIMINGS, ...timings };
+    this.backoff = new Backoff(this.timings.reconnect);
     this.baseUrl = baseUrl;
     this.wsUrl = wsUrl;
     this.callbacks.onLog('WebSocketAudioClient initialized');
@@ -44,9 +69,9 @@ export class WebSocketAudioClient {
 
   // Update URLs dynamically
   public updateUrls(baseUrl: string, wsUrl: string) {
-    const wasConnected = this.isConnected;
+    const wasActive = this.state !== 'idle' && this.state !== 'failed';
     
-    if (wasConnected) {
+    if (wasActive) {
       this.disconnect();
     }
     
@@ -54,9 +79,15 @@ export class WebSocketAudioClient {
     this.wsUrl = wsUrl;
     this.callbacks.onLog(`URLs updated - Base: ${baseUrl}, WebSocket: ${wsUrl}`);
     
-    if (wasConnected) {
-      // Reconnect with new URLs
-      setTimeout(() => this.connect(), 1000);
+    if (wasActive) {
+      // Reconnect with new URLs on the retry timer, so disconnect() cancels it
+      const delay = this.timings.urlChangeReconnectMs;
+      this.retryAt = Date.now() + delay;
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, delay);
+      this.setState('backoff');
     }
   }
 
@@ -70,61 +101,91 @@ export class WebSocketAudioClient {
     return this.baseUrl;
   }
 
-  // Connect to the C# WebSocket server
+  private setState(state: StreamConnectionState) {
+    if (state === this.state) return;
+    this.state = state;
+    this.callbacks.onStateChange();
+  }
+
+  // Connect to the C# WebSocket server, starting a fresh series of attempts
   public connect() {
-    if (this.ws && this.isConnected) {
-      this.callbacks.onWarning('Already connected to audio stream');
+    if (this.state === 'connected' || this.state === 'connecting') {
+      this.callbacks.onWarning(this.state === 'connected' ? 'Already connected to audio stream' : 'Already connecting to audio stream');
       return;
     }
 
-    try {
-      const wsUrl = this.getWsUrl();
-      this.callbacks.onLog(`Connecting to audio stream at ${wsUrl}...`);
-      
-      this.ws = new WebSocket(wsUrl);
-
-      this.ws.on('open', () => {
-        this.isConnected = true;
-        this.callbacks.onLog('Connected to audio stream successfully');
-        this.callbacks.onConnected();
-        
-        // Clear reconnect interval if exists
-        if (this.reconnectInterval) {
-          clearInterval(this.reconnectInterval);
-          this.reconnectInterval = null;
-        }
-      });
-
-      this.ws.on('message', (data: WebSocket.Data) => {
-        this.handleMessage(data);
-      });
-
-      this.ws.on('error', (error) => {
-        this.callbacks.onError(`WebSocket error: ${error.message}`);
-      });
+    this.clearReconnectTimer();
+    this.backoff.reset();
+    this.staleReconnected = false;
+    this.openSocket();
+  }
 
-      this.ws.on('close', () => {
-        this.isConnected = false;
-        this.callbacks.onLog('Disconnected from audio stream');
-        this.callbacks.onDisconnected();
-        
-        // Auto-reconnect
-        this.scheduleReconnect();
-      });
+  // One connection attempt; a failure or lost connection schedules the next
+  private openSocket() {
+    const wsUrl = this.getWsUrl();
+    this.callbacks.onLog(`Connecting to audio stream at ${wsUrl}...`);
+    this.setState('connecting');
 
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(wsUrl);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       this.callbacks.onError(`Failed to connect to audio stream: ${errorMsg}`);
       this.scheduleReconnect();
+      return;
     }
+    this.ws = ws;
+
+    // Events from a socket that was replaced or closed on purpose are ignored
+    ws.on('open', () => {
+      if (this.ws !== ws) return;
+      this.backoff.reset();
+      this.lastAudioAt = Date.now();
+      this.stale = false;
+      this.setState('connected');
+      this.callbacks.onLog('Connected to audio stream successfully');
+      this.callbacks.onConnected();
+      this.startHeartbeat();
+    });
+
+    ws.on('message', (data: WebSocket.Data, isBinary: boolean) => {
+      if (this.ws !== ws) return;
+      this.handleMessage(data, isBinary);
+    });
+
+    ws.on('pong', () => {
+      if (this.ws !== ws) return;
+      this.awaitingPong = false;
+    });
+
+    ws.on('error', (error) => {
+      if (this.ws !== ws) return;
+      this.callbacks.onError(`WebSocket error: ${error.message}`);
+    });
+
+    ws.on('close', () => {
+      if (this.ws !== ws) return;
+      const wasConnected = this.state === 'connected';
+      this.ws = null;
+      this.stale = false;
+      this.stopHeartbeat();
+      this.scheduleReconnect();
+
+      if (wasConnected) {
+        this.callbacks.onLog('Disconnected from audio stream');
+        this.callbacks.onDisconnected();
+      }
+    });
   }
 
   // Handle incoming WebSocket messages
-  private handleMessage(data: WebSocket.Data) {
-    if (typeof data === 'string') {
+  private handleMessage(data: WebSocket.Data, isBinary: boolean) {
+    // ws hands text frames over as Buffers too, so go by the frame type
+    if (!isBinary) {
       // First message: Audio format info
       try {
-        const audioFormat = JSON.parse(data) as AudioFormatData;
+        const audioFormat = JSON.parse(data.toString()) as AudioFormatData;
         this.callbacks.onLog(`Audio format received: ${audioFormat.sampleRate}Hz, ${audioFormat.channels}ch, ${audioFormat.bitsPerSample}bit`);
         this.callbacks.onAudioFormat(audioFormat);
       } catch (error) {
@@ -138,48 +199,126 @@ export class WebSocketAudioClient {
 
   // Handle binary audio data
   private handleAudioData(buffer: Buffer) {
-    // Send raw audio data to client
-    const audioData: AudioStreamData = {
-      data: Array.from(buffer),
-      length: buffer.length,
-      timestamp: Date.now()
-    };
-    
-    this.callbacks.onAudioData(audioData);
+    this.lastAudioAt = Date.now();
+    if (this.stale) {
+      this.stale = false;
+      this.staleReconnected = false;
+      this.callbacks.onLog('Audio stream resumed');
+      this.callbacks.onStateChange();
+    }
+
+    // Hand the raw buffer on; encoding for the client happens in AudioStreamService
+    this.callbacks.onAudioData(buffer);
   }
 
-  // Disconnect from WebSocket
+  // Disconnect from WebSocket and stop retrying
   public disconnect() {
-    if (this.reconnectInterval) {
-      clearInterval(this.reconnectInterval);
-      this.reconnectInterval = null;
-    }
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+    this.backoff.reset();
+
+    const ws = this.ws;
+    const wasConnected = this.state === 'connected';
+    this.ws = null;
+    this.stale = false;
+    this.setState('idle');
 
-    if (this.ws) {
+    if (ws) {
       this.callbacks.onLog('Disconnecting from audio stream...');
-      this.isConnected = false;
-      this.ws.close();
-      this.ws = null;
+      ws.close();
+    }
+    if (wasConnected) {
+      this.callbacks.onDisconnected();
     }
   }
 
-  // Schedule reconnection attempt
+  // Retry after an exponentially growing delay, or give up
   private scheduleReconnect() {
-    if (this.reconnectInterval) {
+    if (this.reconnectTimer) {
       return; // Already scheduled
     }
 
-    this.callbacks.onLog(`Will attempt to reconnect in ${this.RECONNECT_DELAY / 1000} seconds...`);
-    
-    this.reconnectInterval = setInterval(() => {
+    const delay = this.backoff.next();
+    if (delay === null) {
+      this.callbacks.onError(`Gave up connecting to audio stream after ${this.backoff.getMaxAttempts()} attempts`);
+      this.setState('failed');
+      return;
+    }
+
+    this.callbacks.onLog(`Will attempt to reconnect in ${(delay / 1000).toFixed(1)} seconds (attempt ${this.backoff.getAttempts()} of ${this.backoff.getMaxAttempts()})...`);
+    this.retryAt = Date.now() + delay;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.retryAt = null;
       this.callbacks.onLog('Attempting to reconnect...');
-      this.connect();
-    }, this.RECONNECT_DELAY);
+      this.openSocket();
+    }, delay);
+    this.setState('backoff');
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.retryAt = null;
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.awaitingPong = false;
+    this.heartbeatTimer = setInterval(() => this.checkHealth(), this.timings.heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  // Ping the server and watch for audio. Terminating the socket runs the normal reconnect path.
+  private checkHealth() {
+    const ws = this.ws;
+    if (!ws || this.state !== 'connected') return;
+
+    if (this.awaitingPong) {
+      this.callbacks.onWarning('Audio stream stopped answering pings, reconnecting...');
+      ws.terminate();
+      return;
+    }
+
+    const silentFor = Date.now() - this.lastAudioAt;
+    if (!this.stale && !this.captureStopped && silentFor > this.timings.staleStreamMs) {
+      this.stale = true;
+      this.callbacks.onWarning(`No audio received for ${Math.round(silentFor / 1000)} seconds`);
+      this.callbacks.onStateChange();
+
+      // A stuck capture usually recovers on a new connection; one that is only silent stays flagged
+      if (!this.staleReconnected) {
+        this.staleReconnected = true;
+        this.callbacks.onLog('Reconnecting stale audio stream...');
+        ws.terminate();
+        return;
+      }
+    }
+
+    this.awaitingPong = true;
+    ws.ping();
   }
 
   // Get connection status
   public getIsConnected(): boolean {
-    return this.isConnected;
+    return this.state === 'connected';
+  }
+
+  public getConnectionInfo(): CaptureConnectionInfo {
+    return {
+      state: this.state,
+      attempt: this.backoff.getAttempts(),
+      retryInMs: this.retryAt !== null ? Math.max(0, this.retryAt - Date.now()) : undefined,
+      stale: this.stale
+    };
   }
 
   // Get WebSocket URL
@@ -281,6 +420,8 @@ export class WebSocketAudioClient {
       }
       
       const result = await response.json();
+      this.captureStopped = false;
+      this.lastAudioAt = Date.now();
       this.callbacks.onLog(`Capture started: ${result.message}`);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -304,6 +445,7 @@ export class WebSocketAudioClient {
       }
       
       const result = await response.json();
+      this.captureStopped = true;
       this.callbacks.onLog(`Capture stopped: ${result.message}`);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -1,59 +1,83 @@
 import { createDeskThing } from "@deskthing/server";
-import { ToClientData, GenericTransitData, AudioStreamData, AudioFormatData, AudioStreamStatus } from "./types";
-import { setupSettings, FlowThingSettingIDs, currentSettings, setWebSocketClient, setAudioStreamService, triggerDeviceRefresh } from './setupSettings.js';
-import { WebSocketAudioClient, WebSocketCallbacks } from './WebSocketAudioClient.js';
-import { spawn, type ChildProcess } from "child_process";
-import { join as pathJoin, dirname as pathDirname } from "path";
+import { ToClientData, GenericTransitData, AudioFormatData, AudioStreamStatus, AnalysisMode, AudioStreamSource, PresetRequest, SettingsUpdate, ServerStatus } from "./types";
+import { setupSettings, FlowThingSettingIDs, currentSettings, setCaptureBackend, setAudioStreamService, triggerDeviceRefresh, refreshPlaybackFiles, sendSettings, handleClientSettings, showServerConfigProblems } from './setupSettings.js';
+import { WebSocketAudioClient } from './WebSocketAudioClient.js';
+import { PulseCaptureBackend } from './PulseCaptureBackend.js';
+import { CaptureBackend, CaptureBackendType, CaptureCallbacks, resolveCaptureBackend } from './CaptureBackend.js';
+import { FilePlaybackSource, listAudioFiles } from './FilePlaybackSource.js';
+import { AudioTranscoder } from './AudioTranscoder.js';
+import { SpectrumAnalyzer } from './SpectrumAnalyzer.js';
+import { FftWindow, isFftWindow } from '../shared/fftWindow.js';
+import { PresetStore } from './PresetStore.js';
+import { AudioServerSupervisor, AudioServerConfig, DEFAULT_SERVER_EXECUTABLE, parseArgumentList, parseEnvironment, validateServerConfig } from './AudioServerSupervisor.js';
+import { basename as pathBasename } from "path";
 import { existsSync as fsExistsSync } from "fs";
-import { homedir } from "os";
 
 const DeskThing = createDeskThing<GenericTransitData, ToClientData>();
 
 class AudioStreamService {
+  // Capture backends; `capture` is the one the 'capture' source reads from
   private wsClient: WebSocketAudioClient;
+  private pulseBackend: PulseCaptureBackend;
+  private captureType: CaptureBackendType = resolveCaptureBackend('auto');
+  private capture: CaptureBackend;
   private audioFormat: AudioFormatData | null = null;
+  private transcoder: AudioTranscoder = new AudioTranscoder();
+  
+  // Server-side spectrum analysis
+  private analysisMode: AnalysisMode = 'client';
+  private spectrumAnalyzer: SpectrumAnalyzer = new SpectrumAnalyzer();
+  private spectrumRate: number = 30; // spectrum frames per second
+  private spectrumTimer: NodeJS.Timeout | null = null;
+  
+  // Audio file playback (stands in for the capture server)
+  private filePlayer: FilePlaybackSource;
+  private source: AudioStreamSource = 'capture';
+  private settingsSource: string | null = null; // last audioSource seen in server settings
+  private playbackFolder: string = "";
+  private playbackFile: string = "";
+  private playbackLoop: boolean = true;
   
   // Server process management
-  private serverProcess: ChildProcess | null = null;
-  private serverExecutablePath: string = "";
-  private isServerRunning: boolean = false;
-  private serverStartupDelay: number = 3000; // 3 seconds for audio server to start
+  private serverSupervisor: AudioServerSupervisor;
   private autoStartServer: boolean = true;
+  private baseUrl: string = "http://localhost:5012";
+  private wsUrl: string = "ws://localhost:5012";
+  private serverConfigProblems: string = ""; // last reported, so each problem is reported once
 
   constructor() {
-    // Set default server path
-    const appData = process.env.APPDATA || pathJoin(homedir(), 'AppData', 'Roaming');
-    this.serverExecutablePath = pathJoin(appData, "deskthing", "apps", "FlowThing", "client", "Audio.exe");
-    
     DeskThing.sendLog('AudioStreamService initialized');
     
-    // Initialize WebSocket client with default URLs (will be updated from settings)
-    const baseUrl = "http://localhost:5012";
-    const wsUrl = "ws://localhost:5012";
+    // Start with the default server launch settings (will be updated from settings)
+    this.serverSupervisor = new AudioServerSupervisor({
+      executablePath: DEFAULT_SERVER_EXECUTABLE,
+      args: [],
+      cwd: "",
+      env: {},
+      baseUrl: this.baseUrl
+    }, {
+      onStatusChange: (status: ServerStatus) => DeskThing.send({ type: 'server_status', payload: status }),
+      onReady: (afterCrash: boolean) => {
+        if (afterCrash) this.handleServerRecovered();
+      },
+      onLog: (message: string) => DeskThing.sendLog(message),
+      onWarning: (message: string) => DeskThing.sendWarning(message),
+      onError: (error: string) => DeskThing.sendError(error)
+    });
     
-    // Set up callbacks for WebSocket client
-    const callbacks: WebSocketCallbacks = {
+    // Set up callbacks shared by the capture backends, tagging audio with the backend it came from
+    const callbacksFor = (type: CaptureBackendType): CaptureCallbacks => ({
+      // Connecting and disconnecting are state changes too, so status goes out from onStateChange
       onConnected: () => {
-        this.sendStatus();
+        this.updateSpectrumTimer();
       },
       onDisconnected: () => {
-        this.sendStatus();
-      },
-      onAudioFormat: (format: AudioFormatData) => {
-        this.audioFormat = format;
-        DeskThing.send({ 
-          type: 'audio_format', 
-          payload: this.audioFormat
-        });
-        // Update status with new format
-        this.sendStatus();
-      },
-      onAudioData: (data: AudioStreamData) => {
-        DeskThing.send({ 
-          type: 'audio_data', 
-          payload: data
-        });
+        this.updateSpectrumTimer();
+        this.spectrumAnalyzer.reset();
       },
+      onStateChange: () => this.sendStatus(),
+      onAudioFormat: (format: AudioFormatData) => this.handleAudioFormat(type, format),
+      onAudioData: (buffer: Buffer) => this.handleAudioData(type, buffer),
       onError: (error: string) => {
         DeskThing.sendError(error);
       },
@@ -63,144 +87,176 @@ class AudioStreamService {
       onWarning: (message: string) => {
         DeskThing.sendWarning(message);
       }
-    };
+    });
+    
+    this.wsClient = new WebSocketAudioClient(callbacksFor('websocket'), this.baseUrl, this.wsUrl);
+    this.pulseBackend = new PulseCaptureBackend(callbacksFor('pulse'));
+    this.capture = this.getBackend(this.captureType);
     
-    this.wsClient = new WebSocketAudioClient(callbacks, baseUrl, wsUrl);
+    this.filePlayer = new FilePlaybackSource({
+      onStarted: () => {
+        this.updateSpectrumTimer();
+        this.sendStatus();
+      },
+      onStopped: () => {
+        this.updateSpectrumTimer();
+        this.spectrumAnalyzer.reset();
+        this.sendStatus();
+      },
+      onAudioFormat: (format: AudioFormatData) => this.handleAudioFormat('file', format),
+      onAudioData: (buffer: Buffer) => this.handleAudioData('file', buffer),
+      onError: (error: string) => DeskThing.sendError(error),
+      onLog: (message: string) => DeskThing.sendLog(message)
+    });
   }
 
-  // Check if server executable exists
-  private checkServerExecutable(): boolean {
-    if (!this.serverExecutablePath) {
-      DeskThing.sendLog('No server executable path configured');
-      return false;
-    }
-
-    if (!fsExistsSync(this.serverExecutablePath)) {
-      DeskThing.sendLog(`Server executable not found at: ${this.serverExecutablePath}`);
-      return false;
-    }
-
-    return true;
+  // Whether audio from this producer belongs to the active source. A backend
+  // that was switched away from can still deliver a few late chunks.
+  private isActiveProducer(from: CaptureBackendType | 'file'): boolean {
+    return this.source === 'file' ? from === 'file' : from === this.captureType;
   }
 
-  // Start the audio server process
-  public async startServer(): Promise<boolean> {
-    if (this.isServerRunning) {
-      DeskThing.sendWarning('Audio server is already running');
-      return true;
-    }
+  // A new format from the active source
+  private handleAudioFormat(from: CaptureBackendType | 'file', format: AudioFormatData) {
+    if (!this.isActiveProducer(from)) return;
+    this.audioFormat = format;
+    this.transcoder.setInputFormat(format);
+    this.spectrumAnalyzer.setSampleRate(format.sampleRate);
+    this.sendAudioFormat();
+    // Update status with new format
+    this.sendStatus();
+  }
 
-    if (!this.checkServerExecutable()) {
-      return false;
+  // Forward a chunk of PCM from the active source
+  private handleAudioData(from: CaptureBackendType | 'file', buffer: Buffer) {
+    if (!this.isActiveProducer(from)) return;
+    if (this.analysisMode === 'server') {
+      const samples = this.transcoder.decode(buffer);
+      if (samples) {
+        this.spectrumAnalyzer.push(samples, this.audioFormat?.channels || 1);
+        return;
+      }
+      // Format can't be decoded in Node, fall through and let the client try
     }
+    
+    DeskThing.send({ 
+      type: 'audio_data', 
+      payload: this.transcoder.encode(buffer)
+    });
+  }
 
-    DeskThing.sendLog(`Starting audio server from: ${this.serverExecutablePath}`);
-
-    try {
-      this.serverProcess = spawn(this.serverExecutablePath, [], {
-        cwd: pathDirname(this.serverExecutablePath),
-        stdio: ['ignore', 'pipe', 'pipe']
-      });
-
-      this.serverProcess.stdout?.on('data', (data) => {
-        const output = data.toString().trim();
-        if (output) {
-          DeskThing.sendLog(`[Audio Server] ${output}`);
-        }
-      });
-
-      this.serverProcess.stderr?.on('data', (data) => {
-        const error = data.toString().trim();
-        if (error) {
-          DeskThing.sendError(`[Audio Server Error] ${error}`);
-        }
-      });
+  // Whether the active source is currently producing audio
+  private isStreaming(): boolean {
+    return this.source === 'file' ? this.filePlayer.isPlaying() : this.capture.getIsConnected();
+  }
 
-      this.serverProcess.on('exit', (code) => {
-        this.isServerRunning = false;
-        this.sendServerStatus();
-        
-        if (code === 0) {
-          DeskThing.sendLog('Audio server stopped gracefully');
-        } else {
-          DeskThing.sendError(`Audio server exited with code ${code}`);
-        }
-      });
+  private getBackend(type: CaptureBackendType): CaptureBackend {
+    return type === 'pulse' ? this.pulseBackend : this.wsClient;
+  }
 
-      this.serverProcess.on('error', (err) => {
-        DeskThing.sendError(`Failed to start audio server: ${err.message}`);
-        this.isServerRunning = false;
-        this.sendServerStatus();
-      });
+  // Switch the backend behind the 'capture' source, resuming capture if it was running
+  private switchCaptureBackend(type: CaptureBackendType) {
+    if (type === this.captureType) return;
 
-      this.isServerRunning = true;
-      this.sendServerStatus();
-      DeskThing.sendLog('Audio server process started');
+    DeskThing.sendLog(`Capture backend: ${type === 'pulse' ? 'PulseAudio/PipeWire' : 'audio server'}`);
+    const wasConnected = this.capture.getIsConnected();
+    this.capture.disconnect();
+    this.audioFormat = null;
+    this.spectrumAnalyzer.reset();
 
-      DeskThing.sendLog(`Waiting ${this.serverStartupDelay}ms for server to initialize...`);
-      await new Promise(resolve => setTimeout(resolve, this.serverStartupDelay));
+    this.captureType = type;
+    this.capture = this.getBackend(type);
+    setCaptureBackend(this.capture);
 
-      return true;
+    if (wasConnected && this.source === 'capture') {
+      this.connect();
+    }
+    this.sendStatus();
+  }
 
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      DeskThing.sendError(`Failed to start audio server: ${errorMsg}`);
-      this.isServerRunning = false;
-      this.sendServerStatus();
-      return false;
+  // The selected playback file, or the first file in the folder if it's gone
+  private resolvePlaybackFile(): string | null {
+    if (this.playbackFile && fsExistsSync(this.playbackFile)) {
+      return this.playbackFile;
     }
+    return listAudioFiles(this.playbackFolder)[0] ?? null;
   }
 
-  // Stop the audio server process
-  public async stopServer(): Promise<void> {
-    if (!this.serverProcess || !this.isServerRunning) {
-      DeskThing.sendWarning('Audio server is not running');
+  private startPlayback() {
+    const file = this.resolvePlaybackFile();
+    if (!file) {
+      DeskThing.sendError(`No WAV, FLAC or MP3 files found in playback folder: ${this.playbackFolder}`);
+      this.sendStatus();
       return;
     }
+    this.filePlayer.play(file, this.playbackLoop);
+  }
 
-    DeskThing.sendLog('Stopping audio server...');
+  // Switch between the capture server and file playback
+  public setAudioSource(source: AudioStreamSource) {
+    if (source === this.source) return;
 
-    try {
-      this.serverProcess.kill('SIGTERM');
-      
-      await new Promise<void>((resolve) => {
-        const timeout = setTimeout(() => {
-          if (this.serverProcess && this.isServerRunning) {
-            DeskThing.sendWarning('Forcing audio server to stop...');
-            this.serverProcess.kill('SIGKILL');
-          }
-          resolve();
-        }, 5012);
+    DeskThing.sendLog(`Audio stream source: ${source === 'file' ? 'file playback' : 'capture server'}`);
+    this.source = source;
+    this.audioFormat = null;
+    this.spectrumAnalyzer.reset();
 
-        this.serverProcess?.once('exit', () => {
-          clearTimeout(timeout);
-          resolve();
-        });
-      });
+    if (source === 'file') {
+      this.capture.disconnect();
+      this.startPlayback();
+    } else {
+      this.filePlayer.stop();
+      this.connect();
+    }
 
-      this.serverProcess = null;
-      this.isServerRunning = false;
-      this.sendServerStatus();
-      DeskThing.sendLog('Audio server stopped');
+    this.sendStatus();
+  }
 
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      DeskThing.sendError(`Error stopping server: ${errorMsg}`);
+  // Start the audio server process, or adopt one that's already running
+  public async startServer(): Promise<boolean> {
+    if (this.captureType !== 'websocket') {
+      DeskThing.sendWarning('The audio server is only used by the Audio Server capture backend');
+      return false;
     }
+
+    return this.serverSupervisor.start();
+  }
+
+  // Stop the audio server process
+  public async stopServer(): Promise<void> {
+    await this.serverSupervisor.stop();
   }
 
   // Restart the audio server
   public async restartServer(): Promise<boolean> {
-    DeskThing.sendLog('Restarting audio server...');
-    await this.stopServer();
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    return await this.startServer();
+    return this.serverSupervisor.restart();
+  }
+
+  // The server came back after a crash: reconnect now instead of waiting out the stream's backoff
+  private handleServerRecovered() {
+    DeskThing.sendLog('Audio server recovered, reconnecting...');
+    triggerDeviceRefresh();
+
+    const state = this.wsClient.getConnectionInfo().state;
+    if (this.source === 'capture' && this.captureType === 'websocket' && (state === 'backoff' || state === 'failed')) {
+      this.wsClient.connect();
+    }
   }
 
   // Connect to the WebSocket server (with optional auto-start)
   public async connect() {
-    // Auto-start server if enabled and not running
-    if (this.autoStartServer && !this.isServerRunning) {
+    if (this.source === 'file') {
+      if (!this.filePlayer.isPlaying()) {
+        this.startPlayback();
+      }
+      return;
+    }
+
+    // Only the capture server backend needs a process of its own; the others list devices right away
+    if (this.captureType !== 'websocket') {
+      triggerDeviceRefresh();
+    } else if (this.autoStartServer && !this.serverSupervisor.isRunning()) {
+      // Auto-start server if enabled and not running
       DeskThing.sendLog('Auto-starting audio server...');
       const started = await this.startServer();
       if (!started) {
@@ -213,51 +269,92 @@ class AudioStreamService {
       triggerDeviceRefresh();
     }
 
-    this.wsClient.connect();
+    this.capture.connect();
   }
 
   // Send current status to client
   private sendStatus() {
     const status = this.getStatus();
-    console.log('Sending status to client:', status);
     DeskThing.send({ 
       type: 'audio_stream_status', 
       payload: status 
     });
   }
 
-  // Send server status to client
-  private sendServerStatus() {
+  // Send the format the client should decode with (after any server-side downsampling)
+  private sendAudioFormat() {
+    const outputFormat = this.transcoder.getOutputFormat();
+    if (!this.audioFormat || !outputFormat) return;
+
     DeskThing.send({ 
-      type: 'server_status', 
-      payload: { 
-        isRunning: this.isServerRunning,
-        executablePath: this.serverExecutablePath
-      } 
+      type: 'audio_format', 
+      payload: outputFormat
     });
   }
 
-  // Disconnect from WebSocket
+  // Run the spectrum timer only while analysing on the server and connected
+  private updateSpectrumTimer() {
+    const shouldRun = this.analysisMode === 'server' && this.isStreaming();
+
+    if (this.spectrumTimer && !shouldRun) {
+      clearInterval(this.spectrumTimer);
+      this.spectrumTimer = null;
+    }
+
+    if (shouldRun && !this.spectrumTimer) {
+      this.spectrumTimer = setInterval(() => {
+        // Skip frames when nothing new has arrived so silence isn't re-sent
+        if (!this.spectrumAnalyzer.hasNewData()) return;
+        DeskThing.send({ 
+          type: 'spectrum', 
+          payload: this.spectrumAnalyzer.analyze()
+        });
+      }, 1000 / this.spectrumRate);
+    }
+  }
+
+  // Agree on a transport version with the client
+  public setTransportVersion(requestedVersion: number) {
+    const previous = this.transcoder.getVersion();
+    this.transcoder.setVersion(requestedVersion);
+
+    if (this.transcoder.getVersion() !== previous) {
+      DeskThing.sendLog(`Audio transport version set to v${this.transcoder.getVersion()}`);
+      // Output format may change when switching in or out of downsampling
+      this.sendAudioFormat();
+    }
+  }
+
+  // Stop capture and playback
   public disconnect() {
-    this.wsClient.disconnect();
+    this.capture.disconnect();
+    this.filePlayer.stop();
     this.audioFormat = null;
+    this.updateSpectrumTimer();
   }
 
   // Get connection status
   public getStatus(): AudioStreamStatus {
+    const connection = this.source === 'capture' ? this.capture.getConnectionInfo() : null;
     return {
-      connected: this.wsClient.getIsConnected(),
-      audioFormat: this.audioFormat || undefined,
-      serverUrl: this.wsClient.getServerUrl()
+      connected: this.isStreaming(),
+      audioFormat: (this.audioFormat && this.transcoder.getOutputFormat()) || undefined,
+      serverUrl: this.capture.getServerUrl(),
+      captureBackend: this.captureType,
+      connectionState: connection?.state,
+      reconnectAttempt: connection?.attempt,
+      retryInMs: connection?.retryInMs,
+      stale: connection?.stale,
+      transportVersion: this.transcoder.getVersion(),
+      analysisMode: this.analysisMode,
+      source: this.source,
+      playbackFile: this.filePlayer.getCurrentFile() ? pathBasename(this.filePlayer.getCurrentFile() as string) : undefined
     };
   }
 
   // Get server status
-  public getServerStatus() {
-    return {
-      isRunning: this.isServerRunning,
-      executablePath: this.serverExecutablePath
-    };
+  public getServerStatus(): ServerStatus {
+    return this.serverSupervisor.getStatus();
   }
 
   // Update settings
@@ -271,11 +368,80 @@ class AudioStreamService {
       const newAutoStartServer = Boolean(settings[FlowThingSettingIDs.AUTO_START_SERVER] ?? true);
       const newBaseUrl = String(settings[FlowThingSettingIDs.BASE_URL] ?? "http://localhost:5012");
       const newWsUrl = String(settings[FlowThingSettingIDs.WS_URL] ?? "ws://localhost:5012");
+      const newDownsample = Number(settings[FlowThingSettingIDs.TRANSPORT_DOWNSAMPLE] ?? 1);
+      const newAnalysisMode: AnalysisMode = settings[FlowThingSettingIDs.ANALYSIS_MODE] === 'server' ? 'server' : 'client';
+      const newSpectrumRate = Math.max(1, Math.min(60, Number(settings[FlowThingSettingIDs.SPECTRUM_RATE] ?? 30)));
+      // Saved settings can still name the old symmetric 'blackman' window
+      const spectrumWindow = settings[FlowThingSettingIDs.SPECTRUM_WINDOW];
+      const newSpectrumWindow: FftWindow = isFftWindow(spectrumWindow) ? spectrumWindow : spectrumWindow === 'blackman' ? 'blackman-harris' : 'hann';
       
-      const urlsChanged = newBaseUrl !== currentSettings[FlowThingSettingIDs.BASE_URL] || 
-                         newWsUrl !== currentSettings[FlowThingSettingIDs.WS_URL];
+      const urlsChanged = newBaseUrl !== this.baseUrl || newWsUrl !== this.wsUrl;
       
       this.autoStartServer = newAutoStartServer;
+      this.baseUrl = newBaseUrl;
+      this.wsUrl = newWsUrl;
+
+      this.switchCaptureBackend(resolveCaptureBackend(String(settings[FlowThingSettingIDs.CAPTURE_BACKEND] ?? 'auto')));
+
+      const { config: serverConfig, problems } = this.buildServerConfig(settings);
+      this.serverSupervisor.configure(serverConfig);
+      // Only the Audio Server backend launches it, so a missing Audio.exe elsewhere is fine
+      this.reportServerConfigProblems(this.captureType === 'websocket' ? problems : []);
+
+      if (newDownsample !== this.transcoder.getDownsampleFactor()) {
+        this.transcoder.setDownsampleFactor(newDownsample);
+        DeskThing.sendLog(`Server-side downsampling set to ${this.transcoder.getDownsampleFactor()}x`);
+        this.sendAudioFormat();
+      }
+
+      this.spectrumAnalyzer.configure({
+        fftSize: Number(settings[FlowThingSettingIDs.SPECTRUM_FFT_SIZE] ?? 2048),
+        binCount: Number(settings[FlowThingSettingIDs.SPECTRUM_BINS] ?? 128),
+        windowFunction: newSpectrumWindow
+      });
+
+      const modeChanged = newAnalysisMode !== this.analysisMode;
+      const rateChanged = newSpectrumRate !== this.spectrumRate;
+      this.analysisMode = newAnalysisMode;
+      this.spectrumRate = newSpectrumRate;
+
+      if (modeChanged || rateChanged) {
+        DeskThing.sendLog(`Analysis mode: ${this.analysisMode}${this.analysisMode === 'server' ? ` at ${this.spectrumRate} fps` : ''}`);
+        // Restart the timer so a new rate takes effect
+        if (this.spectrumTimer) {
+          clearInterval(this.spectrumTimer);
+          this.spectrumTimer = null;
+        }
+        this.spectrumAnalyzer.reset();
+        this.updateSpectrumTimer();
+        this.sendStatus();
+      }
+
+      // Playback file or loop changes restart a running playback
+      const newPlaybackFolder = String(settings[FlowThingSettingIDs.PLAYBACK_FOLDER] ?? "");
+      const newPlaybackFile = String(settings[FlowThingSettingIDs.PLAYBACK_FILE] ?? "");
+      const newPlaybackLoop = Boolean(settings[FlowThingSettingIDs.PLAYBACK_LOOP] ?? true);
+      const playbackChanged = newPlaybackFolder !== this.playbackFolder ||
+                              newPlaybackFile !== this.playbackFile ||
+                              newPlaybackLoop !== this.playbackLoop;
+      this.playbackFolder = newPlaybackFolder;
+      this.playbackFile = newPlaybackFile;
+      this.playbackLoop = newPlaybackLoop;
+
+      // Only follow the audioSource setting when it changes, so a source picked on the client sticks
+      const newSettingsSource = String(settings[FlowThingSettingIDs.AUDIO_SOURCE] ?? "system");
+      if (newSettingsSource !== this.settingsSource) {
+        const firstUpdate = this.settingsSource === null;
+        this.settingsSource = newSettingsSource;
+        if (firstUpdate) {
+          // Startup: connect() picks up the source
+          this.source = newSettingsSource === 'file' ? 'file' : 'capture';
+        } else {
+          this.setAudioSource(newSettingsSource === 'file' ? 'file' : 'capture');
+        }
+      } else if (playbackChanged && this.source === 'file') {
+        this.startPlayback();
+      }
 
       DeskThing.sendLog(`Settings updated - Auto-start: ${this.autoStartServer}, Base URL: ${newBaseUrl}, WS URL: ${newWsUrl}`);
 
@@ -291,15 +457,68 @@ class AudioStreamService {
     }
   }
 
-  // Add method to get the WebSocket client
-  public getWebSocketClient(): WebSocketAudioClient {
-    return this.wsClient;
+  // Audio server launch settings, and what would keep them from working.
+  // {port} in the arguments and environment values becomes the Server Port.
+  private buildServerConfig(settings: Record<string, unknown>): { config: AudioServerConfig, problems: string[] } {
+    const port = String(settings[FlowThingSettingIDs.SERVER_PORT] ?? 5012);
+    const expandPort = (text: string) => text.split('{port}').join(port);
+    const problems: string[] = [];
+
+    let args: string[] = [];
+    try {
+      args = parseArgumentList(String(settings[FlowThingSettingIDs.SERVER_ARGS] ?? "")).map(expandPort);
+    } catch (error) {
+      problems.push(`Server Arguments: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const env: Record<string, string> = {};
+    try {
+      Object.entries(parseEnvironment(String(settings[FlowThingSettingIDs.SERVER_ENV] ?? ""))).forEach(([name, value]) => {
+        env[name] = expandPort(value);
+      });
+    } catch (error) {
+      problems.push(`Server Environment: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const config: AudioServerConfig = {
+      executablePath: String(settings[FlowThingSettingIDs.SERVER_EXECUTABLE] || DEFAULT_SERVER_EXECUTABLE),
+      args,
+      cwd: String(settings[FlowThingSettingIDs.SERVER_WORKING_DIR] ?? ""),
+      env,
+      baseUrl: this.baseUrl
+    };
+    problems.push(...validateServerConfig(config));
+    return { config, problems };
+  }
+
+  // Warn about launch setting problems when they change, and show them in the settings
+  private reportServerConfigProblems(problems: string[]) {
+    const summary = problems.join('; ');
+    if (summary === this.serverConfigProblems) return;
+    this.serverConfigProblems = summary;
+
+    problems.forEach(problem => DeskThing.sendWarning(problem));
+    showServerConfigProblems(problems);
+  }
+
+  // The backend currently behind the 'capture' source
+  public getCaptureBackend(): CaptureBackend {
+    return this.capture;
   }
 }
 
 // Create service instance
 const audioStreamService = new AudioStreamService();
 
+// Visualization presets, kept in the app's saved data so they outlive the client's storage
+const presetStore = new PresetStore({
+  read: async () => (await DeskThing.getData())?.presets,
+  write: (presets) => DeskThing.saveData({ presets })
+}, {
+  onError: (error: string) => DeskThing.sendError(error),
+  onLog: (message: string) => DeskThing.sendLog(message)
+});
+
 // Note: currentSettings is imported from setupSettings.ts and shared
 
 // Handle client requests using the generic "get" handler
@@ -310,6 +529,12 @@ DeskThing.on("get", async (data: any) => {
   const request = data?.payload?.request || data?.request;
   console.log("Request type:", request);
   
+  // Clients announce the highest audio transport version they understand
+  const transportVersion = data?.payload?.transportVersion;
+  if (typeof transportVersion === 'number') {
+    audioStreamService.setTransportVersion(transportVersion);
+  }
+  
   if (request === "status" || !request) {
     // Send status if requested or if no specific request
     console.log("Sending audio stream status");
@@ -319,9 +544,30 @@ DeskThing.on("get", async (data: any) => {
     // Send server status
     const serverStatus = audioStreamService.getServerStatus();
     DeskThing.send({ type: 'server_status', payload: serverStatus });
+  } else if (request === "settings") {
+    // Clients ask for the synced settings when they load
+    sendSettings();
   }
 });
 
+// Handle the client switching audio source
+DeskThing.on("audio_source", async (data: GenericTransitData) => {
+  // Only file playback needs the server to switch; every other client source uses the capture stream
+  const source = data?.payload?.source === 'file' ? 'file' : 'capture';
+  audioStreamService.setAudioSource(source);
+});
+
+// Handle preset list/save/delete requests; every request is answered with the full list
+DeskThing.on("presets", async (data: GenericTransitData) => {
+  await presetStore.handleRequest(data?.payload as PresetRequest | undefined);
+  DeskThing.send({ type: 'presets', payload: presetStore.list() });
+});
+
+// Handle synced settings changed on the client
+DeskThing.on("settings_update", async (data: GenericTransitData) => {
+  handleClientSettings(data?.payload as SettingsUpdate | undefined);
+});
+
 // Handle CONNECT requests
 DeskThing.on("connect", async () => {
   DeskThing.sendLog('Received CONNECT request');
@@ -408,20 +654,28 @@ DeskThing.on('start', async () => {
       
       // Update AudioStreamService with initial settings (to set URLs)
       audioStreamService.updateSettings(currentSettings);
+      
+      // List files for the Audio File source
+      refreshPlaybackFiles();
     } else {
       console.warn('[AudioStream] Settings configuration may have issues');
     }
     
-    // NOW set the WebSocket client reference (but don't fetch devices yet)
-    console.log('[AudioStream] Setting WebSocket client reference...');
-    setWebSocketClient(audioStreamService.getWebSocketClient());
+    await presetStore.load();
+    
+    // NOW set the capture backend reference (but don't fetch devices yet)
+    console.log('[AudioStream] Setting capture backend reference...');
+    setCaptureBackend(audioStreamService.getCaptureBackend());
     
     // Set the AudioStreamService reference for settings updates
     console.log('[AudioStream] Setting AudioStreamService reference...');
     setAudioStreamService(audioStreamService);
     
-    // Auto-connect WebSocket audio stream on start (will auto-start server if enabled)
-    console.log('[AudioStream] Auto-connecting to WebSocket audio stream...');
+    // Settings the host sent while starting up only reached currentSettings; apply them before connecting
+    audioStreamService.updateSettings(currentSettings);
+    
+    // Auto-connect the audio stream on start (will auto-start server if enabled)
+    console.log('[AudioStream] Auto-connecting to audio stream...');
     await audioStreamService.connect();
     
     // Send initial status and settings after a delay to allow device fetch to complete
@@ -440,10 +694,7 @@ DeskThing.on('start', async () => {
       
       // Send initial FlowThing settings to client
       if (Object.keys(currentSettings).length > 0) {
-        DeskThing.send({ 
-          type: 'settings', 
-          payload: currentSettings 
-        });
+        sendSettings();
         console.log('[AudioStream] Initial settings sent to client:', currentSettings);
       }
     }, 2000); // Increased to 2 seconds to give more time for device fetch
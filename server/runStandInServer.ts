@@ -0,0 +1,57 @@
+import { StandInAudioServer, StandInAudioServerOptions } from './StandInAudioServer';
+
+// Development entry point for the stand-in audio server:
+//   npm run stand-in-server -- [--port 5012] [--file path/to/song.wav] [--no-loop]
+
+const parseArgs = (args: string[]): StandInAudioServerOptions => {
+  const options: StandInAudioServerOptions = { port: 5012, loop: true };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--port': {
+        const port = Number(args[++i]);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new Error(`Invalid port: ${args[i]}`);
+        }
+        options.port = port;
+        break;
+      }
+      case '--file':
+        options.file = args[++i];
+        if (!options.file) throw new Error('--file needs a path');
+        break;
+      case '--no-loop':
+        options.loop = false;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${args[i]}`);
+    }
+  }
+
+  return options;
+};
+
+let options: StandInAudioServerOptions;
+try {
+  options = parseArgs(process.argv.slice(2));
+} catch (error) {
+  console.error(`[StandIn] ${error instanceof Error ? error.message : error}`);
+  console.error('Usage: npm run stand-in-server -- [--port <port>] [--file <wav|flac|mp3>] [--no-loop]');
+  process.exit(1);
+}
+
+const server = new StandInAudioServer(options, {
+  onLog: (message: string) => console.log(`[StandIn] ${message}`),
+  onError: (error: string) => console.error(`[StandIn] ${error}`)
+});
+
+server.start().catch(error => {
+  console.error(`[StandIn] Failed to start: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
+
+const shutdown = () => {
+  server.stop().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
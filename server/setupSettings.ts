@@ -1,6 +1,11 @@
 import { DeskThing } from '@deskthing/server';
-import { DESKTHING_EVENTS, SETTING_TYPES } from '@deskthing/types';
-import { WebSocketAudioClient, AudioDevice } from './WebSocketAudioClient.js';
+import { AppSettings, DESKTHING_EVENTS, SETTING_TYPES } from '@deskthing/types';
+import { CaptureBackend, AudioDevice } from './CaptureBackend.js';
+import { listAudioFiles } from './FilePlaybackSource.js';
+import { DEFAULT_SERVER_EXECUTABLE } from './AudioServerSupervisor.js';
+import { SettingsSnapshot, SettingsUpdate } from './types';
+import { basename, join as pathJoin } from 'path';
+import { homedir } from 'os';
 
 // Define setting IDs for consistency
 export const FlowThingSettingIDs = {
@@ -16,7 +21,22 @@ export const FlowThingSettingIDs = {
   STOP_CAPTURE: 'stopCapture',
   BASE_URL: 'baseUrl',
   WS_URL: 'wsUrl',
-  AUTO_START_SERVER: 'autoStartServer'
+  AUTO_START_SERVER: 'autoStartServer',
+  SERVER_PORT: 'serverPort',
+  SERVER_EXECUTABLE: 'serverExecutable',
+  SERVER_ARGS: 'serverArgs',
+  SERVER_WORKING_DIR: 'serverWorkingDir',
+  SERVER_ENV: 'serverEnv',
+  CAPTURE_BACKEND: 'captureBackend',
+  TRANSPORT_DOWNSAMPLE: 'transportDownsample',
+  ANALYSIS_MODE: 'analysisMode',
+  SPECTRUM_FFT_SIZE: 'spectrumFftSize',
+  SPECTRUM_WINDOW: 'spectrumWindow',
+  SPECTRUM_BINS: 'spectrumBins',
+  SPECTRUM_RATE: 'spectrumRate',
+  PLAYBACK_FOLDER: 'playbackFolder',
+  PLAYBACK_FILE: 'playbackFile',
+  PLAYBACK_LOOP: 'playbackLoop'
 } as const;
 
 // Define default settings locally for server-side use
@@ -33,14 +53,54 @@ const defaultSettings = {
   [FlowThingSettingIDs.STOP_CAPTURE]: false,
   [FlowThingSettingIDs.BASE_URL]: "http://localhost:5012",
   [FlowThingSettingIDs.WS_URL]: "ws://localhost:5012",
-  [FlowThingSettingIDs.AUTO_START_SERVER]: true
+  [FlowThingSettingIDs.AUTO_START_SERVER]: true,
+  [FlowThingSettingIDs.SERVER_PORT]: 5012,
+  [FlowThingSettingIDs.SERVER_EXECUTABLE]: DEFAULT_SERVER_EXECUTABLE,
+  [FlowThingSettingIDs.SERVER_ARGS]: "",
+  [FlowThingSettingIDs.SERVER_WORKING_DIR]: "",
+  [FlowThingSettingIDs.SERVER_ENV]: "",
+  [FlowThingSettingIDs.CAPTURE_BACKEND]: "auto",
+  [FlowThingSettingIDs.TRANSPORT_DOWNSAMPLE]: 1,
+  [FlowThingSettingIDs.ANALYSIS_MODE]: "client",
+  [FlowThingSettingIDs.SPECTRUM_FFT_SIZE]: 2048,
+  [FlowThingSettingIDs.SPECTRUM_WINDOW]: "hann",
+  [FlowThingSettingIDs.SPECTRUM_BINS]: 128,
+  [FlowThingSettingIDs.SPECTRUM_RATE]: 30,
+  [FlowThingSettingIDs.PLAYBACK_FOLDER]: pathJoin(homedir(), 'Music'),
+  [FlowThingSettingIDs.PLAYBACK_FILE]: "",
+  [FlowThingSettingIDs.PLAYBACK_LOOP]: true
 };
 
 // Export function to update current settings from outside
 export let currentSettings: Record<string, any> = {};
 
-// Store WebSocket client reference
-let wsClient: WebSocketAudioClient | null = null;
+// Settings shown both on the desktop and on the client; changes on either side reach the other
+export const SYNCED_SETTING_IDS: string[] = [
+  FlowThingSettingIDs.AUDIO_SENSITIVITY,
+  FlowThingSettingIDs.BACKGROUND_COLOR,
+  FlowThingSettingIDs.PRIMARY_COLOR,
+  FlowThingSettingIDs.ANIMATION_SPEED,
+  FlowThingSettingIDs.AUDIO_SOURCE,
+  FlowThingSettingIDs.SHOW_VISUALIZATION_NAME,
+  FlowThingSettingIDs.PERFORMANCE_MODE
+];
+
+// Shape of the values in SettingsSnapshot. Bump together with SETTINGS_VERSION
+// in src/SettingsSchema.ts and add a client migration when a synced setting changes.
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+// Every change from either side bumps the revision. A client update based on
+// an older revision loses any key the desktop changed since.
+let settingsRevision = 0;
+const settingRevisions: Record<string, number> = {};
+// Revisions restart with the app; the session tells clients their revision is from an older run
+const settingsSession = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Definitions passed to initSettings, needed to save a changed value back
+let settingDefinitions: AppSettings = {};
+
+// Store the active capture backend
+let captureBackend: CaptureBackend | null = null;
 
 // Store AudioStreamService reference for settings updates
 let audioStreamService: any = null;
@@ -48,10 +108,12 @@ let audioStreamService: any = null;
 // Store available devices
 let availableDevices: AudioDevice[] = [];
 
-export function setWebSocketClient(client: WebSocketAudioClient) {
-  wsClient = client;
-  // Don't fetch devices immediately - wait for server to be ready
-  console.log('[FlowThing] WebSocket client set, waiting for server to be ready...');
+const SERVER_EXECUTABLE_DESCRIPTION = "Path to the audio server (Audio.exe). Leave empty for the copy in the FlowThing client folder";
+
+export function setCaptureBackend(backend: CaptureBackend) {
+  captureBackend = backend;
+  // Don't fetch devices immediately - the backend may need its server started first
+  console.log('[FlowThing] Capture backend set, waiting for it to be ready...');
 }
 
 // Function to manually trigger device refresh (called when server is ready)
@@ -66,14 +128,14 @@ export function setAudioStreamService(service: any) {
 }
 
 async function refreshDeviceList() {
-  if (!wsClient) {
-    console.warn('[FlowThing] WebSocket client not available, cannot fetch devices');
+  if (!captureBackend) {
+    console.warn('[FlowThing] Capture backend not available, cannot fetch devices');
     return;
   }
 
   try {
     console.log('[FlowThing] Fetching audio devices...');
-    availableDevices = await wsClient.getDevices();
+    availableDevices = await captureBackend.getDevices();
     console.log('[FlowThing] Found devices:', availableDevices);
     
     // Update the audio device setting with new options
@@ -90,8 +152,9 @@ async function refreshDeviceList() {
       // Determine the default device value
       const defaultDeviceId = availableDevices.find(d => d.isDefault)?.deviceId || availableDevices[0].deviceId;
       
-      // Update current settings with the default device if not already set
-      if (!currentSettings[FlowThingSettingIDs.AUDIO_DEVICE]) {
+      // Update current settings with the default device if none is set, or the set one
+      // isn't listed (e.g. it belongs to the other capture backend)
+      if (!availableDevices.some(d => d.deviceId === currentSettings[FlowThingSettingIDs.AUDIO_DEVICE])) {
         currentSettings[FlowThingSettingIDs.AUDIO_DEVICE] = defaultDeviceId;
         
         // Update the setting value as well
@@ -124,9 +187,106 @@ async function refreshDeviceList() {
   }
 }
 
+// Fill the playback file dropdown from the playback folder
+export function refreshPlaybackFiles(folder: string = currentSettings[FlowThingSettingIDs.PLAYBACK_FOLDER]) {
+  try {
+    const files = listAudioFiles(folder);
+    console.log(`[FlowThing] Found ${files.length} playback file(s) in ${folder}`);
+
+    if (files.length === 0) {
+      DeskThing.setSettingOptions(FlowThingSettingIDs.PLAYBACK_FILE, [
+        { label: "No WAV/FLAC/MP3 files in folder", value: "" }
+      ]);
+      return;
+    }
+
+    DeskThing.setSettingOptions(FlowThingSettingIDs.PLAYBACK_FILE, files.map(file => ({
+      label: basename(file),
+      value: file
+    })));
+  } catch (error) {
+    console.error('[FlowThing] Error listing playback files:', error);
+    DeskThing.setSettingOptions(FlowThingSettingIDs.PLAYBACK_FILE, [
+      { label: "Error reading folder", value: "" }
+    ]);
+  }
+}
+
+// Show what keeps the audio server from launching under the Server Executable setting
+export function showServerConfigProblems(problems: string[]) {
+  const id = FlowThingSettingIDs.SERVER_EXECUTABLE;
+  if (!settingDefinitions[id]) return;
+
+  DeskThing.addSettings({
+    [id]: {
+      ...settingDefinitions[id],
+      value: currentSettings[id],
+      description: problems.length > 0 ? `⚠️ ${problems.join('; ')}` : SERVER_EXECUTABLE_DESCRIPTION
+    }
+  } as AppSettings);
+}
+
+// The port a URL points at, or null if it doesn't parse
+function getUrlPort(url: string): number | null {
+  try {
+    const parsed = new URL(url);
+    return Number(parsed.port) || (parsed.protocol === 'https:' || parsed.protocol === 'wss:' ? 443 : 80);
+  } catch {
+    return null;
+  }
+}
+
+// The URL with its port replaced, or null if it doesn't parse
+function withUrlPort(url: string, port: number): string | null {
+  try {
+    const parsed = new URL(url);
+    parsed.port = String(port);
+    const result = parsed.toString();
+    // URL adds a slash to a bare host; keep the URL as it was typed
+    return parsed.pathname === '/' && !url.endsWith('/') ? result.slice(0, -1) : result;
+  } catch {
+    return null;
+  }
+}
+
+// Keep the Server Port and the ports of the Base and WebSocket URLs the same.
+// A changed Server Port wins, then a port typed into the Base URL, then the WebSocket URL.
+function reconcileServerPort(previous: Record<string, unknown>) {
+  const changed = (key: string) => currentSettings[key] !== previous[key];
+  const baseUrl = String(currentSettings[FlowThingSettingIDs.BASE_URL] ?? '');
+  const wsUrl = String(currentSettings[FlowThingSettingIDs.WS_URL] ?? '');
+
+  let port = Number(currentSettings[FlowThingSettingIDs.SERVER_PORT]);
+  if (!changed(FlowThingSettingIDs.SERVER_PORT)) {
+    const source = changed(FlowThingSettingIDs.BASE_URL) ? baseUrl : changed(FlowThingSettingIDs.WS_URL) ? wsUrl : null;
+    port = (source !== null ? getUrlPort(source) : null) ?? port;
+  }
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    console.warn(`[FlowThing] Ignoring invalid server port: ${port}`);
+    return;
+  }
+
+  const values: Record<string, unknown> = {
+    [FlowThingSettingIDs.SERVER_PORT]: port,
+    [FlowThingSettingIDs.BASE_URL]: withUrlPort(baseUrl, port) ?? baseUrl,
+    [FlowThingSettingIDs.WS_URL]: withUrlPort(wsUrl, port) ?? wsUrl
+  };
+  const applied: AppSettings = {};
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === currentSettings[key]) return;
+    currentSettings[key] = value;
+    applied[key] = { ...settingDefinitions[key], value } as AppSettings[string];
+  });
+
+  if (Object.keys(applied).length > 0) {
+    console.log(`[FlowThing] Server port ${port} applied to:`, Object.keys(applied));
+    DeskThing.addSettings(applied);
+  }
+}
+
 async function handleDeviceSelection(deviceId: string) {
-  if (!wsClient) {
-    console.error('[FlowThing] WebSocket client not available');
+  if (!captureBackend) {
+    console.error('[FlowThing] Capture backend not available');
     return;
   }
 
@@ -140,22 +300,19 @@ async function handleDeviceSelection(deviceId: string) {
     console.log('[FlowThing] Selecting device:', deviceId);
     
     // Select the device
-    await wsClient.selectDevice(deviceId);
+    await captureBackend.selectDevice(deviceId);
     console.log('[FlowThing] Device selected successfully');
     
     // Automatically start capture
     console.log('[FlowThing] Starting capture automatically...');
-    await wsClient.startCapture();
+    await captureBackend.startCapture();
     console.log('[FlowThing] Capture started successfully');
     
     // Update current settings
     currentSettings[FlowThingSettingIDs.AUDIO_DEVICE] = deviceId;
     
     // Notify client
-    DeskThing.send({ 
-      type: 'settings', 
-      payload: currentSettings 
-    });
+    sendSettings();
     
     DeskThing.sendLog(`Audio capture started on device: ${availableDevices.find(d => d.deviceId === deviceId)?.name || deviceId}`);
   } catch (error) {
@@ -165,14 +322,14 @@ async function handleDeviceSelection(deviceId: string) {
 }
 
 async function handleStopCapture() {
-  if (!wsClient) {
-    console.error('[FlowThing] WebSocket client not available');
+  if (!captureBackend) {
+    console.error('[FlowThing] Capture backend not available');
     return;
   }
 
   try {
     console.log('[FlowThing] Stopping capture...');
-    await wsClient.stopCapture();
+    await captureBackend.stopCapture();
     console.log('[FlowThing] Capture stopped successfully');
   } catch (error) {
     console.error('[FlowThing] Error stopping capture:', error);
@@ -180,24 +337,100 @@ async function handleStopCapture() {
   }
 }
 
+// Send the current settings to the client
+export function sendSettings(rejected: string[] = []) {
+  const snapshot: SettingsSnapshot = {
+    values: currentSettings,
+    revision: settingsRevision,
+    session: settingsSession,
+    version: SETTINGS_SCHEMA_VERSION,
+    rejected
+  };
+  DeskThing.send({ type: 'settings_sync', payload: snapshot });
+}
+
+// Whether a client value fits the setting: same type as the default, and one of its options if it has any
+function isValidSettingValue(key: string, value: unknown): boolean {
+  const fallback = (defaultSettings as Record<string, unknown>)[key];
+  if (typeof value !== typeof fallback) return false;
+
+  const definition = settingDefinitions[key];
+  const options = definition && 'options' in definition ? definition.options as { value: unknown }[] : undefined;
+  return !options || options.some(option => option.value === value);
+}
+
+// Apply synced settings changed on the client, unless the desktop changed them
+// after the revision the client last saw
+export function handleClientSettings(update: SettingsUpdate | undefined) {
+  if (!update || !update.changes || typeof update.changes !== 'object') {
+    console.warn('[FlowThing] Ignoring malformed settings update from client');
+    return;
+  }
+
+  // A client that last synced with an earlier run can't have seen anything this run changed
+  const baseRevision = update.session === settingsSession && typeof update.revision === 'number' ? update.revision : Infinity;
+  const applied: AppSettings = {};
+  const rejected: string[] = [];
+
+  Object.entries(update.changes).forEach(([key, value]) => {
+    if (!SYNCED_SETTING_IDS.includes(key) || !isValidSettingValue(key, value)) {
+      console.warn(`[FlowThing] Ignoring invalid client setting: ${key} = ${value}`);
+      rejected.push(key);
+      return;
+    }
+    if ((settingRevisions[key] ?? 0) > baseRevision) {
+      console.log(`[FlowThing] Client change to ${key} conflicts with a newer desktop change, keeping ${currentSettings[key]}`);
+      rejected.push(key);
+      return;
+    }
+    if (value === currentSettings[key]) return;
+
+    settingsRevision++;
+    settingRevisions[key] = settingsRevision;
+    currentSettings[key] = value;
+    applied[key] = { ...settingDefinitions[key], value } as AppSettings[string];
+  });
+
+  if (Object.keys(applied).length > 0) {
+    console.log('[FlowThing] Saving client settings:', Object.keys(applied));
+    // Persists them; the settings listener below sees no difference and won't bump revisions again
+    DeskThing.addSettings(applied);
+  }
+
+  // Always answer so the client knows where its changes landed
+  sendSettings(rejected);
+}
+
 export function setupSettings() {
   console.log('[FlowThing] Setting up settings configuration...');
   
   try {
     // Use the same structure as Spotify - object with setting IDs as keys
     const deskThingSettings = {
+      [FlowThingSettingIDs.CAPTURE_BACKEND]: {
+        id: FlowThingSettingIDs.CAPTURE_BACKEND,
+        type: SETTING_TYPES.SELECT,
+        label: "Capture Backend",
+        description: "How system audio is captured. Auto uses the audio server on Windows and PulseAudio/PipeWire (parec) on Linux and macOS",
+        value: defaultSettings[FlowThingSettingIDs.CAPTURE_BACKEND],
+        options: [
+          { label: "Auto", value: "auto" },
+          { label: "Audio Server (Windows)", value: "websocket" },
+          { label: "PulseAudio / PipeWire", value: "pulse" }
+        ]
+      },
       [FlowThingSettingIDs.BASE_URL]: {
         id: FlowThingSettingIDs.BASE_URL,
         type: SETTING_TYPES.STRING,
         label: "Base URL",
-        description: "Base URL for HTTP API requests (will reconnect on change)",
+        description: "Base URL for HTTP API requests (will reconnect on change). A port entered here becomes the Server Port",
         value: defaultSettings[FlowThingSettingIDs.BASE_URL]
       },
       [FlowThingSettingIDs.WS_URL]: {
         id: FlowThingSettingIDs.WS_URL,
         type: SETTING_TYPES.STRING,
         label: "WebSocket URL",
-        description: "WebSocket URL for audio stream connection (will reconnect on change)",
+        description: "WebSocket URL for audio stream connection (will reconnect on change). A port entered here becomes the Server Port",
         value: defaultSettings[FlowThingSettingIDs.WS_URL]
       },
       [FlowThingSettingIDs.AUTO_START_SERVER]: {
@@ -207,6 +440,114 @@ export function setupSettings() {
         description: "Automatically start the C# audio server on app launch",
         value: defaultSettings[FlowThingSettingIDs.AUTO_START_SERVER]
       },
+      [FlowThingSettingIDs.SERVER_PORT]: {
+        id: FlowThingSettingIDs.SERVER_PORT,
+        type: SETTING_TYPES.NUMBER,
+        label: "Server Port",
+        description: "Port the audio server listens on. Base URL and WebSocket URL follow it, and {port} in the server arguments or environment is replaced with it",
+        value: defaultSettings[FlowThingSettingIDs.SERVER_PORT],
+        min: 1,
+        max: 65535
+      },
+      [FlowThingSettingIDs.SERVER_EXECUTABLE]: {
+        id: FlowThingSettingIDs.SERVER_EXECUTABLE,
+        type: SETTING_TYPES.STRING,
+        label: "Server Executable",
+        description: SERVER_EXECUTABLE_DESCRIPTION,
+        value: defaultSettings[FlowThingSettingIDs.SERVER_EXECUTABLE]
+      },
+      [FlowThingSettingIDs.SERVER_ARGS]: {
+        id: FlowThingSettingIDs.SERVER_ARGS,
+        type: SETTING_TYPES.STRING,
+        label: "Server Arguments",
+        description: "Arguments passed to the audio server, separated by spaces. Quote arguments that contain spaces, e.g. --port {port} --device \"Cable Input\"",
+        value: defaultSettings[FlowThingSettingIDs.SERVER_ARGS]
+      },
+      [FlowThingSettingIDs.SERVER_WORKING_DIR]: {
+        id: FlowThingSettingIDs.SERVER_WORKING_DIR,
+        type: SETTING_TYPES.STRING,
+        label: "Server Working Directory",
+        description: "Folder the audio server runs in. Leave empty for the executable's folder",
+        value: defaultSettings[FlowThingSettingIDs.SERVER_WORKING_DIR]
+      },
+      [FlowThingSettingIDs.SERVER_ENV]: {
+        id: FlowThingSettingIDs.SERVER_ENV,
+        type: SETTING_TYPES.STRING,
+        label: "Server Environment",
+        description: "Extra environment variables for the audio server as NAME=value pairs separated by spaces, e.g. SAMPLE_RATE=48000 \"DEVICE=Cable Input\"",
+        value: defaultSettings[FlowThingSettingIDs.SERVER_ENV]
+      },
+      [FlowThingSettingIDs.TRANSPORT_DOWNSAMPLE]: {
+        id: FlowThingSettingIDs.TRANSPORT_DOWNSAMPLE,
+        type: SETTING_TYPES.SELECT,
+        label: "Stream Downsampling",
+        description: "Downsample audio on the server before sending it to the Car Thing (reduces bandwidth and CPU)",
+        value: defaultSettings[FlowThingSettingIDs.TRANSPORT_DOWNSAMPLE],
+        options: [
+          { label: "Off", value: 1 },
+          { label: "2x", value: 2 },
+          { label: "4x", value: 4 }
+        ]
+      },
+      [FlowThingSettingIDs.ANALYSIS_MODE]: {
+        id: FlowThingSettingIDs.ANALYSIS_MODE,
+        type: SETTING_TYPES.SELECT,
+        label: "Analysis Mode",
+        description: "Where to run FFT analysis. Server mode sends only spectrum bins to the Car Thing",
+        value: defaultSettings[FlowThingSettingIDs.ANALYSIS_MODE],
+        options: [
+          { label: "Client (stream raw audio)", value: "client" },
+          { label: "Server (stream spectrum only)", value: "server" }
+        ]
+      },
+      [FlowThingSettingIDs.SPECTRUM_FFT_SIZE]: {
+        id: FlowThingSettingIDs.SPECTRUM_FFT_SIZE,
+        type: SETTING_TYPES.SELECT,
+        label: "Server FFT Size",
+        description: "FFT size used in server analysis mode (larger = better bass resolution)",
+        value: defaultSettings[FlowThingSettingIDs.SPECTRUM_FFT_SIZE],
+        options: [
+          { label: "1024", value: 1024 },
+          { label: "2048", value: 2048 },
+          { label: "4096", value: 4096 },
+          { label: "8192", value: 8192 }
+        ]
+      },
+      [FlowThingSettingIDs.SPECTRUM_WINDOW]: {
+        id: FlowThingSettingIDs.SPECTRUM_WINDOW,
+        type: SETTING_TYPES.SELECT,
+        label: "Server FFT Window",
+        description: "Window function used in server analysis mode",
+        value: defaultSettings[FlowThingSettingIDs.SPECTRUM_WINDOW],
+        options: [
+          { label: "Hann", value: "hann" },
+          { label: "Hamming", value: "hamming" },
+          { label: "Blackman-Harris", value: "blackman-harris" },
+          { label: "Flat-top", value: "flat-top" }
+        ]
+      },
+      [FlowThingSettingIDs.SPECTRUM_BINS]: {
+        id: FlowThingSettingIDs.SPECTRUM_BINS,
+        type: SETTING_TYPES.SELECT,
+        label: "Spectrum Bins",
+        description: "Number of log-spaced bins sent in server analysis mode",
+        value: defaultSettings[FlowThingSettingIDs.SPECTRUM_BINS],
+        options: [
+          { label: "64", value: 64 },
+          { label: "128", value: 128 },
+          { label: "256", value: 256 }
+        ]
+      },
+      [FlowThingSettingIDs.SPECTRUM_RATE]: {
+        id: FlowThingSettingIDs.SPECTRUM_RATE,
+        type: SETTING_TYPES.RANGE,
+        label: "Spectrum Rate",
+        description: "Spectrum frames per second sent in server analysis mode",
+        value: defaultSettings[FlowThingSettingIDs.SPECTRUM_RATE],
+        min: 10,
+        max: 60,
+        step: 5
+      },
       [FlowThingSettingIDs.AUDIO_SENSITIVITY]: {
         id: FlowThingSettingIDs.AUDIO_SENSITIVITY,
         type: SETTING_TYPES.RANGE,
@@ -250,9 +591,34 @@ export function setupSettings() {
         options: [
           { label: "🔊 System Audio", value: "system" },
           { label: "🎤 Microphone", value: "microphone" },
+          { label: "📁 Audio File", value: "file" },
           { label: "🎲 Demo Mode", value: "mock" }
         ]
       },
+      [FlowThingSettingIDs.PLAYBACK_FOLDER]: {
+        id: FlowThingSettingIDs.PLAYBACK_FOLDER,
+        type: SETTING_TYPES.STRING,
+        label: "Playback Folder",
+        description: "Folder on this computer with WAV, FLAC or MP3 files for the Audio File source (FLAC/MP3 need ffmpeg)",
+        value: defaultSettings[FlowThingSettingIDs.PLAYBACK_FOLDER]
+      },
+      [FlowThingSettingIDs.PLAYBACK_FILE]: {
+        id: FlowThingSettingIDs.PLAYBACK_FILE,
+        type: SETTING_TYPES.SELECT,
+        label: "Playback File",
+        description: "File played by the Audio File source",
+        value: defaultSettings[FlowThingSettingIDs.PLAYBACK_FILE],
+        options: [
+          { label: "Loading files...", value: "" }
+        ]
+      },
+      [FlowThingSettingIDs.PLAYBACK_LOOP]: {
+        id: FlowThingSettingIDs.PLAYBACK_LOOP,
+        type: SETTING_TYPES.BOOLEAN,
+        label: "Loop Playback",
+        description: "Restart the file when it ends",
+        value: defaultSettings[FlowThingSettingIDs.PLAYBACK_LOOP]
+      },
       [FlowThingSettingIDs.AUDIO_DEVICE]: {
         id: FlowThingSettingIDs.AUDIO_DEVICE,
         type: SETTING_TYPES.SELECT,
@@ -301,6 +667,8 @@ export function setupSettings() {
       }
     };
 
+    settingDefinitions = deskThingSettings as unknown as AppSettings;
+
     // Initialize settings with DeskThing using the correct structure
     const result = DeskThing.initSettings(deskThingSettings as any);
     console.log('[FlowThing] Settings initialized successfully:', result);
@@ -314,6 +682,8 @@ export function setupSettings() {
       
       console.log('[FlowThing] Received settings update from DeskThing:', settings);
       
+      const previousSettings = { ...currentSettings };
+      
       // Track if URL settings changed
       let urlsChanged = false;
       let baseUrlValue = currentSettings[FlowThingSettingIDs.BASE_URL];
@@ -324,6 +694,12 @@ export function setupSettings() {
         if (setting && setting.value !== undefined) {
           console.log(`[FlowThing] Setting updated: ${key} = ${setting.value}`);
           
+          // Desktop changes to synced settings win over client changes based on an older revision
+          if (SYNCED_SETTING_IDS.includes(key) && setting.value !== currentSettings[key]) {
+            settingsRevision++;
+            settingRevisions[key] = settingsRevision;
+          }
+          
           // Handle special cases
           if (key === FlowThingSettingIDs.BASE_URL && setting.value !== currentSettings[key]) {
             baseUrlValue = setting.value;
@@ -334,6 +710,9 @@ export function setupSettings() {
           } else if (key === FlowThingSettingIDs.AUDIO_DEVICE && setting.value !== currentSettings[key]) {
             // Device selection changed
             handleDeviceSelection(setting.value);
+          } else if (key === FlowThingSettingIDs.PLAYBACK_FOLDER && setting.value !== currentSettings[key]) {
+            // Playback folder changed, list its files
+            refreshPlaybackFiles(setting.value);
           } else if (key === FlowThingSettingIDs.STOP_CAPTURE && setting.value === true) {
             // Stop capture button pressed
             handleStopCapture();
@@ -345,16 +724,15 @@ export function setupSettings() {
         }
       });
       
+      reconcileServerPort(previousSettings);
+      
       // If URLs changed or server settings changed, notify AudioStreamService
       if (audioStreamService) {
         audioStreamService.updateSettings(currentSettings);
       }
       
       // Forward updated settings to client
-      DeskThing.send({ 
-        type: 'settings', 
-        payload: currentSettings 
-      });
+      sendSettings();
       
       console.log('[FlowThing] Settings forwarded to client:', currentSettings);
     });
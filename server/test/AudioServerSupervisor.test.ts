@@ -0,0 +1,135 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join as pathJoin } from 'path';
+import { AudioServerConfig, AudioServerSupervisor, AudioServerSupervisorTimings } from '../AudioServerSupervisor';
+import { AudioServerState, ServerStatus } from '../types';
+import { recordingCallbacks, startStandIn, waitFor } from './helpers';
+
+const FAST: Partial<AudioServerSupervisorTimings> = {
+  startupTimeoutMs: 1000,
+  readyPollMs: 20,
+  stopTimeoutMs: 500,
+  restart: { initialDelayMs: 20, maxDelayMs: 50, maxAttempts: 3, jitter: 0 }
+};
+
+// A supervisor that records every status it reports
+const createSupervisor = (config: Partial<AudioServerConfig>) => {
+  const callbacks = recordingCallbacks();
+  const statuses: ServerStatus[] = [];
+  const readyAfterCrash: boolean[] = [];
+  const supervisor = new AudioServerSupervisor({
+    executablePath: pathJoin(tmpdir(), 'flowthing-no-such-server'),
+    args: [],
+    cwd: '',
+    env: {},
+    baseUrl: 'http://localhost:5012',
+    ...config
+  }, {
+    ...callbacks,
+    onStatusChange: (status) => statuses.push(status),
+    onReady: (afterCrash) => readyAfterCrash.push(afterCrash)
+  }, FAST);
+
+  return {
+    supervisor,
+    callbacks,
+    statuses,
+    readyAfterCrash,
+    states: () => statuses.map(status => status.state).filter((state, i, all) => i === 0 || state !== all[i - 1])
+  };
+};
+
+// A port nothing listens on right now
+const freePort = async (): Promise<number> => {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  return port;
+};
+
+describe('AudioServerSupervisor', () => {
+  const cleanup: (() => Promise<void> | void)[] = [];
+
+  afterEach(async () => {
+    for (const step of cleanup.splice(0).reverse()) {
+      await step();
+    }
+  });
+
+  it('adopts a capture server that is already running', async () => {
+    const standIn = await startStandIn();
+    cleanup.push(() => standIn.server.stop());
+    const { supervisor, states, readyAfterCrash } = createSupervisor({ baseUrl: standIn.baseUrl });
+
+    assert.equal(await supervisor.start(), true);
+    const status = supervisor.getStatus();
+    assert.equal(status.adopted, true);
+    assert.equal(status.state, 'ready');
+    assert.equal(status.pid, undefined);
+    assert.deepEqual(states(), ['starting', 'ready']);
+    assert.deepEqual(readyAfterCrash, [false]);
+
+    // Stopping leaves the adopted server running
+    await supervisor.stop();
+    assert.equal(supervisor.getStatus().state, 'stopped');
+    assert.equal((await fetch(`${standIn.baseUrl}/api/capture/status`)).status, 200);
+  });
+
+  it('reports a port held by something other than the capture server', async () => {
+    // Bound to the IPv4 loopback only, while the supervisor is configured with localhost
+    const other: Server = createServer((_req, res) => {
+      res.statusCode = 404;
+      res.end();
+    });
+    await new Promise<void>(resolve => other.listen(0, '127.0.0.1', () => resolve()));
+    cleanup.push(() => new Promise<void>(resolve => other.close(() => resolve())));
+    const { port } = other.address() as AddressInfo;
+
+    const { supervisor, callbacks } = createSupervisor({ baseUrl: `http://localhost:${port}` });
+    assert.equal(await supervisor.start(), false);
+
+    const status = supervisor.getStatus();
+    assert.equal(status.state, 'failed');
+    assert.match(status.error ?? '', new RegExp(`Port ${port} is in use`));
+    assert.equal(callbacks.errors.length, 1);
+  });
+
+  it('fails without launching when the executable is missing', async () => {
+    const { supervisor } = createSupervisor({ baseUrl: `http://localhost:${await freePort()}` });
+    assert.equal(await supervisor.start(), false);
+    assert.match(supervisor.getStatus().error ?? '', /Server executable not found/);
+  });
+
+  it('restarts a crashing server and gives up after the limit', { skip: process.platform === 'win32' }, async () => {
+    const dir = mkdtempSync(pathJoin(tmpdir(), 'flowthing-test-'));
+    cleanup.push(() => rmSync(dir, { recursive: true, force: true }));
+    const executablePath = pathJoin(dir, 'crashing-server.sh');
+    writeFileSync(executablePath, '#!/bin/sh\necho "crashing" >&2\nexit 3\n');
+    chmodSync(executablePath, 0o755);
+
+    const { supervisor, callbacks, states, statuses } = createSupervisor({ executablePath, baseUrl: `http://localhost:${await freePort()}` });
+    cleanup.push(() => supervisor.stop());
+
+    assert.equal(await supervisor.start(), false);
+    await waitFor(() => supervisor.getStatus().state === 'failed', 5000, 'giving up');
+
+    const expected: AudioServerState[] = ['starting', 'crashed'];
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expected.push('restarting', 'crashed');
+    }
+    expected.push('failed');
+    assert.deepEqual(states(), expected);
+
+    const final = supervisor.getStatus();
+    assert.equal(final.restartCount, 3);
+    assert.equal(final.isRunning, false);
+    assert.match(final.error ?? '', /crashed 3 times in a row/);
+    assert.ok(statuses.some(status => status.error === 'Audio server exited with code 3'));
+    assert.equal(callbacks.errors.filter(error => error.includes('crashed 3 times')).length, 1);
+  });
+});
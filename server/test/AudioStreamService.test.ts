@@ -0,0 +1,91 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AudioFormatData, AudioStreamStatus, ServerStatus } from '../types';
+import { DeskThingHost, startStandIn, waitFor } from './helpers';
+
+// Settings as the DeskThing host stores them, pointing the app at the stand-in
+const hostSettings = (port: number) => ({
+  captureBackend: {
+    type: 'select',
+    label: 'Capture Backend',
+    value: 'websocket',
+    options: [{ label: 'Auto', value: 'auto' }, { label: 'Audio Server (Windows)', value: 'websocket' }, { label: 'PulseAudio / PipeWire', value: 'pulse' }]
+  },
+  baseUrl: { type: 'string', label: 'Base URL', value: `http://localhost:${port}` },
+  wsUrl: { type: 'string', label: 'WebSocket URL', value: `ws://localhost:${port}` },
+  serverPort: { type: 'number', label: 'Server Port', value: port, min: 1, max: 65535 }
+});
+
+describe('AudioStreamService', () => {
+  let standIn: Awaited<ReturnType<typeof startStandIn>>;
+  let host: DeskThingHost;
+
+  const statuses = () => host.ofType('audio_stream_status').map(message => message.payload as AudioStreamStatus);
+
+  before(async () => {
+    standIn = await startStandIn();
+    host = new DeskThingHost(hostSettings(standIn.port));
+    await host.start();
+  });
+
+  after(async () => {
+    await host.stop();
+    await standIn.server.stop();
+  });
+
+  it('adopts the running stand-in instead of launching Audio.exe', async () => {
+    await waitFor(() => host.ofType('server_status').some(message => (message.payload as ServerStatus).state === 'ready'), 10000, 'server ready');
+    const ready = host.ofType('server_status').map(message => message.payload as ServerStatus).find(status => status.state === 'ready');
+    assert.equal(ready?.adopted, true);
+  });
+
+  it('reports the connected capture stream to the client', async () => {
+    await waitFor(() => statuses().some(status => status.connectionState === 'connected'), 10000, 'connected status');
+    const connected = statuses().find(status => status.connectionState === 'connected') as AudioStreamStatus;
+    assert.equal(connected.captureBackend, 'websocket');
+    assert.equal(connected.serverUrl, `${standIn.wsUrl}/ws/audio`);
+    assert.equal(connected.source, 'capture');
+
+    // It went through 'connecting' first
+    const states = statuses().map(status => status.connectionState);
+    assert.ok(states.indexOf('connecting') < states.indexOf('connected'));
+  });
+
+  it('forwards the audio format and audio data', async () => {
+    await waitFor(() => host.ofType('audio_format').length > 0 && host.ofType('audio_data').length > 2, 5000, 'format and audio');
+    const format = host.ofType('audio_format')[0].payload as AudioFormatData;
+    assert.equal(format.sampleRate, 48000);
+    assert.equal(format.channels, 2);
+    assert.equal(format.bitsPerSample, 32);
+  });
+
+  it('answers status requests from the client', async () => {
+    const before = host.ofType('audio_stream_status').length;
+    host.sendFromClient({ type: 'get', payload: { request: 'status' } });
+    await waitFor(() => host.ofType('audio_stream_status').length > before, 2000, 'status reply');
+
+    const status = statuses()[statuses().length - 1];
+    assert.equal(status.connected, true);
+    assert.equal(status.audioFormat?.sampleRate, 48000);
+  });
+
+  it('reports backoff while the capture server is gone and reconnects when it returns', async () => {
+    const { port } = standIn;
+    const seen = statuses().length;
+    await standIn.server.stop();
+
+    await waitFor(() => statuses().slice(seen).some(status => status.connectionState === 'backoff'), 5000, 'backoff status');
+    const backoff = statuses().slice(seen).find(status => status.connectionState === 'backoff') as AudioStreamStatus;
+    assert.equal(backoff.connected, false);
+    assert.equal(backoff.reconnectAttempt, 1);
+    // First retry after 1 second, less up to half of it as jitter
+    assert.ok(backoff.retryInMs !== undefined && backoff.retryInMs >= 500 && backoff.retryInMs <= 1000);
+
+    standIn = await startStandIn(port);
+    await waitFor(() => statuses().slice(seen).some(status => status.connectionState === 'connected'), 10000, 'reconnected status');
+    const states = statuses().slice(seen).map(status => status.connectionState);
+    assert.deepEqual(states.slice(0, 2), ['backoff', 'connecting']);
+    assert.equal(states[states.length - 1], 'connected');
+    assert.equal(statuses()[statuses().length - 1].reconnectAttempt, 0);
+  });
+});
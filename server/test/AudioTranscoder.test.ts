@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AudioTranscoder } from '../AudioTranscoder';
+import { AudioFormatData } from '../types';
+
+const decodeWith = (format: Partial<AudioFormatData>, buffer: Buffer): Float32Array | null => {
+  const transcoder = new AudioTranscoder();
+  transcoder.setInputFormat({ sampleRate: 48000, channels: 1, bitsPerSample: 32, encoding: '', ...format });
+  return transcoder.decode(buffer);
+};
+
+describe('AudioTranscoder', () => {
+  it('decodes NAudio encoding names', () => {
+    const float = Buffer.alloc(4);
+    float.writeFloatLE(0.5);
+    assert.deepEqual(Array.from(decodeWith({ encoding: 'IeeeFloat' }, float) ?? []), [0.5]);
+
+    const pcm = Buffer.alloc(2);
+    pcm.writeInt16LE(-16384);
+    assert.deepEqual(Array.from(decodeWith({ encoding: 'Pcm', bitsPerSample: 16 }, pcm) ?? []), [-0.5]);
+  });
+
+  it('decodes the ffmpeg-style names the client accepts', () => {
+    const f32le = Buffer.alloc(4);
+    f32le.writeFloatLE(0.25);
+    assert.deepEqual(Array.from(decodeWith({ encoding: 'f32le' }, f32le) ?? []), [0.25]);
+
+    const s16be = Buffer.alloc(2);
+    s16be.writeInt16BE(16384);
+    assert.deepEqual(Array.from(decodeWith({ encoding: 's16be', bitsPerSample: 16 }, s16be) ?? []), [0.5]);
+
+    const f64le = Buffer.alloc(8);
+    f64le.writeDoubleLE(-0.75);
+    assert.deepEqual(Array.from(decodeWith({ encoding: 'pcm_f64le', bitsPerSample: 64 }, f64le) ?? []), [-0.75]);
+  });
+
+  it('lets an explicit endianness override the encoding name', () => {
+    const buffer = Buffer.alloc(2);
+    buffer.writeInt16LE(16384);
+    assert.deepEqual(Array.from(decodeWith({ encoding: 's16be', bitsPerSample: 16, endianness: 'little' }, buffer) ?? []), [0.5]);
+  });
+
+  it('does not decode an unknown encoding', () => {
+    assert.equal(decodeWith({ encoding: 'mp3' }, Buffer.alloc(4)), null);
+  });
+});
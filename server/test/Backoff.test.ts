@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Backoff } from '../Backoff';
+
+describe('Backoff', () => {
+  const options = { initialDelayMs: 1000, maxDelayMs: 30000, maxAttempts: 10, jitter: 0.5 };
+
+  it('doubles the delay up to the cap', (t) => {
+    t.mock.method(Math, 'random', () => 0);
+    const backoff = new Backoff(options);
+    const delays = Array.from({ length: 10 }, () => backoff.next());
+    assert.deepEqual(delays, [1000, 2000, 4000, 8000, 16000, 30000, 30000, 30000, 30000, 30000]);
+  });
+
+  it('cuts up to the jitter fraction off each delay', (t) => {
+    t.mock.method(Math, 'random', () => 1);
+    const backoff = new Backoff(options);
+    assert.equal(backoff.next(), 500);
+    assert.equal(backoff.next(), 1000);
+
+    t.mock.method(Math, 'random', () => 0.5);
+    assert.equal(backoff.next(), 3000);
+  });
+
+  it('gives up after the last attempt and starts over on reset', (t) => {
+    t.mock.method(Math, 'random', () => 0);
+    const backoff = new Backoff({ ...options, maxAttempts: 2 });
+    assert.equal(backoff.next(), 1000);
+    assert.equal(backoff.next(), 2000);
+    assert.equal(backoff.next(), null);
+    assert.equal(backoff.getAttempts(), 2);
+
+    backoff.reset();
+    assert.equal(backoff.getAttempts(), 0);
+    assert.equal(backoff.next(), 1000);
+  });
+});
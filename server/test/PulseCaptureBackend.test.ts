@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFrameAssembler, parsePulseSources } from '../PulseCaptureBackend';
+
+// Trimmed `LC_ALL=C pactl info` and `pactl list sources` output
+const INFO = `Server String: /run/user/1000/pulse/native
+Server Name: PulseAudio (on PipeWire 1.0.5)
+Default Sink: alsa_output.pci-0000_00_1f.3.analog-stereo
+Default Source: alsa_input.pci-0000_00_1f.3.analog-stereo
+`;
+
+const SOURCES = `Source #48
+	State: SUSPENDED
+	Name: alsa_input.pci-0000_00_1f.3.analog-stereo
+	Description: Built-in Audio Analog Stereo
+	Driver: PipeWire
+	Properties:
+		device.description = "Built-in Audio"
+
+Source #49
+	State: RUNNING
+	Name: alsa_output.pci-0000_00_1f.3.analog-stereo.monitor
+	Description: Monitor of Built-in Audio Analog Stereo
+	Driver: PipeWire
+
+Source #50
+	State: IDLE
+	Name: alsa_output.usb-headset.analog-stereo.monitor
+	Description: Monitor of USB Headset
+	Driver: PipeWire
+`;
+
+describe('parsePulseSources', () => {
+  it('lists output monitors first with the default output monitor as default', () => {
+    const devices = parsePulseSources(SOURCES, INFO, 'linux');
+    assert.deepEqual(devices.map(device => device.deviceId), [
+      'alsa_output.pci-0000_00_1f.3.analog-stereo.monitor',
+      'alsa_output.usb-headset.analog-stereo.monitor',
+      'alsa_input.pci-0000_00_1f.3.analog-stereo'
+    ]);
+    assert.deepEqual(devices[0], {
+      deviceId: 'alsa_output.pci-0000_00_1f.3.analog-stereo.monitor',
+      name: 'Monitor of Built-in Audio Analog Stereo',
+      isDefault: true,
+      state: 'running'
+    });
+    assert.equal(devices.filter(device => device.isDefault).length, 1);
+  });
+
+  it('does not take a sink whose name only starts the same for the default monitor', () => {
+    const info = INFO.replace('Default Sink: alsa_output.pci-0000_00_1f.3.analog-stereo', 'Default Sink: alsa_output.pci-0000_00_1f.3');
+    assert.equal(parsePulseSources(SOURCES, info, 'linux').some(device => device.isDefault), false);
+  });
+
+  it('uses the default input on macOS', () => {
+    const defaults = parsePulseSources(SOURCES, INFO, 'darwin').filter(device => device.isDefault);
+    assert.deepEqual(defaults.map(device => device.deviceId), ['alsa_input.pci-0000_00_1f.3.analog-stereo']);
+  });
+
+  it('ignores text before the first source and blocks without a name', () => {
+    const devices = parsePulseSources(`Failed to get source info\nSource #1\n\tState: IDLE\n${SOURCES}`, '', 'linux');
+    assert.equal(devices.length, 3);
+    assert.equal(devices.some(device => device.isDefault), false);
+  });
+});
+
+describe('createFrameAssembler', () => {
+  it('hands on whole frames and carries partial ones over', () => {
+    const assemble = createFrameAssembler(8);
+    const input = Buffer.from(Array.from({ length: 24 }, (_, i) => i));
+
+    assert.equal(assemble(input.subarray(0, 5)), null);
+    assert.deepEqual(assemble(input.subarray(5, 13)), input.subarray(0, 8));
+    assert.deepEqual(assemble(input.subarray(13, 24)), input.subarray(8, 24));
+  });
+
+  it('passes aligned chunks through unchanged', () => {
+    const assemble = createFrameAssembler(8);
+    const chunk = Buffer.alloc(32, 1);
+    assert.deepEqual(assemble(chunk), chunk);
+    assert.deepEqual(assemble(chunk), chunk);
+  });
+});
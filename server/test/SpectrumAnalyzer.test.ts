@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpectrumAnalyzer } from '../SpectrumAnalyzer';
+
+// Interleaved stereo sine at the given frequency
+const sine = (frequency: number, sampleRate: number, frames: number): Float32Array => {
+  const samples = new Float32Array(frames * 2);
+  for (let i = 0; i < frames; i++) {
+    samples[i * 2] = samples[i * 2 + 1] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+};
+
+describe('SpectrumAnalyzer', () => {
+  it('describes its bins in the spectrum payload', () => {
+    const analyzer = new SpectrumAnalyzer({ minFrequency: 40, floorDb: -90 });
+    const spectrum = analyzer.analyze();
+    assert.equal(spectrum.minFrequency, 40);
+    assert.equal(spectrum.rangeDb, 90);
+    assert.equal(spectrum.bins.length, 128);
+  });
+
+  it('puts a tone in the log-spaced bin that covers it', () => {
+    const analyzer = new SpectrumAnalyzer({ fftSize: 4096, binCount: 64, windowFunction: 'blackman-harris' });
+    analyzer.setSampleRate(48000);
+    analyzer.push(sine(1000, 48000, 4096), 2);
+    const spectrum = analyzer.analyze();
+
+    const nyquist = spectrum.sampleRate / 2;
+    const expected = Math.floor(spectrum.bins.length * Math.log(1000 / spectrum.minFrequency) / Math.log(nyquist / spectrum.minFrequency));
+    const loudest = spectrum.bins.indexOf(Math.max(...spectrum.bins));
+    assert.equal(loudest, expected);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import WebSocket from 'ws';
+import { STAND_IN_DEVICES } from '../StandInAudioServer';
+import { WebSocketAudioClient } from '../WebSocketAudioClient';
+import { AudioFormatData } from '../types';
+import { recordingCallbacks, startStandIn, waitFor, wait } from './helpers';
+
+describe('StandInAudioServer', () => {
+  let standIn: Awaited<ReturnType<typeof startStandIn>>;
+
+  before(async () => {
+    standIn = await startStandIn();
+  });
+
+  after(async () => {
+    await standIn.server.stop();
+  });
+
+  const post = (path: string, body?: unknown) => fetch(`${standIn.baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+
+  it('binds a free port when asked for port 0', () => {
+    assert.ok(standIn.port > 0);
+  });
+
+  it('sends the audio format first, then binary frames', async () => {
+    const ws = new WebSocket(`${standIn.wsUrl}/ws/audio`);
+    const frames: { data: Buffer; isBinary: boolean }[] = [];
+    ws.on('message', (data: Buffer, isBinary: boolean) => frames.push({ data, isBinary }));
+
+    try {
+      await waitFor(() => frames.length >= 3, 2000, 'audio frames');
+
+      assert.equal(frames[0].isBinary, false);
+      const format = JSON.parse(frames[0].data.toString()) as AudioFormatData;
+      assert.deepEqual(format, { sampleRate: 48000, bitsPerSample: 32, channels: 2, encoding: 'IeeeFloat' });
+
+      frames.slice(1).forEach(frame => {
+        assert.equal(frame.isBinary, true);
+        // Whole stereo float32 frames
+        assert.equal(frame.data.length % 8, 0);
+      });
+    } finally {
+      ws.close();
+    }
+  });
+
+  it('lists the devices', async () => {
+    const response = await fetch(`${standIn.baseUrl}/api/devices`);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), STAND_IN_DEVICES);
+  });
+
+  it('selects a known device and rejects an unknown one', async () => {
+    const selected = await post('/api/devices/select', { deviceId: 'stand-in-headphones' });
+    assert.equal(selected.status, 200);
+
+    const status = await (await fetch(`${standIn.baseUrl}/api/capture/status`)).json();
+    assert.equal(status.selectedDeviceId, 'stand-in-headphones');
+    assert.equal(status.selectedDeviceName, 'Headphones (Stand-in)');
+
+    const unknown = await post('/api/devices/select', { deviceId: 'no-such-device' });
+    assert.equal(unknown.status, 404);
+
+    const invalid = await fetch(`${standIn.baseUrl}/api/devices/select`, { method: 'POST', body: '{' });
+    assert.equal(invalid.status, 400);
+  });
+
+  it('stops and starts capture', async () => {
+    const ws = new WebSocket(`${standIn.wsUrl}/ws/audio`);
+    let binaryFrames = 0;
+    ws.on('message', (_data: Buffer, isBinary: boolean) => {
+      if (isBinary) binaryFrames++;
+    });
+
+    try {
+      await waitFor(() => binaryFrames > 0, 2000, 'audio before stopping');
+
+      assert.equal((await post('/api/capture/stop')).status, 200);
+      assert.equal((await (await fetch(`${standIn.baseUrl}/api/capture/status`)).json()).isCapturing, false);
+      await wait(50);
+      const framesWhenStopped = binaryFrames;
+      await wait(150);
+      assert.equal(binaryFrames, framesWhenStopped);
+
+      assert.equal((await post('/api/capture/start')).status, 200);
+      assert.equal((await (await fetch(`${standIn.baseUrl}/api/capture/status`)).json()).isCapturing, true);
+      await waitFor(() => binaryFrames > framesWhenStopped, 2000, 'audio after starting');
+    } finally {
+      ws.close();
+    }
+  });
+
+  it('answers unknown routes with 404', async () => {
+    assert.equal((await fetch(`${standIn.baseUrl}/api/nothing`)).status, 404);
+  });
+
+  it('serves WebSocketAudioClient end to end', async () => {
+    const callbacks = recordingCallbacks();
+    const formats: AudioFormatData[] = [];
+    let bytes = 0;
+    const client = new WebSocketAudioClient({
+      ...callbacks,
+      onConnected: () => {},
+      onDisconnected: () => {},
+      onStateChange: () => {},
+      onAudioFormat: (format) => formats.push(format),
+      onAudioData: (buffer) => { bytes += buffer.length; }
+    }, standIn.baseUrl, standIn.wsUrl);
+
+    try {
+      const devices = await client.getDevices();
+      assert.equal(devices.length, 3);
+      assert.equal(devices.find(device => device.isDefault)?.deviceId, 'stand-in-speakers');
+
+      await client.selectDevice('stand-in-microphone');
+      await assert.rejects(client.selectDevice('no-such-device'));
+      assert.deepEqual(await client.getCaptureStatus(), {
+        isCapturing: true,
+        selectedDeviceId: 'stand-in-microphone',
+        selectedDeviceName: 'Microphone (Stand-in)'
+      });
+
+      client.connect();
+      await waitFor(() => client.getIsConnected() && bytes > 0, 2000, 'audio through the client');
+      assert.equal(formats[0].sampleRate, 48000);
+      assert.equal(formats[0].channels, 2);
+    } finally {
+      client.disconnect();
+    }
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { type AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { WebSocketAudioClient, WebSocketAudioClientTimings } from '../WebSocketAudioClient';
+import { CaptureConnectionInfo } from '../CaptureBackend';
+import { recordingCallbacks, startStandIn, waitFor, wait } from './helpers';
+
+// Short timings so a full backoff series runs in well under a second
+const FAST: WebSocketAudioClientTimings = {
+  reconnect: { initialDelayMs: 40, maxDelayMs: 100, maxAttempts: 3, jitter: 0 },
+  heartbeatIntervalMs: 1000,
+  staleStreamMs: 5000,
+  urlChangeReconnectMs: 50
+};
+
+// A client that records its connection info on every state change
+const createClient = (baseUrl: string, wsUrl: string, timings: WebSocketAudioClientTimings = FAST) => {
+  const callbacks = recordingCallbacks();
+  const changes: CaptureConnectionInfo[] = [];
+  let bytes = 0;
+  const client: WebSocketAudioClient = new WebSocketAudioClient({
+    ...callbacks,
+    onConnected: () => {},
+    onDisconnected: () => {},
+    onStateChange: () => changes.push(client.getConnectionInfo()),
+    onAudioFormat: () => {},
+    onAudioData: (buffer) => { bytes += buffer.length; }
+  }, baseUrl, wsUrl, timings);
+
+  return {
+    client,
+    callbacks,
+    changes,
+    getBytes: () => bytes,
+    states: () => changes.map(change => change.state).filter((state, i, all) => i === 0 || state !== all[i - 1])
+  };
+};
+
+describe('WebSocketAudioClient reconnects', () => {
+  const cleanup: (() => Promise<void> | void)[] = [];
+
+  afterEach(async () => {
+    for (const step of cleanup.splice(0).reverse()) {
+      await step();
+    }
+  });
+
+  it('goes idle → connecting → connected → backoff → failed, then starts over on connect()', async () => {
+    let standIn = await startStandIn();
+    const { port } = standIn;
+    const { client, callbacks, changes, states } = createClient(standIn.baseUrl, standIn.wsUrl);
+    cleanup.push(() => client.disconnect());
+
+    assert.equal(client.getConnectionInfo().state, 'idle');
+    client.connect();
+    await waitFor(() => client.getIsConnected(), 2000, 'first connection');
+    assert.deepEqual(states(), ['connecting', 'connected']);
+
+    await standIn.server.stop();
+    await waitFor(() => client.getConnectionInfo().state === 'failed', 3000, 'giving up');
+    assert.deepEqual(states(), [
+      'connecting', 'connected',
+      'backoff', 'connecting',
+      'backoff', 'connecting',
+      'backoff', 'connecting',
+      'failed'
+    ]);
+
+    // Capped exponential delays: 40, 80, then 100 instead of 160
+    const backoffs = changes.filter(change => change.state === 'backoff');
+    assert.deepEqual(backoffs.map(change => change.attempt), [1, 2, 3]);
+    [40, 80, 100].forEach((delay, i) => {
+      assert.ok(Math.abs((backoffs[i].retryInMs ?? -1) - delay) <= 5, `retry ${i + 1} in ${backoffs[i].retryInMs}ms, expected ${delay}ms`);
+    });
+    assert.ok(callbacks.errors.some(error => error.includes('Gave up connecting to audio stream after 3 attempts')));
+
+    // No more attempts once failed
+    const changesWhenFailed = changes.length;
+    await wait(250);
+    assert.equal(changes.length, changesWhenFailed);
+
+    standIn = await startStandIn(port);
+    cleanup.push(() => standIn.server.stop());
+    client.connect();
+    await waitFor(() => client.getIsConnected(), 2000, 'connection after connect()');
+    assert.equal(client.getConnectionInfo().attempt, 0);
+  });
+
+  it('reconnects when the server comes back during backoff', async () => {
+    const slow: WebSocketAudioClientTimings = { ...FAST, reconnect: { initialDelayMs: 100, maxDelayMs: 400, maxAttempts: 10, jitter: 0 } };
+    let standIn = await startStandIn();
+    const { port } = standIn;
+    const { client, getBytes } = createClient(standIn.baseUrl, standIn.wsUrl, slow);
+    cleanup.push(() => client.disconnect());
+
+    client.connect();
+    await waitFor(() => client.getIsConnected(), 2000, 'first connection');
+    await standIn.server.stop();
+    await waitFor(() => client.getConnectionInfo().attempt >= 2, 2000, 'second attempt');
+    assert.notEqual(client.getConnectionInfo().state, 'connected');
+
+    standIn = await startStandIn(port);
+    cleanup.push(() => standIn.server.stop());
+    await waitFor(() => client.getIsConnected(), 2000, 'reconnection');
+    assert.equal(client.getConnectionInfo().attempt, 0);
+
+    const bytes = getBytes();
+    await waitFor(() => getBytes() > bytes, 2000, 'audio after reconnecting');
+  });
+
+  it('flags a stream without audio as stale, reconnects once and clears it when audio resumes', async () => {
+    const standIn = await startStandIn();
+    cleanup.push(() => standIn.server.stop());
+    const staleTimings: WebSocketAudioClientTimings = { ...FAST, heartbeatIntervalMs: 50, staleStreamMs: 200 };
+    const { client, callbacks, states, getBytes } = createClient(standIn.baseUrl, standIn.wsUrl, staleTimings);
+    cleanup.push(() => client.disconnect());
+
+    client.connect();
+    await waitFor(() => client.getIsConnected() && getBytes() > 0, 2000, 'audio');
+
+    // Stop capture behind the client's back, so the silence is unexpected
+    await fetch(`${standIn.baseUrl}/api/capture/stop`, { method: 'POST' });
+    await waitFor(() => callbacks.logs.includes('Reconnecting stale audio stream...'), 2000, 'stale reconnect');
+    // The terminated socket closes asynchronously, so wait for the reconnect itself
+    await waitFor(() => states().length >= 5 && client.getIsConnected() && client.getConnectionInfo().stale, 2000, 'stale again after reconnecting');
+    assert.deepEqual(states().slice(0, 5), ['connecting', 'connected', 'backoff', 'connecting', 'connected']);
+
+    // Only one reconnect per stale episode
+    const statesWhenStale = states().length;
+    await wait(400);
+    assert.equal(states().length, statesWhenStale);
+    assert.equal(client.getConnectionInfo().stale, true);
+
+    await fetch(`${standIn.baseUrl}/api/capture/start`, { method: 'POST' });
+    await waitFor(() => !client.getConnectionInfo().stale, 2000, 'audio to resume');
+    assert.ok(callbacks.logs.includes('Audio stream resumed'));
+  });
+
+  it('expects silence after stopCapture()', async () => {
+    const standIn = await startStandIn();
+    cleanup.push(() => standIn.server.stop());
+    const { client, getBytes } = createClient(standIn.baseUrl, standIn.wsUrl, { ...FAST, heartbeatIntervalMs: 50, staleStreamMs: 200 });
+    cleanup.push(() => client.disconnect());
+
+    client.connect();
+    await waitFor(() => client.getIsConnected() && getBytes() > 0, 2000, 'audio');
+    await client.stopCapture();
+    await wait(500);
+    assert.equal(client.getConnectionInfo().stale, false);
+    assert.equal(client.getConnectionInfo().state, 'connected');
+  });
+
+  it('reconnects to the new URLs after updateUrls()', async () => {
+    const first = await startStandIn();
+    cleanup.push(() => first.server.stop());
+    const second = await startStandIn();
+    cleanup.push(() => second.server.stop());
+    const { client, states } = createClient(first.baseUrl, first.wsUrl);
+    cleanup.push(() => client.disconnect());
+
+    client.connect();
+    await waitFor(() => client.getIsConnected(), 2000, 'first connection');
+    client.updateUrls(second.baseUrl, second.wsUrl);
+    assert.equal(client.getConnectionInfo().state, 'backoff');
+
+    await waitFor(() => client.getIsConnected(), 2000, 'connection to the new URLs');
+    assert.equal(client.getServerUrl(), `${second.wsUrl}/ws/audio`);
+    assert.deepEqual(states(), ['connecting', 'connected', 'idle', 'backoff', 'connecting', 'connected']);
+  });
+
+  it('does not reconnect after updateUrls() when disconnect() follows', async () => {
+    const standIn = await startStandIn();
+    cleanup.push(() => standIn.server.stop());
+    // Counts connections to the URLs the client is moved to
+    let connections = 0;
+    const target = new WebSocketServer({ port: 0, path: '/ws/audio' });
+    target.on('connection', () => connections++);
+    await new Promise<void>(resolve => target.once('listening', () => resolve()));
+    cleanup.push(() => new Promise<void>(resolve => target.close(() => resolve())));
+    const { port } = target.address() as AddressInfo;
+
+    const { client, changes } = createClient(standIn.baseUrl, standIn.wsUrl);
+    client.connect();
+    await waitFor(() => client.getIsConnected(), 2000, 'connection');
+    client.updateUrls(`http://localhost:${port}`, `ws://localhost:${port}`);
+    client.disconnect();
+    const changesAfterDisconnect = changes.length;
+    await wait(250);
+
+    assert.equal(connections, 0);
+    assert.equal(client.getConnectionInfo().state, 'idle');
+    assert.equal(changes.length, changesAfterDisconnect);
+  });
+
+  it('stays idle after disconnect()', async () => {
+    const standIn = await startStandIn();
+    cleanup.push(() => standIn.server.stop());
+    const { client, changes } = createClient(standIn.baseUrl, standIn.wsUrl);
+
+    client.connect();
+    await waitFor(() => client.getIsConnected(), 2000, 'connection');
+    client.disconnect();
+    const changesAfterDisconnect = changes.length;
+    await wait(200);
+
+    assert.equal(client.getConnectionInfo().state, 'idle');
+    assert.equal(changes.length, changesAfterDisconnect);
+  });
+});
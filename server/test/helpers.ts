@@ -0,0 +1,121 @@
+import { Worker } from 'worker_threads';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join as pathJoin } from 'path';
+import { fileURLToPath } from 'url';
+import { build } from 'esbuild';
+import { StandInAudioServer } from '../StandInAudioServer';
+
+const REPO_ROOT = fileURLToPath(new URL('../..', import.meta.url));
+
+export const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Resolve once the check passes, or fail after the timeout
+export const waitFor = async (check: () => boolean, timeoutMs: number = 5000, what: string = 'condition'): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out after ${timeoutMs}ms waiting for ${what}`);
+    }
+    await wait(10);
+  }
+};
+
+// Callbacks that keep what they're told, so tests can inspect errors without the noise
+export const recordingCallbacks = () => {
+  const logs: string[] = [];
+  const errors: string[] = [];
+  return {
+    logs,
+    errors,
+    onLog: (message: string) => { logs.push(message); },
+    onWarning: (message: string) => { logs.push(message); },
+    onError: (error: string) => { errors.push(error); }
+  };
+};
+
+// A stand-in capture server on a free port (or the given one, to bring one back)
+export const startStandIn = async (port: number = 0) => {
+  const server = new StandInAudioServer({ port }, { onLog: () => {}, onError: () => {} });
+  const boundPort = await server.start();
+  return {
+    server,
+    port: boundPort,
+    baseUrl: `http://localhost:${boundPort}`,
+    wsUrl: `ws://localhost:${boundPort}`
+  };
+};
+
+export interface ClientMessage {
+  type: string;
+  payload?: unknown;
+}
+
+// Runs the bundled app server in a worker thread and plays the DeskThing host:
+// answers its data and settings requests and collects what it sends to the client
+export class DeskThingHost {
+  public sent: ClientMessage[] = [];
+  private worker: Worker | null = null;
+  private outDir: string = '';
+  private settings: Record<string, unknown>;
+
+  constructor(settings: Record<string, unknown>) {
+    this.settings = settings;
+  }
+
+  public async start(): Promise<void> {
+    this.outDir = mkdtempSync(pathJoin(tmpdir(), 'flowthing-test-'));
+    const outfile = pathJoin(this.outDir, 'index.cjs');
+    await build({
+      entryPoints: [pathJoin(REPO_ROOT, 'server', 'index.ts')],
+      bundle: true,
+      platform: 'node',
+      format: 'cjs',
+      outfile,
+      external: ['naudiodon'],
+      logLevel: 'warning'
+    });
+
+    // The SDK looks for ../deskthing/manifest.json from here
+    const worker = new Worker(outfile, {
+      env: { ...process.env, DESKTHING_ROOT_PATH: pathJoin(REPO_ROOT, 'server') },
+      stdout: true,
+      stderr: true
+    });
+    worker.stdout.resume();
+    worker.stderr.resume();
+    worker.on('message', (message) => this.handleMessage(message));
+    this.worker = worker;
+    worker.postMessage({ type: 'start' });
+  }
+
+  // Deliver a message from the client, e.g. { type: 'connect' }
+  public sendFromClient(message: ClientMessage) {
+    this.worker?.postMessage({ type: 'data', payload: message });
+  }
+
+  public ofType(type: string): ClientMessage[] {
+    return this.sent.filter(message => message.type === type);
+  }
+
+  public async stop(): Promise<void> {
+    await this.worker?.terminate();
+    this.worker = null;
+    if (this.outDir) {
+      rmSync(this.outDir, { recursive: true, force: true });
+    }
+  }
+
+  private handleMessage(message: { type: string; payload?: { type: string; request?: string; payload?: unknown } }) {
+    const data = message.payload;
+    if (message.type !== 'data' || !data) return;
+
+    if (data.type === 'send') {
+      this.sent.push(data.payload as ClientMessage);
+    } else if (data.type === 'get' && data.request === 'settings') {
+      this.worker?.postMessage({ type: 'data', payload: { type: 'settings', payload: this.settings } });
+    } else if (data.type === 'get' && data.request === 'data') {
+      this.worker?.postMessage({ type: 'data', payload: { type: 'data', payload: {} } });
+    }
+  }
+}
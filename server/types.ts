@@ -1,13 +1,17 @@
 export type GenericTransitData = {
-  type: 'get' | 'connect' | 'disconnect' | 'refresh' | 'start' | 'stop' | 'message';
+  type: 'get' | 'audio_source' | 'presets' | 'settings_update' | 'connect' | 'disconnect' | 'refresh' | 'start' | 'stop' | 'message';
   payload?: any;
 };
 
 export type ToClientData = {
-  type: 'audio_stream_status' | 'audio_format' | 'audio_data' | 'settings' | 'setting_changed';
+  type: 'audio_stream_status' | 'audio_format' | 'audio_data' | 'setting_changed';
   payload: any;
 }
 | {
+      type: 'spectrum';
+      payload: SpectrumData;
+    }
+  | {
       type: 'server_status';
       payload: ServerStatus;
     }
@@ -19,6 +23,14 @@ export type ToClientData = {
       type: 'logs';
       payload: LogEntry[];
     }
+  | {
+      type: 'presets';
+      payload: VisualizationPreset[];
+    }
+  | {
+      type: 'settings_sync';
+      payload: SettingsSnapshot;
+    }
 ;
 export type LogEntry = {
   timestamp: number;
@@ -26,15 +38,50 @@ export type LogEntry = {
   message: string;
 };
 
+// 'raw': PCM bytes laid out as described by the audio_format message
+// 'f32le': normalized little-endian float32 samples (server-side downsampled)
+export type AudioTransportEncoding = 'raw' | 'f32le';
+
+// Transport v2+: base64-encoded payload
 export interface AudioStreamData {
-  data: number[]; // Audio buffer as array
+  version: number;
+  encoding: AudioTransportEncoding;
+  data: string; // base64
+  length: number; // decoded byte length
+  timestamp: number;
+}
+
+// Transport v1: raw bytes as a number array
+export interface LegacyAudioStreamData {
+  version?: undefined;
+  data: number[];
   length: number;
   timestamp: number;
 }
+// Pre-analyzed spectrum frame sent when analysis runs on the server
+export interface SpectrumData {
+  bins: number[]; // normalized 0-1, log-frequency spaced from minFrequency to Nyquist
+  rms: number;
+  peak: number;
+  sampleRate: number;
+  fftSize: number;
+  minFrequency: number; // Hz at the low edge of the first bin
+  rangeDb: number; // dB covered by 0-1 in bins
+  timestamp: number;
+}
+
 // Server status info
+// 'crashed': exited unexpectedly, 'restarting' follows unless restarts ran out ('failed')
+export type AudioServerState = 'stopped' | 'starting' | 'ready' | 'crashed' | 'restarting' | 'failed';
+
 export type ServerStatus = {
   isRunning: boolean;
   executablePath: string;
+  state: AudioServerState;
+  adopted: boolean; // using a server that was already running rather than one FlowThing started
+  pid?: number;
+  restartCount: number; // crash restarts since the last start
+  error?: string; // why it crashed or failed
 };
 
 export interface AudioFormatData {
@@ -42,6 +89,7 @@ export interface AudioFormatData {
   bitsPerSample: number;
   channels: number;
   encoding: string;
+  endianness?: 'little' | 'big';
   downsampleFactor?: number;
   originalSampleRate?: number;
 }
@@ -50,15 +98,52 @@ export interface AudioStreamStatus {
   connected: boolean;
   audioFormat?: AudioFormatData;
   serverUrl: string;
+  transportVersion?: number;
+  analysisMode?: AnalysisMode;
+  source?: AudioStreamSource;
+  playbackFile?: string; // file name when source is 'file'
+  captureBackend?: 'websocket' | 'pulse'; // what the 'capture' source reads from
+  // Capture source only: where the connection is in its reconnect cycle
+  connectionState?: StreamConnectionState;
+  reconnectAttempt?: number; // attempts since the last successful connection
+  retryInMs?: number; // while in 'backoff'
+  stale?: boolean; // connected, but no audio has arrived for a while
 }
 
+// 'backoff': waiting to retry after a lost or refused connection
+// 'failed': gave up after too many attempts; a new connect request starts over
+export type StreamConnectionState = 'idle' | 'connecting' | 'connected' | 'backoff' | 'failed';
+
+// Where the server's audio stream comes from
+export type AudioStreamSource = 'capture' | 'file';
+
+// 'client': raw PCM is streamed and analyzed in the browser
+// 'server': only spectrum frames are streamed
+export type AnalysisMode = 'client' | 'server';
+
+// A saved look: the visualization with its options, colors and audio response.
+// `settings` holds a subset of the client's FlowThingSettings (see src/Presets.ts).
+export interface VisualizationPreset {
+  id: string;
+  name: string;
+  createdAt: number; // ms since epoch
+  updatedAt: number;
+  settings: Record<string, unknown>;
+}
+
+// Preset requests from the client; the server answers each with the full list
+export type PresetRequest =
+  | { action: 'list' }
+  | { action: 'save'; presets: VisualizationPreset[] } // add, or replace by id
+  | { action: 'delete'; id: string };
+
 export interface FlowThingSettings {
   visualizationType: string;
   audioSensitivity: number;
   backgroundColor: string;
   primaryColor: string;
   animationSpeed: number;
-  audioSource: 'system' | 'microphone' | 'mock';
+  audioSource: 'system' | 'microphone' | 'file' | 'mock';
   autoChangeInterval: number;
   showVisualizationName: boolean;
   performanceMode: 'quality' | 'balanced' | 'performance';
@@ -128,7 +213,7 @@ export const VISUALIZATION_OPTIONS: VisualizationOption[] = [
 
 export interface AudioSourceOption {
   label: string;
-  value: 'system' | 'microphone' | 'mock';
+  value: 'system' | 'microphone' | 'file' | 'mock';
   description: string;
 }
 
@@ -143,6 +228,11 @@ export const AUDIO_SOURCE_OPTIONS: AudioSourceOption[] = [
     value: "microphone",
     description: "Use microphone input for audio visualization"
   },
+  {
+    label: "📁 Audio File",
+    value: "file",
+    description: "Play a WAV, FLAC or MP3 file from the host's playback folder through the server"
+  },
   {
     label: "🎲 Demo Mode",
     value: "mock",
@@ -161,4 +251,22 @@ export const defaultSettings: FlowThingSettings = {
   autoChangeInterval: 30,
   showVisualizationName: true,
   performanceMode: "balanced"
-};
\ No newline at end of file
+};
+
+// Server -> client: the settings the desktop holds. Not sent as 'settings',
+// which DeskThing uses for its own app settings event. Revisions count changes
+// from either side within one server session; see server/setupSettings.ts.
+export interface SettingsSnapshot {
+  values: Record<string, unknown>;
+  revision: number;
+  session: string; // changes when the server restarts
+  version: number; // settings schema version the values are in
+  rejected?: string[]; // keys of the client's last update that lost to newer desktop changes
+}
+
+// Client -> server: changed synced settings and the revision they were based on
+export interface SettingsUpdate {
+  changes: Record<string, unknown>;
+  revision: number;
+  session: string | null;
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+// FFT window functions, shared by the client's AudioProcessor and the server's
+// SpectrumAnalyzer so a window name gives the same spectrum in both analysis modes.
+
+export type FftWindow = 'hann' | 'hamming' | 'blackman-harris' | 'flat-top';
+
+export const FFT_WINDOWS: FftWindow[] = ['hann', 'hamming', 'blackman-harris', 'flat-top'];
+
+export const isFftWindow = (value: unknown): value is FftWindow => FFT_WINDOWS.includes(value as FftWindow);
+
+// Build window coefficients (periodic form, as used for spectral analysis)
+export const createWindow = (type: FftWindow, size: number): Float32Array => {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / size;
+    switch (type) {
+      case 'hamming':
+        window[i] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case 'blackman-harris':
+        window[i] = 0.35875 - 0.48829 * Math.cos(phase) + 0.14128 * Math.cos(2 * phase) - 0.01168 * Math.cos(3 * phase);
+        break;
+      case 'flat-top':
+        window[i] = 0.21557895 - 0.41663158 * Math.cos(phase) + 0.277263158 * Math.cos(2 * phase)
+          - 0.083578947 * Math.cos(3 * phase) + 0.006947368 * Math.cos(4 * phase);
+        break;
+      default:
+        window[i] = 0.5 * (1 - Math.cos(phase));
+    }
+  }
+  return window;
+};
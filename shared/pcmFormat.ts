@@ -0,0 +1,82 @@
+// Encoding names and sample layouts, shared by the client's PcmDecoder and the
+// server's AudioTranscoder so both sides accept the same audio_format messages.
+
+export type SampleType = 'int' | 'float';
+
+export interface PcmLayout {
+  sampleType: SampleType;
+  bitsPerSample: number;
+  bytesPerSample: number;
+  channels: number;
+  littleEndian: boolean;
+}
+
+// The audio_format fields that decide the layout; client and server each have their own AudioFormatData
+export interface PcmFormatFields {
+  bitsPerSample: number;
+  channels: number;
+  encoding: string;
+  endianness?: 'little' | 'big';
+}
+
+// Raised when an audio_format message describes samples we can't decode
+export class UnsupportedAudioFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedAudioFormatError';
+  }
+}
+
+// Work out sample type and byte order from the encoding string.
+// Accepts NAudio names ("IeeeFloat", "Pcm", "Extensible") as well as
+// ffmpeg-style names ("f32le", "s16be", "pcm_s24le").
+export const parseEncoding = (encoding: string, bitsPerSample: number): { sampleType: SampleType; littleEndian?: boolean } => {
+  const normalized = (encoding || '').toLowerCase().replace(/[\s_-]/g, '');
+
+  let littleEndian: boolean | undefined;
+  if (normalized.endsWith('be') || normalized.includes('bigendian')) {
+    littleEndian = false;
+  } else if (normalized.endsWith('le') || normalized.includes('littleendian')) {
+    littleEndian = true;
+  }
+
+  if (normalized.includes('float') || /^(pcm)?f(32|64)/.test(normalized)) {
+    return { sampleType: 'float', littleEndian };
+  }
+
+  if (normalized.includes('pcm') || normalized.includes('int') || /^[su](8|16|24|32)/.test(normalized)) {
+    return { sampleType: 'int', littleEndian };
+  }
+
+  // WAVE_FORMAT_EXTENSIBLE doesn't carry the subtype in the encoding name,
+  // so fall back to the usual convention for the bit depth
+  if (normalized.includes('extensible') || normalized === '') {
+    return { sampleType: bitsPerSample === 32 || bitsPerSample === 64 ? 'float' : 'int', littleEndian };
+  }
+
+  throw new UnsupportedAudioFormatError(`Unsupported audio encoding "${encoding}"`);
+};
+
+// Resolve an audio_format message into a concrete sample layout
+export const resolvePcmLayout = (format: PcmFormatFields): PcmLayout => {
+  const bitsPerSample = Number(format.bitsPerSample);
+  const channels = Math.max(1, Math.floor(Number(format.channels) || 1));
+  const { sampleType, littleEndian } = parseEncoding(format.encoding, bitsPerSample);
+
+  if (sampleType === 'float' && bitsPerSample !== 32 && bitsPerSample !== 64) {
+    throw new UnsupportedAudioFormatError(`Unsupported float bit depth: ${format.bitsPerSample}-bit`);
+  }
+
+  if (sampleType === 'int' && ![8, 16, 24, 32].includes(bitsPerSample)) {
+    throw new UnsupportedAudioFormatError(`Unsupported integer bit depth: ${format.bitsPerSample}-bit`);
+  }
+
+  // An explicit endianness wins over the one implied by the encoding name
+  return {
+    sampleType,
+    bitsPerSample,
+    bytesPerSample: bitsPerSample / 8,
+    channels,
+    littleEndian: format.endianness ? format.endianness === 'little' : littleEndian ?? true
+  };
+};
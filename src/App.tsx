@@ -1,62 +1,197 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { createDeskThing } from '@deskthing/client';
 import VisualizationCanvas from './components/VisualizationCanvas';
 import SettingsPanel from './components/SettingsPanel';
 import VisualizationSelector from './components/VisualizationSelector';
-import { FlowThingSettings, defaultSettings, VISUALIZATION_OPTIONS } from './types/visualization';
-import { ToClientData, GenericTransitData, AudioFormatData, AudioStreamData } from './types/types';
+import { FlowThingSettings, defaultSettings } from './types/visualization';
+import { getVisualization } from './visualizations';
+import { ToClientData, GenericTransitData, AudioFormatData, AudioStreamData, LegacyAudioStreamData, SpectrumData, AnalysisMode, VisualizationPreset, PresetRequest, StreamConnectionState } from './types/types';
 import { AudioProcessor } from './AudioProcessor';
+import { AUDIO_TRANSPORT_VERSION } from './AudioTransport';
+import { sensitivityToGainDb } from './SpectrumDynamics';
+import { AudioFrameStore } from './AudioFrameStore';
+import { AudioPipeline, LocalAudioPipeline } from './AudioPipeline';
+import { VisualizationWorkerClient, supportsWorkerRendering } from './workers/VisualizationWorkerClient';
+import { MicrophoneError, MicrophoneInfo, MicrophoneSource } from './MicrophoneSource';
+import { applyPreset, capturePreset } from './Presets';
+import { PlaylistScheduler } from './Playlist';
+import { loadStoredSettings, storeSettings } from './SettingsSchema';
+import { SettingsSync } from './SettingsSync';
+
+// Sources whose audio is streamed from the server
+const isServerSource = (source?: string) => source === 'system' || source === 'file';
 
 const DeskThing = createDeskThing<ToClientData, GenericTransitData>();
 
+const PRESETS_STORAGE_KEY = 'flowthing-presets';
+
+// Presets cached on this device, shown until the server answers with its list
+const loadCachedPresets = (): VisualizationPreset[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (error) {
+    console.warn('[FlowThing] Failed to load presets from localStorage:', error);
+    return [];
+  }
+};
+
+const sendPresetRequest = (request: PresetRequest) => {
+  DeskThing.send({ type: 'presets', payload: request });
+};
+
 const App: React.FC = () => {
-  const [settings, setSettings] = useState<FlowThingSettings>(defaultSettings);
+  // Loaded up front so the first settings state is the saved one, not the defaults
+  const [settings, setSettings] = useState<FlowThingSettings>(loadStoredSettings);
   const [isVisualizationPanelOpen, setIsVisualizationPanelOpen] = useState(false);
   const [isSettingsPanelOpen, setIsSettingsPanelOpen] = useState(false);
-  const [audioData, setAudioData] = useState<number[]>([]);
+  const [tempo, setTempo] = useState<{ bpm: number; confidence: number } | null>(null);
+  const [beatFlash, setBeatFlash] = useState(false);
   const [connected, setConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<StreamConnectionState | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [streamStale, setStreamStale] = useState(false);
   const [audioFormat, setAudioFormat] = useState<AudioFormatData | null>(null);
+  const [audioFormatError, setAudioFormatError] = useState<string | null>(null);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('client');
+  const [playbackFile, setPlaybackFile] = useState<string | null>(null);
   const [showAudioIndicator, setShowAudioIndicator] = useState(false);
   const [lastAudioSource, setLastAudioSource] = useState<string | null>(null);
+  const [microphoneState, setMicrophoneState] = useState<'idle' | 'starting' | 'active' | 'error'>('idle');
+  const [microphoneInfo, setMicrophoneInfo] = useState<MicrophoneInfo | null>(null);
+  const [microphoneError, setMicrophoneError] = useState<string | null>(null);
+  const [workerClient, setWorkerClient] = useState<VisualizationWorkerClient | null>(null);
+  const [presets, setPresets] = useState<VisualizationPreset[]>(loadCachedPresets);
+  const presetsRef = useRef(presets);
+  const presetsSyncedRef = useRef(false);
 
   // Create a single instance of AudioProcessor
   const audioProcessor = useMemo(() => new AudioProcessor(), []);
+  // Analysed audio for the render loop; written at audio rate without touching React state
+  const frameStore = useMemo(() => new AudioFrameStore(), []);
+  const localPipeline = useMemo(() => new LocalAudioPipeline(audioProcessor, frameStore), [audioProcessor, frameStore]);
+  // Audio goes wherever the visualization is drawn
+  const pipeline: AudioPipeline = workerClient ?? localPipeline;
 
-  // Load settings from localStorage on startup
+  // Move analysis and rendering to a worker when enabled and the browser can transfer canvases
   useEffect(() => {
-    try {
-      const savedSettings = localStorage.getItem('flowthing-settings');
-      if (savedSettings) {
-        const parsed = JSON.parse(savedSettings);
-        
-        // Handle migration from old colorScheme to new backgroundColor/primaryColor
-        if (parsed.colorScheme && !parsed.backgroundColor && !parsed.primaryColor) {
-          parsed.backgroundColor = "#000000";
-          parsed.primaryColor = parsed.colorScheme;
-          delete parsed.colorScheme;
-          console.log('[FlowThing] Migrated colorScheme to backgroundColor/primaryColor');
-        }
-        
-        setSettings(prev => ({ ...prev, ...parsed }));
-        console.log('[FlowThing] Loaded settings from localStorage:', parsed);
-      }
-    } catch (error) {
-      console.warn('[FlowThing] Failed to load settings from localStorage:', error);
+    if (!settings.renderInWorker) return;
+    if (!supportsWorkerRendering()) {
+      console.warn('[FlowThing] OffscreenCanvas is not supported, rendering on the main thread');
+      return;
     }
-  }, []);
+
+    console.log('[FlowThing] Starting visualization worker');
+    const client = new VisualizationWorkerClient();
+    setWorkerClient(client);
+
+    return () => {
+      console.log('[FlowThing] Stopping visualization worker');
+      client.dispose();
+      setWorkerClient(null);
+    };
+  }, [settings.renderInWorker]);
+
+  // Keep FFT configuration in sync with settings
+  useEffect(() => {
+    pipeline.configure({
+      fftSize: settings.fftSize,
+      windowFunction: settings.fftWindow,
+      overlap: settings.fftOverlap,
+      frequencyScale: settings.frequencyScale,
+      minFrequency: settings.minFrequency,
+      maxFrequency: settings.maxFrequency
+    });
+  }, [pipeline, settings.fftSize, settings.fftWindow, settings.fftOverlap, settings.frequencyScale, settings.minFrequency, settings.maxFrequency]);
+
+  // Sensitivity is applied as input gain in the analysis stage
+  useEffect(() => {
+    pipeline.configureDynamics({
+      gainDb: sensitivityToGainDb(settings.audioSensitivity),
+      floorDb: settings.dbFloor,
+      ceilingDb: settings.dbCeiling,
+      agcEnabled: settings.agcEnabled,
+      agcWindowSeconds: settings.agcWindow,
+      attackMs: settings.attackMs,
+      releaseMs: settings.releaseMs,
+      peakHoldEnabled: settings.peakHold,
+      peakDecayPerSecond: settings.peakDecay
+    });
+  }, [pipeline, settings.audioSensitivity, settings.dbFloor, settings.dbCeiling, settings.agcEnabled, settings.agcWindow, settings.attackMs, settings.releaseMs, settings.peakHold, settings.peakDecay]);
+
+  // Settings that also live in the DeskThing desktop settings are kept in sync with the server
+  const settingsSync = useMemo(() => new SettingsSync(update => {
+    DeskThing.send({ type: 'settings_update', payload: update });
+  }), []);
+
+  // Every local change, whatever made it, goes through the sync
+  useEffect(() => {
+    settingsSync.update(settings);
+  }, [settings, settingsSync]);
+
+  // Apply desktop changes live; the server also answers each update we send
+  useEffect(() => {
+    const removeSettingsListener = DeskThing.on('settings_sync', (data) => {
+      if (!data?.payload) return;
+
+      const patch = settingsSync.receive(data.payload);
+      setSettings(prev => {
+        const changed = (Object.keys(patch) as (keyof FlowThingSettings)[]).filter(key => patch[key] !== prev[key]);
+        if (changed.length === 0) return prev;
+
+        console.log('[FlowThing] Applying settings from server:', changed);
+        const newSettings = { ...prev, ...patch };
+        storeSettings(newSettings);
+        return newSettings;
+      });
+    });
+
+    DeskThing.send({ type: 'get', payload: { request: 'settings' } });
+
+    return () => {
+      removeSettingsListener();
+      settingsSync.dispose();
+    };
+  }, [settingsSync]);
+
+  // Apply the negotiated audio format to the decoder, including a newly started worker's
+  useEffect(() => {
+    if (audioFormat) {
+      pipeline.setAudioFormat(audioFormat);
+    }
+  }, [pipeline, audioFormat]);
+
+  // The pipeline reports formats it can't decode instead of throwing
+  useEffect(() => {
+    return pipeline.onAudioFormatError(setAudioFormatError);
+  }, [pipeline]);
 
   // Process audio data from WebSocket
-  const processAudioData = useCallback((audioStreamData: AudioStreamData) => {
-    // Only process if audio source is set to 'system'
-    if (settings?.audioSource !== 'system') {
+  const processAudioData = useCallback((audioStreamData: AudioStreamData | LegacyAudioStreamData) => {
+    // Only process if audio source is streamed from the server
+    if (!isServerSource(settings?.audioSource)) {
       console.log('[FlowThing] Ignoring WebSocket audio - current source is:', settings?.audioSource);
       return;
     }
     
+    // Don't render garbage from a stream we can't decode
+    if (audioFormatError) {
+      return;
+    }
+    
     const analysisMethod = settings?.audioAnalysisMethod || 'fft';
-    const bins = audioProcessor.processAudioData(audioStreamData, analysisMethod);
-    setAudioData(bins);
-  }, [settings?.audioAnalysisMethod, settings?.audioSource, audioProcessor]);
+    
+    pipeline.processAudioData(audioStreamData, analysisMethod);
+  }, [settings?.audioAnalysisMethod, settings?.audioSource, pipeline, audioFormatError]);
+
+  // Use pre-analyzed spectrum frames from the server as-is
+  const processSpectrum = useCallback((spectrum: SpectrumData) => {
+    if (!isServerSource(settings?.audioSource)) {
+      return;
+    }
+
+    pipeline.processSpectrum(spectrum);
+  }, [settings?.audioSource, pipeline]);
 
   // WebSocket Audio Stream Connection
   useEffect(() => {
@@ -79,6 +214,11 @@ const App: React.FC = () => {
       console.log('[FlowThing] Connection status:', payload.connected);
       
       setConnected(payload.connected);
+      setConnectionState(payload.connectionState ?? null);
+      setReconnectAttempt(payload.reconnectAttempt ?? 0);
+      setStreamStale(!!payload.stale);
+      setAnalysisMode(payload.analysisMode || 'client');
+      setPlaybackFile(payload.source === 'file' ? payload.playbackFile || null : null);
       
       if (payload.audioFormat) {
         console.log('[FlowThing] Audio format:', payload.audioFormat);
@@ -97,7 +237,6 @@ const App: React.FC = () => {
     // Listen for audio data
     const removeDataListener = DeskThing.on('audio_data', (data) => {
       if (invalid) return;
-      console.log('🎵 Received audio_data event, length:', data?.payload?.length);
       
       if (!data || !data.payload) {
         console.warn('[FlowThing] No audio data payload');
@@ -107,6 +246,13 @@ const App: React.FC = () => {
       processAudioData(data.payload);
     });
 
+    // Listen for pre-analyzed spectrum frames (server analysis mode)
+    const removeSpectrumListener = DeskThing.on('spectrum', (data) => {
+      if (invalid) return;
+      if (!data || !data.payload) return;
+      processSpectrum(data.payload);
+    });
+
     console.log('✅ Listeners set up!');
 
     // Function to request status
@@ -115,7 +261,7 @@ const App: React.FC = () => {
       console.log('📡 Requesting current status from server...');
       DeskThing.send({ 
         type: 'get',
-        payload: { request: 'status' }
+        payload: { request: 'status', transportVersion: AUDIO_TRANSPORT_VERSION }
       });
     };
 
@@ -141,8 +287,19 @@ const App: React.FC = () => {
       removeStatusListener();
       removeFormatListener();
       removeDataListener();
+      removeSpectrumListener();
     };
-  }, [processAudioData]);
+  }, [processAudioData, processSpectrum]);
+
+  // Tell the server which source to stream (file playback or capture)
+  useEffect(() => {
+    if (!settings?.audioSource) return;
+    
+    DeskThing.send({
+      type: 'audio_source',
+      payload: { source: settings.audioSource }
+    });
+  }, [settings?.audioSource]);
 
   // Show audio indicator when connection status or audio source changes
   useEffect(() => {
@@ -161,6 +318,102 @@ const App: React.FC = () => {
     setLastAudioSource(currentSource);
   }, [settings?.audioSource, lastAudioSource]);
 
+  // Onsets and tempo from one source mean nothing for the next
+  useEffect(() => {
+    pipeline.reset();
+    setTempo(null);
+  }, [settings?.audioSource, pipeline]);
+
+  // Flash the BPM overlay's beat dot and refresh its tempo; beats are the
+  // only thing that moves it, so the overlay re-renders a couple of times a second at most
+  useEffect(() => {
+    if (!settings?.showBpm) {
+      return;
+    }
+
+    let flashTimer: NodeJS.Timeout | null = null;
+    const unsubscribe = pipeline.onBeat(info => {
+      setTempo(prev => {
+        if (info.bpm === null) return null;
+        const confidence = Math.round(info.confidence * 100) / 100;
+        return prev && prev.bpm === info.bpm && prev.confidence === confidence ? prev : { bpm: info.bpm, confidence };
+      });
+      setBeatFlash(true);
+      if (flashTimer) clearTimeout(flashTimer);
+      flashTimer = setTimeout(() => setBeatFlash(false), 100);
+    });
+
+    return () => {
+      unsubscribe();
+      if (flashTimer) clearTimeout(flashTimer);
+      setBeatFlash(false);
+    };
+  }, [settings?.showBpm, pipeline]);
+
+  // Analyze microphone samples through the same pipeline as system audio
+  const processMicrophoneSamples = useCallback((channels: Float32Array[]) => {
+    const analysisMethod = settings?.audioAnalysisMethod || 'fft';
+    pipeline.processChannels(channels, analysisMethod);
+  }, [settings?.audioAnalysisMethod, pipeline]);
+
+  // Keep the capture callback current without reopening the microphone
+  const microphoneHandlerRef = useRef(processMicrophoneSamples);
+  useEffect(() => {
+    microphoneHandlerRef.current = processMicrophoneSamples;
+  }, [processMicrophoneSamples]);
+
+  // Microphone capture via getUserMedia
+  useEffect(() => {
+    if (settings?.audioSource !== 'microphone') {
+      setMicrophoneState('idle');
+      setMicrophoneInfo(null);
+      setMicrophoneError(null);
+      return;
+    }
+
+    let cancelled = false;
+    let removeEndedListener: (() => void) | null = null;
+    const microphone = new MicrophoneSource();
+
+    console.log('[FlowThing] Starting microphone capture');
+    setMicrophoneState('starting');
+    setMicrophoneError(null);
+
+    microphone.start(channels => microphoneHandlerRef.current(channels))
+      .then(info => {
+        if (cancelled) {
+          microphone.stop();
+          return;
+        }
+
+        console.log(`[FlowThing] Microphone active: ${info.label}, ${info.sampleRate}Hz, ${info.channels}ch`);
+        pipeline.setSampleRate(info.sampleRate);
+        setMicrophoneInfo(info);
+        setMicrophoneState('active');
+
+        removeEndedListener = microphone.onEnded(() => {
+          console.warn('[FlowThing] Microphone disconnected');
+          microphone.stop();
+          setMicrophoneState('error');
+          setMicrophoneError('Microphone was disconnected');
+        });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        const message = error instanceof MicrophoneError ? error.message : `Could not open microphone: ${error}`;
+        console.error('[FlowThing] Microphone error:', message);
+        setMicrophoneState('error');
+        setMicrophoneError(message);
+      });
+
+    return () => {
+      console.log('[FlowThing] Stopping microphone capture');
+      cancelled = true;
+      removeEndedListener?.();
+      microphone.stop();
+    };
+  }, [settings?.audioSource, pipeline]);
+
   // Mock audio generation for testing
   useEffect(() => {
     if (settings?.audioSource !== 'mock') {
@@ -183,7 +436,7 @@ const App: React.FC = () => {
         bins.push(Math.min(1, value));
       }
       
-      setAudioData(bins);
+      pipeline.processLevels(bins, 60);
     };
 
     // Generate mock data at ~60 FPS
@@ -193,32 +446,102 @@ const App: React.FC = () => {
       console.log('[FlowThing] Stopping mock audio generation');
       clearInterval(interval);
     };
-  }, [settings?.audioSource]);
+  }, [settings?.audioSource, pipeline]);
 
   // Handle setting changes with persistence
   const handleSettingChange = useCallback((key: keyof FlowThingSettings, value: any) => {
     try {
       console.log(`[FlowThing] Setting changed: ${key} = ${value}`);
       
-      if (!settings || typeof settings !== 'object') {
-        console.warn('[FlowThing] Settings object is invalid, cannot update');
-        return;
-      }
-      
-      const newSettings = { ...settings, [key]: value };
-      setSettings(newSettings);
-      
-      // Save to localStorage immediately
-      try {
-        localStorage.setItem('flowthing-settings', JSON.stringify(newSettings));
-      } catch (error) {
-        console.warn('[FlowThing] Failed to save settings to localStorage:', error);
-      }
+      // Build on the latest state so several changes in one event (e.g. adding a theme and selecting it) all land
+      setSettings(prev => {
+        if (!prev || typeof prev !== 'object') {
+          console.warn('[FlowThing] Settings object is invalid, cannot update');
+          return prev;
+        }
+        
+        const newSettings = { ...prev, [key]: value };
+        
+        // Save to localStorage immediately
+        storeSettings(newSettings);
+        return newSettings;
+      });
     } catch (error) {
       console.error('[FlowThing] Error in handleSettingChange:', error);
     }
+  }, []);
+
+  // Keep the device cache and the copy server replies are compared against current
+  useEffect(() => {
+    presetsRef.current = presets;
+    try {
+      localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+      console.warn('[FlowThing] Failed to save presets to localStorage:', error);
+    }
+  }, [presets]);
+
+  // The server holds the shared preset list and answers every request with all of it
+  useEffect(() => {
+    let invalid = false;
+
+    const removePresetsListener = DeskThing.on('presets', (data) => {
+      if (invalid || !Array.isArray(data?.payload)) return;
+      const serverPresets = data.payload;
+
+      // Presets saved while the server was unreachable are uploaded on its first reply
+      if (!presetsSyncedRef.current) {
+        presetsSyncedRef.current = true;
+        const localOnly = presetsRef.current.filter(preset => !serverPresets.some(saved => saved.id === preset.id));
+        if (localOnly.length > 0) {
+          console.log(`[FlowThing] Uploading ${localOnly.length} preset(s) saved on this device`);
+          sendPresetRequest({ action: 'save', presets: localOnly });
+          setPresets([...serverPresets, ...localOnly]);
+          return;
+        }
+      }
+
+      setPresets(serverPresets);
+    });
+
+    sendPresetRequest({ action: 'list' });
+
+    return () => {
+      invalid = true;
+      removePresetsListener();
+    };
+  }, []);
+
+  // Saving under an existing name updates that preset
+  const handleSavePreset = useCallback((name: string) => {
+    const existing = presetsRef.current.find(preset => preset.name === name);
+    const preset = capturePreset(settings, name, existing?.id);
+    if (existing) preset.createdAt = existing.createdAt;
+
+    console.log(`[FlowThing] Saving preset "${name}"`);
+    setPresets(prev => existing ? prev.map(candidate => candidate.id === preset.id ? preset : candidate) : [...prev, preset]);
+    sendPresetRequest({ action: 'save', presets: [preset] });
   }, [settings]);
 
+  const handleApplyPreset = useCallback((preset: VisualizationPreset) => {
+    console.log(`[FlowThing] Applying preset "${preset.name}"`);
+    setSettings(prev => {
+      const newSettings = applyPreset(prev, preset);
+      storeSettings(newSettings);
+      return newSettings;
+    });
+  }, []);
+
+  const handleDeletePreset = useCallback((id: string) => {
+    setPresets(prev => prev.filter(preset => preset.id !== id));
+    sendPresetRequest({ action: 'delete', id });
+  }, []);
+
+  const handleImportPresets = useCallback((imported: VisualizationPreset[]) => {
+    setPresets(prev => [...prev, ...imported]);
+    sendPresetRequest({ action: 'save', presets: imported });
+  }, []);
+
   // Toggle panels
   const toggleVisualizationPanel = useCallback(() => {
     setIsVisualizationPanelOpen(prev => !prev);
@@ -256,18 +579,35 @@ const App: React.FC = () => {
     };
   }, []);
 
-  // // Auto-change visualization timer
-  // useEffect(() => {
-  //   if (!settings?.autoChangeInterval || settings.autoChangeInterval === 0) return;
+  // Auto-cycle through the playlist. Items change settings, which doesn't restart the cycle.
+  useEffect(() => {
+    if (!settings.playlistEnabled || !settings.playlistItems?.length) return;
+
+    const scheduler = new PlaylistScheduler(settings.playlistItems, {
+      order: settings.playlistOrder,
+      beatSync: settings.playlistBeatSync
+    }, item => {
+      if (item.kind === 'preset') {
+        const preset = presetsRef.current.find(candidate => candidate.id === item.target);
+        if (!preset) return false;
+        handleApplyPreset(preset);
+        return true;
+      }
+
+      if (!getVisualization(item.target)) return false;
+      handleSettingChange('visualizationType', item.target);
+      return true;
+    });
 
-  //   const interval = setInterval(() => {
-  //     const currentIndex = VISUALIZATION_OPTIONS.findIndex(opt => opt.value === settings?.visualizationType);
-  //     const nextIndex = (currentIndex + 1) % VISUALIZATION_OPTIONS.length;
-  //     handleSettingChange('visualizationType', VISUALIZATION_OPTIONS[nextIndex].value);
-  //   }, (settings?.autoChangeInterval || 30) * 1000);
+    const unsubscribe = settings.playlistBeatSync ? pipeline.onBeat(() => scheduler.handleBeat()) : null;
+    console.log(`[FlowThing] Starting playlist with ${settings.playlistItems.length} item(s)`);
+    scheduler.start();
 
-  //   return () => clearInterval(interval);
-  // }, [settings?.autoChangeInterval, settings?.visualizationType, handleSettingChange]);
+    return () => {
+      scheduler.stop();
+      unsubscribe?.();
+    };
+  }, [settings.playlistEnabled, settings.playlistItems, settings.playlistOrder, settings.playlistBeatSync, pipeline, handleApplyPreset, handleSettingChange]);
 
   return (
     <div className="w-screen h-screen bg-black relative overflow-hidden">
@@ -275,14 +615,28 @@ const App: React.FC = () => {
       <div className="w-full h-full relative">
         <VisualizationCanvas
           settings={settings || defaultSettings}
-          audioData={audioData}
+          frameStore={frameStore}
           isActive={true}
+          worker={workerClient}
         />
         
+        {/* BPM Overlay */}
+        {settings?.showBpm && (
+          <div className="absolute bottom-2 sm:bottom-4 left-2 sm:left-4 bg-black bg-opacity-50 text-white px-2 sm:px-3 py-1 rounded-lg text-xs select-none pointer-events-none">
+            <div className="flex items-center gap-2">
+              <div className={`w-2 h-2 rounded-full ${beatFlash ? 'bg-white' : 'bg-gray-600'}`} />
+              <span>{tempo ? `${tempo.bpm} BPM` : '-- BPM'}</span>
+              {tempo && (
+                <span className="text-gray-400">{Math.round(tempo.confidence * 100)}%</span>
+              )}
+            </div>
+          </div>
+        )}
+        
         {/* Current Visualization Indicator */}
         {settings?.showVisualizationName && (
           <div className="absolute top-2 sm:top-4 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-50 text-white px-2 sm:px-4 py-1 sm:py-2 rounded-lg select-none pointer-events-none text-xs sm:text-sm">
-            {VISUALIZATION_OPTIONS.find(opt => opt.value === settings?.visualizationType)?.label}
+            {getVisualization(settings?.visualizationType)?.label}
           </div>
         )}
         
@@ -292,6 +646,7 @@ const App: React.FC = () => {
             {settings?.audioSource === 'system' && connected ? '🔊 System Audio' : 
              settings?.audioSource === 'mock' ? '🎵 Mock Audio' :
              settings?.audioSource === 'microphone' ? '🎤 Microphone' :
+             settings?.audioSource === 'file' && connected ? '📁 Audio File' :
              '❌ No Audio'}
           </div>
         )}
@@ -299,14 +654,53 @@ const App: React.FC = () => {
         {/* Connection Status Indicator (always visible) */}
         <div className="absolute bottom-2 sm:bottom-4 right-2 sm:right-4 bg-black bg-opacity-50 text-white px-2 sm:px-3 py-1 rounded-lg text-xs select-none pointer-events-none">
           <div className="flex items-center gap-2">
-            <div className={`w-2 h-2 rounded-full ${connected ? 'bg-green-500' : 'bg-red-500'}`} />
-            <span>{connected ? 'Connected' : 'Disconnected'}</span>
+            <div className={`w-2 h-2 rounded-full ${connected ? 'bg-green-500' : connectionState === 'connecting' || connectionState === 'backoff' ? 'bg-yellow-500' : 'bg-red-500'}`} />
+            <span>
+              {connected ? 'Connected' :
+               connectionState === 'connecting' ? 'Connecting...' :
+               connectionState === 'backoff' ? `Reconnecting (attempt ${reconnectAttempt})` :
+               connectionState === 'failed' ? 'Connection failed' :
+               'Disconnected'}
+            </span>
+            {connectionState === 'failed' && isServerSource(settings?.audioSource) && (
+              <button
+                className="pointer-events-auto underline text-blue-300"
+                onClick={() => DeskThing.send({ type: 'connect' })}
+              >
+                Retry
+              </button>
+            )}
             {audioFormat && connected && (
               <span className="text-gray-400">
                 | {audioFormat.sampleRate}Hz, {audioFormat.channels}ch
               </span>
             )}
+            {connected && analysisMode === 'server' && (
+              <span className="text-gray-400">| Server FFT</span>
+            )}
           </div>
+          {playbackFile && connected && settings?.audioSource === 'file' && (
+            <div className="text-gray-400 mt-1">
+              📁 {playbackFile}
+            </div>
+          )}
+          {streamStale && connected && isServerSource(settings?.audioSource) && (
+            <div className="text-yellow-400 mt-1">
+              ⚠️ No audio received
+            </div>
+          )}
+          {audioFormatError && connected && isServerSource(settings?.audioSource) && (
+            <div className="text-red-400 mt-1">
+              ⚠️ {audioFormatError}
+            </div>
+          )}
+          {settings?.audioSource === 'microphone' && (
+            <div className={`mt-1 ${microphoneState === 'error' ? 'text-red-400' : 'text-gray-400'}`}>
+              {microphoneState === 'starting' && '🎤 Waiting for microphone permission...'}
+              {microphoneState === 'active' && microphoneInfo && `🎤 ${microphoneInfo.label} | ${microphoneInfo.sampleRate}Hz, ${microphoneInfo.channels}ch`}
+              {microphoneState === 'error' && `⚠️ ${microphoneError}`}
+            </div>
+          )}
         </div>
       </div>
 
@@ -330,8 +724,13 @@ const App: React.FC = () => {
       {/* Left Panel - Visualization Selector */}
       <div className={`${isVisualizationPanelOpen ? 'panel' : ''} left-panel`}>
         <VisualizationSelector
-          currentType={(settings?.visualizationType || 'wave') as any}
+          currentType={settings?.visualizationType || defaultSettings.visualizationType}
           onTypeChange={(type) => handleSettingChange('visualizationType', type)}
+          presets={presets}
+          onSavePreset={handleSavePreset}
+          onApplyPreset={handleApplyPreset}
+          onDeletePreset={handleDeletePreset}
+          onImportPresets={handleImportPresets}
           isOpen={isVisualizationPanelOpen}
           onClose={() => setIsVisualizationPanelOpen(false)}
         />
@@ -342,6 +741,7 @@ const App: React.FC = () => {
         <SettingsPanel
           settings={settings || defaultSettings}
           onSettingChange={handleSettingChange}
+          presets={presets}
           isOpen={isSettingsPanelOpen}
           onClose={() => setIsSettingsPanelOpen(false)}
         />
@@ -0,0 +1,48 @@
+import { StereoAudioData } from './types/visualization';
+import { BeatInfo } from './BeatDetector';
+
+// The most recent analysed audio, ready to draw
+export interface AudioFrame {
+  levels: number[]; // normalized 0-1 levels
+  stereo: StereoAudioData | null;
+  frequencies: number[] | null; // centre frequency (Hz) of each level bin, when known
+  peaks: number[] | null; // peak-hold level of each bin
+  beat: BeatInfo | null;
+  sequence: number; // bumped on every publish so readers can tell frames apart
+  timestamp: number; // performance.now() of the last publish
+}
+
+export type AudioFrameUpdate = Partial<Omit<AudioFrame, 'sequence' | 'timestamp'>>;
+
+const emptyFrame = (): AudioFrame => ({
+  levels: [],
+  stereo: null,
+  frequencies: null,
+  peaks: null,
+  beat: null,
+  sequence: 0,
+  timestamp: 0
+});
+
+// Mutable holder between the audio pipeline and the render loop.
+// Audio messages arrive at 40-100 Hz; keeping them out of React state means
+// publishing a frame never re-renders the app, and the render loop just reads
+// whatever is newest when it draws.
+export class AudioFrameStore {
+  private frame: AudioFrame = emptyFrame();
+
+  public publish(update: AudioFrameUpdate) {
+    Object.assign(this.frame, update);
+    this.frame.sequence++;
+    this.frame.timestamp = performance.now();
+  }
+
+  public getFrame(): Readonly<AudioFrame> {
+    return this.frame;
+  }
+
+  // Drop everything, e.g. when the audio source changes
+  public clear() {
+    this.frame = { ...emptyFrame(), sequence: this.frame.sequence + 1 };
+  }
+}
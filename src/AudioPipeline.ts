@@ -0,0 +1,139 @@
+import { AudioFormatData, AudioStreamData, LegacyAudioStreamData, SpectrumData } from './types/types';
+import { AudioAnalysisMethod } from './types/visualization';
+import { AudioProcessor, FftOptions } from './AudioProcessor';
+import { AudioFrameStore } from './AudioFrameStore';
+import { DynamicsOptions } from './SpectrumDynamics';
+import { BeatListener } from './BeatDetector';
+import { UnsupportedAudioFormatError } from './PcmDecoder';
+import { bandCenters, createBandEdges } from './FrequencyScale';
+import { DecodedAudioFrame } from './AudioTransport';
+
+// Called with null when a format was applied, or with the reason the stream can't be decoded
+export type AudioFormatErrorListener = (message: string | null) => void;
+
+// Everything between an audio source and the frame the renderer draws.
+// Runs in this thread (LocalAudioPipeline) or in the visualization worker.
+export interface AudioPipeline {
+  configure(options: Partial<FftOptions>): void;
+  configureDynamics(options: Partial<DynamicsOptions>): void;
+  setAudioFormat(format: AudioFormatData): void;
+  setSampleRate(sampleRate: number): void;
+  processAudioData(audioStreamData: AudioStreamData | LegacyAudioStreamData, analysisMethod: AudioAnalysisMethod): void;
+  processSpectrum(spectrum: SpectrumData): void;
+  processChannels(channels: Float32Array[], analysisMethod: AudioAnalysisMethod): void;
+  processLevels(levels: number[], rangeDb: number): void;
+  // Forget analysis state and the current frame, e.g. when the source changes
+  reset(): void;
+  onBeat(listener: BeatListener): () => void;
+  onAudioFormatError(listener: AudioFormatErrorListener): () => void;
+}
+
+// Analyses audio on the calling thread and publishes into a frame store
+export class LocalAudioPipeline implements AudioPipeline {
+  private processor: AudioProcessor;
+  private frameStore: AudioFrameStore;
+  private formatErrorListeners = new Set<AudioFormatErrorListener>();
+
+  constructor(processor: AudioProcessor, frameStore: AudioFrameStore) {
+    this.processor = processor;
+    this.frameStore = frameStore;
+  }
+
+  public configure(options: Partial<FftOptions>) {
+    this.processor.configure(options);
+  }
+
+  public configureDynamics(options: Partial<DynamicsOptions>) {
+    this.processor.configureDynamics(options);
+  }
+
+  public setAudioFormat(format: AudioFormatData) {
+    this.guard(() => {
+      this.processor.setAudioFormat(format);
+      this.emitFormatError(null);
+    });
+  }
+
+  public setSampleRate(sampleRate: number) {
+    this.processor.setSampleRate(sampleRate);
+  }
+
+  public processAudioData(audioStreamData: AudioStreamData | LegacyAudioStreamData, analysisMethod: AudioAnalysisMethod) {
+    this.guard(() => this.publishAnalysis(this.processor.processAudioData(audioStreamData, analysisMethod), analysisMethod));
+  }
+
+  // Frames the worker client already unpacked on the main thread
+  public processDecodedFrame(frame: DecodedAudioFrame, analysisMethod: AudioAnalysisMethod) {
+    this.guard(() => this.publishAnalysis(this.processor.processDecodedFrame(frame, analysisMethod), analysisMethod));
+  }
+
+  public processSpectrum(spectrum: SpectrumData) {
+    // Server spectrum bins are log-spaced from minFrequency to Nyquist
+    const frequencies = bandCenters(createBandEdges('log', spectrum.bins.length, spectrum.minFrequency, spectrum.sampleRate / 2));
+
+    // Run the server's bins through the local gain/smoothing stage
+    this.frameStore.publish({
+      levels: this.processor.processLevels(spectrum.bins, spectrum.rangeDb, frequencies),
+      stereo: null,
+      peaks: this.processor.getPeaks(),
+      beat: this.processor.getBeatInfo(),
+      frequencies
+    });
+  }
+
+  public processChannels(channels: Float32Array[], analysisMethod: AudioAnalysisMethod) {
+    this.publishAnalysis(this.processor.processChannels(channels, analysisMethod), analysisMethod);
+  }
+
+  public processLevels(levels: number[], rangeDb: number) {
+    this.frameStore.publish({
+      levels: this.processor.processLevels(levels, rangeDb),
+      peaks: this.processor.getPeaks(),
+      beat: this.processor.getBeatInfo()
+    });
+  }
+
+  public reset() {
+    this.processor.resetBeatDetection();
+    this.frameStore.clear();
+  }
+
+  public onBeat(listener: BeatListener): () => void {
+    return this.processor.onBeat(listener);
+  }
+
+  public onAudioFormatError(listener: AudioFormatErrorListener): () => void {
+    this.formatErrorListeners.add(listener);
+    return () => {
+      this.formatErrorListeners.delete(listener);
+    };
+  }
+
+  private publishAnalysis(levels: number[], analysisMethod: AudioAnalysisMethod) {
+    this.frameStore.publish({
+      levels,
+      stereo: this.processor.getStereoData(),
+      peaks: this.processor.getPeaks('mono', analysisMethod),
+      beat: this.processor.getBeatInfo(),
+      frequencies: analysisMethod === 'fft' ? this.processor.getBandFrequencies() : null
+    });
+  }
+
+  // Unsupported formats are reported to listeners instead of thrown
+  private guard(action: () => void) {
+    try {
+      action();
+    } catch (error) {
+      if (error instanceof UnsupportedAudioFormatError) {
+        console.error('[FlowThing] Unsupported audio format:', error.message);
+        this.emitFormatError(error.message);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  private emitFormatError(message: string | null) {
+    this.formatErrorListeners.forEach(listener => listener(message));
+  }
+}
@@ -1,6 +1,245 @@
+import { AudioFormatData, AudioStreamData, LegacyAudioStreamData } from './types/types';
+import { PcmDecoder } from './PcmDecoder';
+import { DecodedAudioFrame, decodeAudioFrame } from './AudioTransport';
+import { AudioAnalysisMethod, FftWindow, FrequencyScale, StereoAudioData } from './types/visualization';
+import { bandCenters, createBandEdges } from './FrequencyScale';
+import { DynamicsOptions, SpectrumDynamics } from './SpectrumDynamics';
+import { BeatDetector, BeatInfo, BeatListener } from './BeatDetector';
+import { createWindow } from '../shared/fftWindow';
+
+export interface FftOptions {
+  fftSize: number;
+  windowFunction: FftWindow;
+  overlap: number; // fraction of each frame shared with the next (0 - 0.875)
+  frequencyScale: FrequencyScale;
+  minFrequency: number;
+  maxFrequency: number;
+}
+
+// FFT bin range covered by one visualization band
+interface BandRange {
+  start: number;
+  end: number;
+  center: number; // fractional FFT bin, used when the band is narrower than one bin
+}
+
+export const FFT_SIZE_OPTIONS = [256, 512, 1024, 2048, 4096, 8192];
+
+// Holds the most recent fftSize samples of one signal across incoming chunks
+class SampleRing {
+  private buffer: Float32Array;
+  private writeIndex = 0;
+  private filled = 0;
+  // Samples written since the last frame was taken
+  public pending = 0;
+
+  constructor(size: number) {
+    this.buffer = new Float32Array(size);
+  }
+
+  public get size(): number {
+    return this.buffer.length;
+  }
+
+  public isFull(): boolean {
+    return this.filled >= this.buffer.length;
+  }
+
+  // Samples still needed before the next frame of `hopSize` is due
+  public samplesUntilFrame(hopSize: number): number {
+    return this.isFull()
+      ? Math.max(1, hopSize - this.pending)
+      : this.buffer.length - this.filled;
+  }
+
+  public write(samples: Float32Array, start: number, end: number) {
+    for (let i = start; i < end; i++) {
+      this.buffer[this.writeIndex] = samples[i];
+      this.writeIndex = (this.writeIndex + 1) % this.buffer.length;
+    }
+    const count = end - start;
+    this.filled = Math.min(this.buffer.length, this.filled + count);
+    this.pending += count;
+  }
+
+  // Copy the buffer into `out` oldest-first
+  public read(out: Float32Array) {
+    const size = this.buffer.length;
+    for (let i = 0; i < size; i++) {
+      out[i] = this.buffer[(this.writeIndex + i) % size];
+    }
+  }
+}
+
 export class AudioProcessor {
   private fftSize = 256;
   private numBins = 128;
+  private overlap = 0.5;
+  private windowFunction: FftWindow = 'hann';
+  private frequencyScale: FrequencyScale = 'log';
+  private minFrequency = 20;
+  private maxFrequency = 20000;
+  private sampleRate = 48000;
+  private bandEdges: number[] = [];
+  private bandRanges: BandRange[] = [];
+  private window: Float32Array = createWindow('hann', 256);
+  // Converts FFT magnitudes to amplitudes (1.0 = full-scale sine) for any size and window
+  private magnitudeScale = 1;
+  private dynamicsOptions: Partial<DynamicsOptions> = {};
+  private dynamics = new Map<string, SpectrumDynamics>();
+  private cosTable = new Float32Array(0);
+  private sinTable = new Float32Array(0);
+  private rings = new Map<string, SampleRing>();
+  private lastBins = new Map<string, number[]>();
+  private decoder = new PcmDecoder();
+  private scopeSize = 256;
+  private stereoData: StereoAudioData | null = null;
+  private beatDetector = new BeatDetector();
+
+  constructor(options: Partial<FftOptions> = {}) {
+    this.configure(options);
+  }
+
+  // Change FFT size, window and overlap. Buffered audio is dropped if the size changes.
+  public configure(options: Partial<FftOptions>): void {
+    const requestedSize = options.fftSize ?? this.fftSize;
+    const fftSize = FFT_SIZE_OPTIONS.includes(requestedSize) ? requestedSize : 256;
+    const windowFunction = options.windowFunction ?? this.windowFunction;
+    this.overlap = Math.max(0, Math.min(0.875, options.overlap ?? this.overlap));
+
+    const frequencyScale = options.frequencyScale ?? this.frequencyScale;
+    const minFrequency = options.minFrequency ?? this.minFrequency;
+    const maxFrequency = options.maxFrequency ?? this.maxFrequency;
+    const bandsChanged = frequencyScale !== this.frequencyScale ||
+      minFrequency !== this.minFrequency ||
+      maxFrequency !== this.maxFrequency ||
+      fftSize !== this.fftSize ||
+      this.bandRanges.length === 0;
+
+    this.frequencyScale = frequencyScale;
+    this.minFrequency = minFrequency;
+    this.maxFrequency = maxFrequency;
+
+    if (fftSize === this.fftSize && windowFunction === this.windowFunction && this.cosTable.length > 0) {
+      if (bandsChanged) this.rebuildBands();
+      return;
+    }
+
+    if (fftSize !== this.fftSize) {
+      this.rings.clear();
+      this.lastBins.clear();
+    }
+
+    this.fftSize = fftSize;
+    this.windowFunction = windowFunction;
+    this.window = createWindow(windowFunction, fftSize);
+    this.magnitudeScale = 2 / this.window.reduce((sum, value) => sum + value, 0);
+
+    // Twiddle factors for the FFT
+    this.cosTable = new Float32Array(fftSize / 2);
+    this.sinTable = new Float32Array(fftSize / 2);
+    for (let i = 0; i < fftSize / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / fftSize);
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / fftSize);
+    }
+
+    this.rebuildBands();
+
+    console.log(`[FlowThing] FFT configured: ${fftSize} points, ${windowFunction} window, ${Math.round(this.overlap * 100)}% overlap`);
+  }
+
+  // Map visualization bands (in Hz) onto FFT bins for the current sample rate
+  private rebuildBands(): void {
+    const nyquist = this.sampleRate / 2;
+    const maxHz = Math.min(this.maxFrequency, nyquist);
+    const minHz = Math.min(this.minFrequency, maxHz / 2);
+    const hzPerBin = this.sampleRate / this.fftSize;
+    const maxFreqBin = this.fftSize / 2;
+
+    this.bandEdges = createBandEdges(this.frequencyScale, this.numBins, minHz, maxHz);
+    this.bandRanges = [];
+
+    for (let i = 0; i < this.bandEdges.length - 1; i++) {
+      const lowBin = this.bandEdges[i] / hzPerBin;
+      const highBin = this.bandEdges[i + 1] / hzPerBin;
+      this.bandRanges.push({
+        start: Math.min(maxFreqBin - 1, Math.ceil(lowBin)),
+        end: Math.min(maxFreqBin, Math.ceil(highBin)),
+        center: Math.min(maxFreqBin - 1, Math.sqrt(Math.max(lowBin, 1e-6) * highBin))
+      });
+    }
+
+    // Cached bins have a different band count now
+    this.lastBins.clear();
+  }
+
+  // Update dB range, gain, AGC, smoothing and peak-hold for every signal
+  public configureDynamics(options: Partial<DynamicsOptions>): void {
+    this.dynamicsOptions = { ...this.dynamicsOptions, ...options };
+    this.dynamics.forEach(stage => stage.configure(this.dynamicsOptions));
+  }
+
+  private getDynamics(key: string): SpectrumDynamics {
+    let stage = this.dynamics.get(key);
+    if (!stage) {
+      stage = new SpectrumDynamics(this.dynamicsOptions);
+      this.dynamics.set(key, stage);
+    }
+    return stage;
+  }
+
+  // Peak-hold values for the last processed frame of a signal
+  public getPeaks(channel: string = 'mono', analysisMethod: AudioAnalysisMethod = 'fft'): number[] {
+    const key = analysisMethod === 'rms' ? `rms:${channel}` : channel;
+    return this.dynamics.get(key)?.getPeaks() ?? [];
+  }
+
+  // Run already-normalized levels (server spectrum frames, demo data) through
+  // the same gain and smoothing stage. `rangeDb` is the span 0-1 represents.
+  public processLevels(levels: number[], rangeDb: number, frequencies: number[] | null = null): number[] {
+    const amplitudes = levels.map(level => Math.pow(10, ((level - 1) * rangeDb) / 20));
+    const bins = this.getDynamics('mono').process(amplitudes);
+    this.beatDetector.process(bins, frequencies);
+    return bins;
+  }
+
+  // Beat, onset and tempo state as of the last processed frame
+  public getBeatInfo(): BeatInfo {
+    return this.beatDetector.getInfo();
+  }
+
+  // Subscribe to beat events. Returns an unsubscribe function.
+  public onBeat(listener: BeatListener): () => void {
+    return this.beatDetector.onBeat(listener);
+  }
+
+  // Forget onset and tempo history, e.g. when the audio source changes
+  public resetBeatDetection(): void {
+    this.beatDetector.reset();
+  }
+
+  // Centre frequency (Hz) of each FFT band, for labelling
+  public getBandFrequencies(): number[] {
+    return bandCenters(this.bandEdges);
+  }
+
+  // Update the decoder from a negotiated audio_format message.
+  // Throws UnsupportedAudioFormatError if the format can't be decoded.
+  public setAudioFormat(format: AudioFormatData): void {
+    this.decoder = PcmDecoder.fromFormat(format);
+    const layout = this.decoder.getLayout();
+    this.setSampleRate(format.sampleRate);
+
+    console.log(`[FlowThing] Decoding ${layout.bitsPerSample}-bit ${layout.sampleType} PCM, ${layout.channels}ch, ${layout.littleEndian ? 'little' : 'big'}-endian`);
+  }
+
+  // Sample rate of audio that doesn't come through the decoder (e.g. the microphone)
+  public setSampleRate(sampleRate: number): void {
+    if (sampleRate > 0 && sampleRate !== this.sampleRate) {
+      this.sampleRate = sampleRate;
+      this.rebuildBands();
+    }
+  }
 
   // FFT implementation (Cooley-Tukey radix-2 DIT)
   private fft(real: Float32Array, imag: Float32Array): void {
@@ -22,16 +261,17 @@ export class AudioProcessor {
       j += k;
     }
     
-    // Cooley-Tukey FFT
+    // Cooley-Tukey FFT using the precomputed twiddle tables
     for (let size = 2; size <= n; size *= 2) {
       const halfSize = size / 2;
-      const tableStep = Math.PI / halfSize;
+      const tableStep = n / size;
       
       for (let i = 0; i < n; i += size) {
-        for (let j = i, k = 0; j < i + halfSize; j++, k++) {
-          const angle = k * tableStep;
-          const tpre = real[j + halfSize] * Math.cos(angle) + imag[j + halfSize] * Math.sin(angle);
-          const tpim = -real[j + halfSize] * Math.sin(angle) + imag[j + halfSize] * Math.cos(angle);
+        for (let j = i, k = 0; j < i + halfSize; j++, k += tableStep) {
+          const cos = this.cosTable[k];
+          const sin = this.sinTable[k];
+          const tpre = real[j + halfSize] * cos + imag[j + halfSize] * sin;
+          const tpim = -real[j + halfSize] * sin + imag[j + halfSize] * cos;
           
           real[j + halfSize] = real[j] - tpre;
           imag[j + halfSize] = imag[j] - tpim;
@@ -42,60 +282,101 @@ export class AudioProcessor {
     }
   }
 
-  // Process audio data using FFT
-  public processAudioDataFFT(float32Array: Float32Array): number[] {
-    // Take the first fftSize samples (or pad if needed)
-    const inputData = new Float32Array(this.fftSize);
-    for (let i = 0; i < this.fftSize; i++) {
-      inputData[i] = i < float32Array.length ? float32Array[i] : 0;
-    }
-
-    // Apply Hanning window to reduce spectral leakage
+  // Window and transform one frame, returning its magnitude spectrum
+  private computeMagnitudes(frame: Float32Array): Float32Array {
+    const real = new Float32Array(this.fftSize);
+    const imag = new Float32Array(this.fftSize);
+    
     for (let i = 0; i < this.fftSize; i++) {
-      const windowValue = 0.5 * (1 - Math.cos(2 * Math.PI * i / this.fftSize));
-      inputData[i] *= windowValue;
+      real[i] = frame[i] * this.window[i];
     }
-
-    // Perform FFT
-    const real = new Float32Array(inputData);
-    const imag = new Float32Array(this.fftSize).fill(0);
     
     this.fft(real, imag);
-
-    // Calculate magnitude spectrum
-    const bins: number[] = [];
-    const magnitudes = new Float32Array(this.fftSize / 2);
     
+    const magnitudes = new Float32Array(this.fftSize / 2);
     for (let i = 0; i < this.fftSize / 2; i++) {
-      magnitudes[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]);
+      magnitudes[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]) * this.magnitudeScale;
     }
-
-    // Group FFT bins into visualization bins (logarithmic spacing)
-    const maxFreqBin = this.fftSize / 2;
     
-    for (let i = 0; i < this.numBins; i++) {
-      const binStart = Math.floor(Math.pow(i / this.numBins, 2) * maxFreqBin);
-      const binEnd = Math.floor(Math.pow((i + 1) / this.numBins, 2) * maxFreqBin);
-      
+    return magnitudes;
+  }
+
+  // Process audio data using FFT. Samples are buffered per channel so
+  // overlapping frames can span incoming chunks.
+  public processAudioDataFFT(float32Array: Float32Array, channel: string = 'mono'): number[] {
+    let ring = this.rings.get(channel);
+    if (!ring || ring.size !== this.fftSize) {
+      ring = new SampleRing(this.fftSize);
+      this.rings.set(channel, ring);
+    }
+
+    const hopSize = Math.max(1, Math.round(this.fftSize * (1 - this.overlap)));
+    const frame = new Float32Array(this.fftSize);
+    const magnitudeSum = new Float32Array(this.fftSize / 2);
+    let frameCount = 0;
+    let offset = 0;
+
+    // Feed the chunk in hop-sized pieces, taking a frame at each hop
+    while (offset < float32Array.length) {
+      const take = Math.min(float32Array.length - offset, ring.samplesUntilFrame(hopSize));
+      ring.write(float32Array, offset, offset + take);
+      offset += take;
+
+      if (ring.pending >= hopSize && ring.isFull()) {
+        ring.read(frame);
+        const magnitudes = this.computeMagnitudes(frame);
+        for (let i = 0; i < magnitudes.length; i++) {
+          magnitudeSum[i] += magnitudes[i];
+        }
+        frameCount++;
+        ring.pending = 0;
+      }
+    }
+
+    // Not enough audio yet for a new frame, keep showing the last one
+    if (frameCount === 0) {
+      return this.lastBins.get(channel) ?? new Array(this.bandRanges.length).fill(0);
+    }
+
+    // Average all frames completed in this chunk
+    const magnitudes = magnitudeSum.map(value => value / frameCount);
+
+    const amplitudes: number[] = [];
+
+    // Group FFT bins into visualization bands on the selected frequency scale
+    for (const band of this.bandRanges) {
       let sum = 0;
       let count = 0;
-      for (let j = binStart; j < binEnd && j < maxFreqBin; j++) {
+      for (let j = band.start; j < band.end; j++) {
         sum += magnitudes[j];
         count++;
       }
       
-      const average = count > 0 ? sum / count : 0;
-      const normalized = Math.min(1, average * 4);
-      bins.push(normalized);
+      let average: number;
+      if (count > 0) {
+        average = sum / count;
+      } else {
+        // Band is narrower than one FFT bin, interpolate at its centre
+        const lower = Math.floor(band.center);
+        const upper = Math.min(lower + 1, magnitudes.length - 1);
+        const fraction = band.center - lower;
+        average = magnitudes[lower] * (1 - fraction) + magnitudes[upper] * fraction;
+      }
+      
+      amplitudes.push(average);
     }
 
+    // dB scaling, gain, AGC and smoothing
+    const bins = this.getDynamics(channel).process(amplitudes);
+
+    this.lastBins.set(channel, bins);
     return bins;
   }
 
   // Process audio data using RMS
-  public processAudioDataRMS(float32Array: Float32Array): number[] {
+  public processAudioDataRMS(float32Array: Float32Array, channel: string = 'mono'): number[] {
     const samplesPerBin = Math.floor(float32Array.length / this.numBins);
-    const bins: number[] = [];
+    const amplitudes: number[] = [];
 
     for (let i = 0; i < this.numBins; i++) {
       const startIdx = i * samplesPerBin;
@@ -108,35 +389,140 @@ export class AudioProcessor {
       }
       const rms = Math.sqrt(sum / (endIdx - startIdx));
       
-      // Normalize to 0-1 range (multiply by 2 for more visible amplitude)
-      bins.push(Math.min(1, rms * 2));
+      // Scale so a full-scale sine reads as 1.0, like the FFT path
+      amplitudes.push(rms * Math.SQRT2);
     }
 
-    return bins;
+    // Keep RMS state separate so switching methods doesn't smear levels
+    return this.getDynamics(`rms:${channel}`).process(amplitudes);
+  }
+
+  private analyze(samples: Float32Array, analysisMethod: AudioAnalysisMethod, channel: string = 'mono'): number[] {
+    return analysisMethod === 'fft'
+      ? this.processAudioDataFFT(samples, channel)
+      : this.processAudioDataRMS(samples, channel);
+  }
+
+  // Split interleaved samples into one array per channel
+  private deinterleave(samples: Float32Array, channels: number): Float32Array[] {
+    if (channels <= 1) {
+      return [samples];
+    }
+
+    const frames = Math.floor(samples.length / channels);
+    const result = Array.from({ length: channels }, () => new Float32Array(frames));
+
+    for (let frame = 0; frame < frames; frame++) {
+      const offset = frame * channels;
+      for (let ch = 0; ch < channels; ch++) {
+        result[ch][frame] = samples[offset + ch];
+      }
+    }
+
+    return result;
+  }
+
+  // Average all channels down to a single mono signal
+  private downmix(channelData: Float32Array[]): Float32Array {
+    if (channelData.length === 1) {
+      return channelData[0];
+    }
+
+    const frames = channelData[0].length;
+    const mono = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) {
+      let sum = 0;
+      for (let ch = 0; ch < channelData.length; ch++) {
+        sum += channelData[ch][i];
+      }
+      mono[i] = sum / channelData.length;
+    }
+
+    return mono;
+  }
+
+  // Per-channel spectra, mid/side, correlation and balance for a stereo pair
+  private analyzeStereo(left: Float32Array, right: Float32Array, analysisMethod: AudioAnalysisMethod): StereoAudioData {
+    const frames = Math.min(left.length, right.length);
+    const mid = new Float32Array(frames);
+    const side = new Float32Array(frames);
+
+    let sumLR = 0;
+    let sumLL = 0;
+    let sumRR = 0;
+
+    for (let i = 0; i < frames; i++) {
+      const l = left[i];
+      const r = right[i];
+      mid[i] = (l + r) / 2;
+      side[i] = (l - r) / 2;
+      sumLR += l * r;
+      sumLL += l * l;
+      sumRR += r * r;
+    }
+
+    // Pearson-style correlation: +1 mono, 0 wide/uncorrelated, -1 out of phase
+    const energy = Math.sqrt(sumLL * sumRR);
+    const correlation = energy > 1e-12 ? sumLR / energy : 0;
+
+    // Balance from channel RMS: -1 fully left, +1 fully right
+    const rmsL = Math.sqrt(sumLL / Math.max(1, frames));
+    const rmsR = Math.sqrt(sumRR / Math.max(1, frames));
+    const balance = rmsL + rmsR > 1e-9 ? (rmsR - rmsL) / (rmsR + rmsL) : 0;
+
+    // Keep the most recent samples for vectorscope drawing
+    const scopeStart = Math.max(0, frames - this.scopeSize);
+
+    return {
+      left: this.analyze(left, analysisMethod, 'left'),
+      right: this.analyze(right, analysisMethod, 'right'),
+      mid: this.analyze(mid, analysisMethod, 'mid'),
+      side: this.analyze(side, analysisMethod, 'side'),
+      correlation,
+      balance,
+      scope: {
+        left: Array.from(left.subarray(scopeStart, frames)),
+        right: Array.from(right.subarray(scopeStart, frames))
+      }
+    };
+  }
+
+  // Latest stereo analysis, or null when the stream is mono
+  public getStereoData(): StereoAudioData | null {
+    return this.stereoData;
   }
 
   // Process audio data from WebSocket
-  public processAudioData(audioStreamData: { data: number[] }, analysisMethod: 'fft' | 'rms' = 'fft'): number[] {
+  public processAudioData(audioStreamData: AudioStreamData | LegacyAudioStreamData, analysisMethod: AudioAnalysisMethod = 'fft'): number[] {
     if (!audioStreamData.data || audioStreamData.data.length === 0) {
       console.warn('[FlowThing] No audio data to process');
       return [];
     }
 
-    console.log(`[FlowThing] Processing ${audioStreamData.data.length} bytes of audio data`);
+    // Unpack the transport, then decode raw bytes according to the negotiated format
+    return this.processDecodedFrame(decodeAudioFrame(audioStreamData), analysisMethod);
+  }
 
-    // Convert data to Float32Array (32-bit float audio)
-    const buffer = new ArrayBuffer(audioStreamData.data.length);
-    const view = new Uint8Array(buffer);
-    audioStreamData.data.forEach((byte, i) => (view[i] = byte));
-    const float32Array = new Float32Array(buffer);
+  // Process a frame already unpacked from the transport (e.g. posted to a worker as a buffer)
+  public processDecodedFrame(frame: DecodedAudioFrame, analysisMethod: AudioAnalysisMethod = 'fft'): number[] {
+    const float32Array = frame.samples ?? this.decoder.decode(frame.bytes);
+    const channelData = this.deinterleave(float32Array, this.decoder.getLayout().channels);
 
-    console.log(`[FlowThing] Float32Array has ${float32Array.length} samples`);
-    console.log(`[FlowThing] Using ${analysisMethod.toUpperCase()} analysis method`);
-    
-    const bins = analysisMethod === 'fft' 
-      ? this.processAudioDataFFT(float32Array)
-      : this.processAudioDataRMS(float32Array);
+    return this.processChannels(channelData, analysisMethod);
+  }
+
+  // Analyze already-decoded samples, one array per channel
+  public processChannels(channelData: Float32Array[], analysisMethod: AudioAnalysisMethod = 'fft'): number[] {
+    if (channelData.length === 0 || channelData[0].length === 0) {
+      return [];
+    }
+
+    this.stereoData = channelData.length >= 2
+      ? this.analyzeStereo(channelData[0], channelData[1], analysisMethod)
+      : null;
 
+    const bins = this.analyze(this.downmix(channelData), analysisMethod);
+    this.beatDetector.process(bins, analysisMethod === 'fft' ? this.getBandFrequencies() : null);
     return bins;
   }
 }
\ No newline at end of file
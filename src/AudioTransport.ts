@@ -0,0 +1,45 @@
+import { AudioStreamData, LegacyAudioStreamData } from './types/types';
+import { UnsupportedAudioFormatError } from './PcmDecoder';
+
+// Highest audio transport version this client understands.
+// Sent to the server with status requests so it can pick the encoding.
+export const AUDIO_TRANSPORT_VERSION = 2;
+
+export interface DecodedAudioFrame {
+  bytes: Uint8Array;
+  // Set when the payload is already normalized float32 and can skip the PCM decoder
+  samples?: Float32Array;
+}
+
+// Decode a base64 string straight into a byte array
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const isLittleEndianPlatform = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+// Unpack an audio_data payload regardless of transport version
+export const decodeAudioFrame = (payload: AudioStreamData | LegacyAudioStreamData): DecodedAudioFrame => {
+  if (payload.version === undefined) {
+    // v1: JSON array of bytes
+    return { bytes: Uint8Array.from(payload.data) };
+  }
+
+  if (payload.version > AUDIO_TRANSPORT_VERSION) {
+    throw new UnsupportedAudioFormatError(`Unsupported audio transport version v${payload.version}`);
+  }
+
+  const bytes = base64ToBytes(payload.data);
+
+  if (payload.encoding === 'f32le' && isLittleEndianPlatform) {
+    // Fresh buffer from base64ToBytes is always 4-byte aligned
+    return { bytes, samples: new Float32Array(bytes.buffer, 0, Math.floor(bytes.byteLength / 4)) };
+  }
+
+  return { bytes };
+};
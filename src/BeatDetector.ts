@@ -0,0 +1,217 @@
+export interface BeatInfo {
+  isBeat: boolean; // a beat landed in the latest frame
+  isOnset: boolean; // any onset (transient) landed in the latest frame
+  strength: number; // 0-1, how far the last beat cleared its threshold
+  bpm: number | null;
+  confidence: number; // 0-1, how dominant the winning tempo is
+  beatCount: number; // increments on every beat, handy for spotting new beats
+  lastBeatTime: number; // performance.now() of the last beat, 0 if none yet
+}
+
+export type BeatListener = (info: BeatInfo) => void;
+
+interface TimedValue {
+  time: number;
+  value: number;
+}
+
+const HISTORY_MS = 1000; // window for adaptive thresholds
+const TEMPO_HISTORY_MS = 8000; // window of onsets used for tempo estimation
+const MIN_BEAT_INTERVAL_MS = 250; // caps detection at 240 BPM
+const MIN_ONSET_INTERVAL_MS = 100;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const BASS_CUTOFF_HZ = 150;
+
+const mean = (values: TimedValue[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, entry) => sum + entry.value, 0) / values.length;
+
+const standardDeviation = (values: TimedValue[], average: number) =>
+  values.length === 0 ? 0 : Math.sqrt(values.reduce((sum, entry) => sum + (entry.value - average) ** 2, 0) / values.length);
+
+// Spectral-flux onset detection with bass-energy beat tracking and
+// inter-onset-interval tempo estimation. Works on normalized band levels.
+export class BeatDetector {
+  private previous: number[] = [];
+  private fluxHistory: TimedValue[] = [];
+  private bassHistory: TimedValue[] = [];
+  private onsetTimes: number[] = [];
+  private lastOnsetTime = 0;
+  private smoothedBpm: number | null = null;
+  private listeners = new Set<BeatListener>();
+  private info: BeatInfo = {
+    isBeat: false,
+    isOnset: false,
+    strength: 0,
+    bpm: null,
+    confidence: 0,
+    beatCount: 0,
+    lastBeatTime: 0
+  };
+
+  // Subscribe to beat events. Returns an unsubscribe function.
+  public onBeat(listener: BeatListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public getInfo(): BeatInfo {
+    return this.info;
+  }
+
+  // Number of leading bands that count as bass
+  private bassBandCount(levels: number[], frequencies: number[] | null): number {
+    if (frequencies && frequencies.length === levels.length) {
+      const count = frequencies.findIndex(hz => hz > BASS_CUTOFF_HZ);
+      return Math.max(1, count === -1 ? levels.length : count);
+    }
+    return Math.max(1, Math.floor(levels.length / 8));
+  }
+
+  private prune(history: TimedValue[], now: number) {
+    while (history.length > 0 && history[0].time < now - HISTORY_MS) {
+      history.shift();
+    }
+  }
+
+  // Fold an interval into the MIN_BPM-MAX_BPM range
+  private intervalToBpm(intervalMs: number): number | null {
+    if (intervalMs <= 0) return null;
+    let bpm = 60000 / intervalMs;
+    while (bpm < MIN_BPM) bpm *= 2;
+    while (bpm > MAX_BPM) bpm /= 2;
+    return bpm;
+  }
+
+  // Histogram of folded inter-onset intervals; the strongest bucket wins
+  private estimateTempo(): { bpm: number | null; confidence: number } {
+    const histogram = new Float32Array(MAX_BPM - MIN_BPM + 1);
+    let total = 0;
+
+    for (let i = 0; i < this.onsetTimes.length; i++) {
+      // Compare each onset with the next few, not just its neighbour,
+      // so off-beat onsets don't hide the pulse
+      for (let j = i + 1; j < Math.min(this.onsetTimes.length, i + 5); j++) {
+        const bpm = this.intervalToBpm(this.onsetTimes[j] - this.onsetTimes[i]);
+        if (bpm === null) continue;
+        const weight = 1 / (j - i);
+        const bucket = Math.round(bpm) - MIN_BPM;
+        // Spread into neighbouring buckets to absorb timing jitter
+        for (let k = -2; k <= 2; k++) {
+          const index = bucket + k;
+          if (index < 0 || index >= histogram.length) continue;
+          const spread = weight * Math.exp(-(k * k) / 2);
+          histogram[index] += spread;
+          total += spread;
+        }
+      }
+    }
+
+    if (total === 0) return { bpm: null, confidence: 0 };
+
+    let best = 0;
+    for (let i = 1; i < histogram.length; i++) {
+      if (histogram[i] > histogram[best]) best = i;
+    }
+
+    // Share of the histogram within +/-2 BPM of the winner
+    let near = 0;
+    for (let k = -2; k <= 2; k++) {
+      near += histogram[best + k] ?? 0;
+    }
+
+    return { bpm: best + MIN_BPM, confidence: Math.min(1, near / total) };
+  }
+
+  // Analyze one frame of band levels (0-1)
+  public process(levels: number[], frequencies: number[] | null = null, now: number = performance.now()): BeatInfo {
+    if (levels.length === 0) {
+      return this.info;
+    }
+
+    // Spectral flux: summed positive change since the previous frame
+    let flux = 0;
+    if (this.previous.length === levels.length) {
+      for (let i = 0; i < levels.length; i++) {
+        const rise = levels[i] - this.previous[i];
+        if (rise > 0) flux += rise;
+      }
+      flux /= levels.length;
+    }
+    this.previous = levels.slice();
+
+    const bassCount = this.bassBandCount(levels, frequencies);
+    let bass = 0;
+    for (let i = 0; i < bassCount; i++) {
+      bass += levels[i];
+    }
+    bass /= bassCount;
+
+    this.prune(this.fluxHistory, now);
+    this.prune(this.bassHistory, now);
+
+    // Adaptive thresholds from the last second
+    const fluxMean = mean(this.fluxHistory);
+    const fluxThreshold = fluxMean + 1.5 * standardDeviation(this.fluxHistory, fluxMean);
+    const bassMean = mean(this.bassHistory);
+    const hasHistory = this.fluxHistory.length >= 5;
+
+    this.fluxHistory.push({ time: now, value: flux });
+    this.bassHistory.push({ time: now, value: bass });
+
+    const isOnset = hasHistory &&
+      flux > fluxThreshold &&
+      flux > 0.01 &&
+      now - this.lastOnsetTime > MIN_ONSET_INTERVAL_MS;
+
+    if (isOnset) {
+      this.lastOnsetTime = now;
+      this.onsetTimes.push(now);
+      while (this.onsetTimes.length > 0 && this.onsetTimes[0] < now - TEMPO_HISTORY_MS) {
+        this.onsetTimes.shift();
+      }
+    }
+
+    // A beat is an onset carried by a jump in bass energy
+    const bassRatio = bassMean > 0.01 ? bass / bassMean : 0;
+    const isBeat = isOnset &&
+      bassRatio > 1.2 &&
+      now - this.info.lastBeatTime > MIN_BEAT_INTERVAL_MS;
+
+    const tempo = this.estimateTempo();
+    if (tempo.bpm !== null) {
+      // Ease towards the new estimate so the readout doesn't flicker
+      this.smoothedBpm = this.smoothedBpm === null
+        ? tempo.bpm
+        : this.smoothedBpm + (tempo.bpm - this.smoothedBpm) * 0.1;
+    }
+
+    this.info = {
+      isBeat,
+      isOnset,
+      strength: isBeat ? Math.min(1, (bassRatio - 1) * 2) : this.info.strength,
+      bpm: this.smoothedBpm === null ? null : Math.round(this.smoothedBpm),
+      confidence: tempo.confidence,
+      beatCount: this.info.beatCount + (isBeat ? 1 : 0),
+      lastBeatTime: isBeat ? now : this.info.lastBeatTime
+    };
+
+    if (isBeat) {
+      this.listeners.forEach(listener => listener(this.info));
+    }
+
+    return this.info;
+  }
+
+  public reset() {
+    this.previous = [];
+    this.fluxHistory = [];
+    this.bassHistory = [];
+    this.onsetTimes = [];
+    this.lastOnsetTime = 0;
+    this.smoothedBpm = null;
+    this.info = { ...this.info, isBeat: false, isOnset: false, bpm: null, confidence: 0 };
+  }
+}
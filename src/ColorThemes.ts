@@ -0,0 +1,118 @@
+import { ColorMapping, ColorTheme, FlowThingSettings } from './types/visualization';
+
+// The classic theme's colors come from the backgroundColor/primaryColor settings
+export const CLASSIC_THEME_ID = 'classic';
+
+// Gradients with more stops than this are trimmed on import
+export const MAX_GRADIENT_STOPS = 8;
+
+const RAINBOW = ['#ff0000', '#ffff00', '#00ff00', '#00ffff', '#0000ff', '#ff00ff'];
+
+export const BUILTIN_THEMES: ColorTheme[] = [
+  { id: CLASSIC_THEME_ID, name: 'Classic', background: '#000000', primary: '#667eea', gradient: RAINBOW, mapping: 'single', hueCycle: 0 },
+  { id: 'spectrum', name: 'Spectrum', background: '#000000', primary: '#ffffff', gradient: RAINBOW, mapping: 'frequency', hueCycle: 0 },
+  { id: 'vu', name: 'VU Meter', background: '#000000', primary: '#00ff00', gradient: ['#00ff00', '#ffff00', '#ff0000'], mapping: 'level', hueCycle: 0 },
+  { id: 'fire', name: 'Fire', background: '#0a0200', primary: '#ff8800', gradient: ['#5a0000', '#ff4400', '#ff8800', '#ffd966'], mapping: 'level', hueCycle: 0 },
+  { id: 'ocean', name: 'Ocean', background: '#020b1a', primary: '#38b2ac', gradient: ['#0b3d91', '#1e88e5', '#38b2ac', '#b2f5ea'], mapping: 'frequency', hueCycle: 0 },
+  { id: 'sunset', name: 'Sunset', background: '#1a0b1e', primary: '#ed64a6', gradient: ['#5b247a', '#ed64a6', '#f6866a', '#ecc94b'], mapping: 'frequency', hueCycle: 0 },
+  { id: 'forest', name: 'Forest', background: '#0f1419', primary: '#48bb78', gradient: ['#1c4532', '#2f855a', '#48bb78', '#c6f6d5'], mapping: 'level', hueCycle: 0 },
+  { id: 'neon', name: 'Neon', background: '#0d0221', primary: '#ff2a6d', gradient: ['#ff2a6d', '#d300c5', '#05d9e8', '#01ff89'], mapping: 'frequency', hueCycle: 20 },
+  { id: 'mono', name: 'Monochrome', background: '#000000', primary: '#e2e8f0', gradient: ['#2d3748', '#a0aec0', '#ffffff'], mapping: 'level', hueCycle: 0 }
+];
+
+export class ThemeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThemeImportError';
+  }
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const MAPPINGS: ColorMapping[] = ['single', 'frequency', 'level'];
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR.test(value);
+
+// Built-in themes plus the user's own, classic first
+export const getThemes = (settings: FlowThingSettings): ColorTheme[] => {
+  return [...BUILTIN_THEMES, ...(settings.customThemes ?? [])];
+};
+
+// The theme the visualizations should draw with. Unknown ids fall back to classic.
+export const resolveTheme = (settings: FlowThingSettings): ColorTheme => {
+  const theme = getThemes(settings).find(candidate => candidate.id === settings.themeId);
+  if (theme && theme.id !== CLASSIC_THEME_ID) return theme;
+
+  return {
+    ...BUILTIN_THEMES[0],
+    background: settings.backgroundColor || '#000000',
+    primary: settings.primaryColor || BUILTIN_THEMES[0].primary
+  };
+};
+
+export const isBuiltinTheme = (id: string): boolean => BUILTIN_THEMES.some(theme => theme.id === id);
+
+export const createThemeId = (): string => `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Editable copy of a theme under a new id
+export const copyTheme = (theme: ColorTheme, name: string = `${theme.name} Copy`): ColorTheme => ({
+  ...theme,
+  id: createThemeId(),
+  name,
+  gradient: [...theme.gradient]
+});
+
+// Check one imported theme, filling in what can be defaulted
+export const parseTheme = (value: unknown, index: number = 0): ColorTheme => {
+  if (!value || typeof value !== 'object') {
+    throw new ThemeImportError(`Theme ${index + 1} is not an object`);
+  }
+
+  const raw = value as Record<string, unknown>;
+  const label = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : `Imported ${index + 1}`;
+
+  if (!isHexColor(raw.background)) {
+    throw new ThemeImportError(`"${label}": background must be a #rrggbb color`);
+  }
+  if (!Array.isArray(raw.gradient) || raw.gradient.length === 0 || !raw.gradient.every(isHexColor)) {
+    throw new ThemeImportError(`"${label}": gradient must be a list of #rrggbb colors`);
+  }
+
+  const gradient = (raw.gradient as string[]).slice(0, MAX_GRADIENT_STOPS);
+  const mapping = MAPPINGS.includes(raw.mapping as ColorMapping) ? raw.mapping as ColorMapping : 'frequency';
+  const hueCycle = typeof raw.hueCycle === 'number' && isFinite(raw.hueCycle) ? Math.max(0, Math.min(360, raw.hueCycle)) : 0;
+
+  return {
+    // Imports always get a fresh id so they never replace a built-in or existing theme
+    id: createThemeId(),
+    name: label,
+    background: raw.background,
+    primary: isHexColor(raw.primary) ? raw.primary : gradient[Math.floor(gradient.length / 2)],
+    gradient,
+    mapping,
+    hueCycle
+  };
+};
+
+// Themes from exported JSON: a single theme or a list of them
+export const parseThemes = (json: string): ColorTheme[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ThemeImportError('Not valid JSON');
+  }
+
+  const list = Array.isArray(data) ? data : [data];
+  if (list.length === 0) {
+    throw new ThemeImportError('No themes found');
+  }
+  return list.map(parseTheme);
+};
+
+// JSON that parseThemes reads back; ids are left out since imports get new ones
+export const exportThemes = (themes: ColorTheme[]): string => {
+  const plain = themes.map(({ name, background, primary, gradient, mapping, hueCycle }) => ({
+    name, background, primary, gradient, mapping, hueCycle
+  }));
+  return JSON.stringify(plain.length === 1 ? plain[0] : plain, null, 2);
+};
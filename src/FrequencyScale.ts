@@ -0,0 +1,92 @@
+import { FrequencyScale } from './types/visualization';
+
+// Mel scale (O'Shaughnessy)
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+// Bark scale (Traunmüller)
+const hzToBark = (hz: number) => (26.81 * hz) / (1960 + hz) - 0.53;
+const barkToHz = (bark: number) => (1960 * (bark + 0.53)) / (26.28 - bark);
+
+// Fractional-octave band edges centred on the 1 kHz reference (IEC 61260 style)
+const octaveBandEdges = (fraction: number, minHz: number, maxHz: number): number[] => {
+  const halfBand = Math.pow(2, 1 / (2 * fraction));
+  const firstIndex = Math.ceil(fraction * Math.log2(minHz * halfBand / 1000));
+  const lastIndex = Math.floor(fraction * Math.log2(maxHz / halfBand / 1000));
+  const edges: number[] = [];
+
+  for (let k = firstIndex; k <= lastIndex; k++) {
+    edges.push(1000 * Math.pow(2, k / fraction) / halfBand);
+  }
+
+  if (edges.length > 0) {
+    edges.push(1000 * Math.pow(2, lastIndex / fraction) * halfBand);
+  }
+
+  return edges;
+};
+
+// Band edges in Hz for a scale. Returns `count + 1` edges for continuous
+// scales; octave scales derive their own band count from the range.
+export const createBandEdges = (scale: FrequencyScale, count: number, minHz: number, maxHz: number): number[] => {
+  const low = Math.max(1, Math.min(minHz, maxHz - 1));
+  const high = Math.max(low + 1, maxHz);
+
+  switch (scale) {
+    case 'octave-3':
+      return octaveBandEdges(3, low, high);
+    case 'octave-6':
+      return octaveBandEdges(6, low, high);
+    default:
+      break;
+  }
+
+  let toScale: (hz: number) => number;
+  let fromScale: (value: number) => number;
+
+  switch (scale) {
+    case 'linear':
+      toScale = (hz) => hz;
+      fromScale = (value) => value;
+      break;
+    case 'mel':
+      toScale = hzToMel;
+      fromScale = melToHz;
+      break;
+    case 'bark':
+      toScale = hzToBark;
+      fromScale = barkToHz;
+      break;
+    default:
+      toScale = Math.log;
+      fromScale = Math.exp;
+  }
+
+  const start = toScale(low);
+  const end = toScale(high);
+  const edges: number[] = [];
+
+  for (let i = 0; i <= count; i++) {
+    edges.push(fromScale(start + ((end - start) * i) / count));
+  }
+
+  return edges;
+};
+
+// Geometric centre of each band
+export const bandCenters = (edges: number[]): number[] => {
+  const centers: number[] = [];
+  for (let i = 0; i < edges.length - 1; i++) {
+    centers.push(Math.sqrt(edges[i] * edges[i + 1]));
+  }
+  return centers;
+};
+
+// Short label for a frequency, e.g. "63", "1k", "12.5k"
+export const formatFrequency = (hz: number): string => {
+  if (hz >= 1000) {
+    const khz = hz / 1000;
+    return `${khz >= 10 ? Math.round(khz) : Math.round(khz * 10) / 10}k`;
+  }
+  return `${Math.round(hz)}`;
+};
@@ -0,0 +1,150 @@
+export type MicrophoneErrorKind = 'unsupported' | 'permission-denied' | 'not-found' | 'in-use' | 'unknown';
+
+// Thrown when the microphone can't be opened; `kind` drives the message shown to the user
+export class MicrophoneError extends Error {
+  public readonly kind: MicrophoneErrorKind;
+
+  constructor(kind: MicrophoneErrorKind, message: string) {
+    super(message);
+    this.name = 'MicrophoneError';
+    this.kind = kind;
+  }
+}
+
+export interface MicrophoneInfo {
+  sampleRate: number;
+  channels: number;
+  label: string;
+}
+
+export type MicrophoneSampleHandler = (channels: Float32Array[]) => void;
+
+// Samples per callback; ~43 ms at 48 kHz, in line with the WebSocket chunk size
+const BUFFER_SIZE = 2048;
+
+// Map getUserMedia failures onto something we can explain
+const toMicrophoneError = (error: unknown): MicrophoneError => {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new MicrophoneError('permission-denied', 'Microphone permission was denied');
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new MicrophoneError('not-found', 'No microphone found');
+    case 'NotReadableError':
+    case 'AbortError':
+      return new MicrophoneError('in-use', 'Microphone is unavailable or in use by another app');
+    default:
+      return new MicrophoneError('unknown', `Could not open microphone: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Captures the device microphone with getUserMedia and hands raw
+// per-channel float samples to a callback for the AudioProcessor
+export class MicrophoneSource {
+  private stream: MediaStream | null = null;
+  private context: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private sink: GainNode | null = null;
+
+  public isActive(): boolean {
+    return this.stream !== null;
+  }
+
+  // Request the microphone and start delivering samples.
+  // Throws MicrophoneError if capture isn't possible.
+  public async start(onSamples: MicrophoneSampleHandler): Promise<MicrophoneInfo> {
+    this.stop();
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new MicrophoneError('unsupported', 'Microphone capture is not supported here (requires a secure context)');
+    }
+
+    const AudioContextClass = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) {
+      throw new MicrophoneError('unsupported', 'Web Audio is not supported here');
+    }
+
+    try {
+      // Raw signal: voice processing would flatten the spectrum
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+          channelCount: { ideal: 2 }
+        }
+      });
+    } catch (error) {
+      throw toMicrophoneError(error);
+    }
+
+    const track = this.stream.getAudioTracks()[0];
+    const channels = Math.max(1, Math.min(2, track?.getSettings().channelCount ?? 1));
+
+    try {
+      this.context = new AudioContextClass();
+      if (this.context.state === 'suspended') {
+        await this.context.resume();
+      }
+
+      this.source = this.context.createMediaStreamSource(this.stream);
+      this.processor = this.context.createScriptProcessor(BUFFER_SIZE, channels, channels);
+      this.processor.onaudioprocess = (event) => {
+        const input = event.inputBuffer;
+        const data: Float32Array[] = [];
+        for (let ch = 0; ch < input.numberOfChannels; ch++) {
+          // The buffer is reused by the browser, so copy it out
+          data.push(new Float32Array(input.getChannelData(ch)));
+        }
+        onSamples(data);
+      };
+
+      // The processor only runs while connected to the destination; mute it so the mic isn't played back
+      this.sink = this.context.createGain();
+      this.sink.gain.value = 0;
+      this.source.connect(this.processor);
+      this.processor.connect(this.sink);
+      this.sink.connect(this.context.destination);
+    } catch (error) {
+      this.stop();
+      throw new MicrophoneError('unknown', `Could not start audio processing: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return {
+      sampleRate: this.context.sampleRate,
+      channels,
+      label: track?.label || 'Microphone'
+    };
+  }
+
+  // Register a callback for when the device goes away mid-capture (unplugged, revoked)
+  public onEnded(callback: () => void): () => void {
+    const track = this.stream?.getAudioTracks()[0];
+    if (!track) {
+      return () => {};
+    }
+    track.addEventListener('ended', callback);
+    return () => track.removeEventListener('ended', callback);
+  }
+
+  public stop() {
+    if (this.processor) {
+      this.processor.onaudioprocess = null;
+      this.processor.disconnect();
+      this.processor = null;
+    }
+    this.source?.disconnect();
+    this.source = null;
+    this.sink?.disconnect();
+    this.sink = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    if (this.context) {
+      this.context.close().catch(() => {});
+      this.context = null;
+    }
+  }
+}
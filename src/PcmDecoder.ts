@@ -0,0 +1,83 @@
+import { PcmLayout, resolvePcmLayout } from '../shared/pcmFormat';
+import { AudioFormatData } from './types/types';
+
+export type { PcmLayout } from '../shared/pcmFormat';
+export { UnsupportedAudioFormatError } from '../shared/pcmFormat';
+
+// Layout used before the server has sent an audio_format message
+// (the C# capture server streams 32-bit float by default)
+export const DEFAULT_PCM_LAYOUT: PcmLayout = {
+  sampleType: 'float',
+  bitsPerSample: 32,
+  bytesPerSample: 4,
+  channels: 1,
+  littleEndian: true
+};
+
+export class PcmDecoder {
+  private layout: PcmLayout;
+
+  constructor(layout: PcmLayout = DEFAULT_PCM_LAYOUT) {
+    this.layout = layout;
+  }
+
+  public static fromFormat(format: AudioFormatData): PcmDecoder {
+    return new PcmDecoder(resolvePcmLayout(format));
+  }
+
+  public getLayout(): PcmLayout {
+    return this.layout;
+  }
+
+  // Decode raw bytes into interleaved samples normalized to [-1, 1]
+  public decode(bytes: Uint8Array): Float32Array {
+    const { sampleType, bitsPerSample, bytesPerSample, littleEndian } = this.layout;
+    const sampleCount = Math.floor(bytes.byteLength / bytesPerSample);
+    const samples = new Float32Array(sampleCount);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, sampleCount * bytesPerSample);
+
+    if (sampleType === 'float') {
+      for (let i = 0; i < sampleCount; i++) {
+        samples[i] = bitsPerSample === 64
+          ? view.getFloat64(i * 8, littleEndian)
+          : view.getFloat32(i * 4, littleEndian);
+      }
+      return samples;
+    }
+
+    switch (bitsPerSample) {
+      case 8:
+        // 8-bit PCM is unsigned by convention
+        for (let i = 0; i < sampleCount; i++) {
+          samples[i] = (view.getUint8(i) - 128) / 128;
+        }
+        break;
+      case 16:
+        for (let i = 0; i < sampleCount; i++) {
+          samples[i] = view.getInt16(i * 2, littleEndian) / 32768;
+        }
+        break;
+      case 24:
+        for (let i = 0; i < sampleCount; i++) {
+          const offset = i * 3;
+          const b0 = view.getUint8(offset);
+          const b1 = view.getUint8(offset + 1);
+          const b2 = view.getUint8(offset + 2);
+          let value = littleEndian
+            ? b0 | (b1 << 8) | (b2 << 16)
+            : (b0 << 16) | (b1 << 8) | b2;
+          // Sign-extend from 24 bits
+          if (value & 0x800000) value -= 0x1000000;
+          samples[i] = value / 8388608;
+        }
+        break;
+      case 32:
+        for (let i = 0; i < sampleCount; i++) {
+          samples[i] = view.getInt32(i * 4, littleEndian) / 2147483648;
+        }
+        break;
+    }
+
+    return samples;
+  }
+}
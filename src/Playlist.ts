@@ -0,0 +1,110 @@
+import { PlaylistItem, PlaylistOrder } from './types/visualization';
+
+// Shortest and longest time one playlist item can be shown, in seconds
+export const MIN_ITEM_DURATION = 5;
+export const MAX_ITEM_DURATION = 600;
+
+// With beat sync on, give up waiting for a beat after this long so quiet
+// passages don't stall the playlist
+const BEAT_WAIT_MS = 4000;
+
+export const createPlaylistItemId = (): string => `item-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export interface PlaylistSchedulerOptions {
+  order: PlaylistOrder;
+  beatSync: boolean;
+}
+
+// Shows one item; returns false if it can't be shown (e.g. its preset was deleted) so the next is tried
+export type PlaylistPlayer = (item: PlaylistItem) => boolean;
+
+// Steps through playlist items on a timer, in order or shuffled. With beat
+// sync, an item whose time is up stays until the next beat.
+export class PlaylistScheduler {
+  private items: PlaylistItem[];
+  private options: PlaylistSchedulerOptions;
+  private play: PlaylistPlayer;
+  private queue: PlaylistItem[] = [];
+  private current: PlaylistItem | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private waitingForBeat = false;
+
+  constructor(items: PlaylistItem[], options: PlaylistSchedulerOptions, play: PlaylistPlayer) {
+    this.items = items;
+    this.options = options;
+    this.play = play;
+  }
+
+  public start() {
+    this.stop();
+    this.queue = [];
+    this.current = null;
+    this.advance();
+  }
+
+  public stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.waitingForBeat = false;
+  }
+
+  // Call on every detected beat
+  public handleBeat() {
+    if (this.waitingForBeat) {
+      this.advance();
+    }
+  }
+
+  // Show the next item that can be shown and schedule the one after it
+  private advance() {
+    this.stop();
+
+    // Every item gets one try per call, so a list of stale items can't loop forever
+    for (let attempt = 0; attempt < this.items.length; attempt++) {
+      const item = this.nextItem();
+      if (!item) break;
+      if (!this.play(item)) continue;
+
+      this.current = item;
+      const duration = Math.max(MIN_ITEM_DURATION, Math.min(MAX_ITEM_DURATION, item.duration || MIN_ITEM_DURATION));
+      this.timer = setTimeout(() => this.itemFinished(), duration * 1000);
+      return;
+    }
+
+    console.warn('[FlowThing] No playable items in the playlist');
+  }
+
+  private itemFinished() {
+    this.timer = null;
+    if (!this.options.beatSync) {
+      this.advance();
+      return;
+    }
+
+    this.waitingForBeat = true;
+    this.timer = setTimeout(() => this.advance(), BEAT_WAIT_MS);
+  }
+
+  private nextItem(): PlaylistItem | null {
+    if (this.items.length === 0) return null;
+    if (this.queue.length === 0) {
+      this.queue = this.options.order === 'shuffle' ? this.shuffled() : [...this.items];
+    }
+    return this.queue.shift() ?? null;
+  }
+
+  // A fresh shuffle of every item, not starting with the one that just played
+  private shuffled(): PlaylistItem[] {
+    const items = [...this.items];
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    if (items.length > 1 && items[0] === this.current) {
+      [items[0], items[items.length - 1]] = [items[items.length - 1], items[0]];
+    }
+    return items;
+  }
+}
@@ -0,0 +1,174 @@
+import { FlowThingSettings, ColorTheme, defaultSettings } from './types/visualization';
+import { VisualizationPreset } from './types/types';
+import { VisualizationOptions } from './visualizations/types';
+import { isBuiltinTheme, parseTheme, ThemeImportError } from './ColorThemes';
+
+// Settings that make up a look. Audio source, FFT setup and display toggles
+// belong to the device, not the preset.
+export const PRESET_SETTING_KEYS: (keyof FlowThingSettings)[] = [
+  'visualizationType',
+  'themeId',
+  'backgroundColor',
+  'primaryColor',
+  'audioSensitivity',
+  'animationSpeed',
+  'beatReactive',
+  'stereoMode',
+  'frequencyScale',
+  'minFrequency',
+  'maxFrequency',
+  'showFrequencyLabels',
+  'dbFloor',
+  'dbCeiling',
+  'agcEnabled',
+  'agcWindow',
+  'attackMs',
+  'releaseMs',
+  'peakHold',
+  'peakDecay'
+];
+
+// Same limit as the server's PresetStore
+export const MAX_PRESETS = 100;
+
+export class PresetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetImportError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const createPresetId = (): string => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Snapshot the current look. A custom theme is embedded so the preset still
+// works on a device that doesn't have it.
+export const capturePreset = (settings: FlowThingSettings, name: string, id: string = createPresetId()): VisualizationPreset => {
+  const captured: Record<string, unknown> = {};
+  PRESET_SETTING_KEYS.forEach(key => {
+    captured[key] = settings[key];
+  });
+
+  const options = settings.visualizationOptions?.[settings.visualizationType];
+  captured.visualizationOptions = options ? { [settings.visualizationType]: { ...options } } : {};
+
+  const theme = (settings.customThemes ?? []).find(candidate => candidate.id === settings.themeId);
+  captured.customThemes = theme ? [{ ...theme, gradient: [...theme.gradient] }] : [];
+
+  const now = Date.now();
+  return { id, name: name.trim(), createdAt: now, updatedAt: now, settings: captured };
+};
+
+// Only keys we know, with the same type as their default; anything else in a preset is ignored
+const pickSettings = (raw: Record<string, unknown>): Partial<FlowThingSettings> => {
+  const picked: Record<string, unknown> = {};
+  PRESET_SETTING_KEYS.forEach(key => {
+    if (typeof raw[key] === typeof defaultSettings[key]) {
+      picked[key] = raw[key];
+    }
+  });
+  return picked as Partial<FlowThingSettings>;
+};
+
+// Settings with a preset applied on top. The embedded theme is added if this device doesn't have it yet.
+export const applyPreset = (settings: FlowThingSettings, preset: VisualizationPreset): FlowThingSettings => {
+  const raw = isRecord(preset.settings) ? preset.settings : {};
+  const next: FlowThingSettings = { ...settings, ...pickSettings(raw) };
+
+  if (isRecord(raw.visualizationOptions)) {
+    const options = { ...settings.visualizationOptions };
+    Object.entries(raw.visualizationOptions).forEach(([type, value]) => {
+      if (isRecord(value)) options[type] = { ...value } as VisualizationOptions;
+    });
+    next.visualizationOptions = options;
+  }
+
+  // Presets from the server or the local cache were never parsed, so check
+  // embedded themes here; one that doesn't validate is dropped
+  const customThemes = settings.customThemes ?? [];
+  const embedded = Array.isArray(raw.customThemes) ? raw.customThemes : [];
+  const missing: ColorTheme[] = [];
+  embedded.forEach((theme, index) => {
+    if (!isRecord(theme) || typeof theme.id !== 'string' || isBuiltinTheme(theme.id)) return;
+    const id = theme.id;
+    if (customThemes.some(existing => existing.id === id) || missing.some(existing => existing.id === id)) return;
+    try {
+      // Keep the id, it's what the preset's themeId points at
+      missing.push({ ...parseTheme(theme, index), id });
+    } catch (error) {
+      if (!(error instanceof ThemeImportError)) throw error;
+      console.warn(`[FlowThing] Preset "${preset.name}" has an invalid theme, skipping it: ${error.message}`);
+    }
+  });
+  if (missing.length > 0) {
+    next.customThemes = [...customThemes, ...missing];
+  }
+
+  // A preset pointing at a theme that neither it nor this device has would silently fall back to classic
+  if (!isBuiltinTheme(next.themeId) && !next.customThemes.some(theme => theme.id === next.themeId)) {
+    console.warn(`[FlowThing] Preset "${preset.name}" uses an unknown theme, keeping the current one`);
+    next.themeId = settings.themeId;
+  }
+
+  return next;
+};
+
+// Check one imported preset. Imports get fresh ids, and so do their embedded themes.
+const parsePreset = (value: unknown, index: number): VisualizationPreset => {
+  if (!isRecord(value)) {
+    throw new PresetImportError(`Preset ${index + 1} is not an object`);
+  }
+
+  const name = typeof value.name === 'string' && value.name.trim() ? value.name.trim() : `Imported ${index + 1}`;
+  if (!isRecord(value.settings)) {
+    throw new PresetImportError(`"${name}": settings are missing`);
+  }
+
+  const settings: Record<string, unknown> = { ...pickSettings(value.settings) };
+  if (typeof settings.visualizationType !== 'string') {
+    throw new PresetImportError(`"${name}": no visualization type`);
+  }
+
+  settings.visualizationOptions = isRecord(value.settings.visualizationOptions) ? value.settings.visualizationOptions : {};
+
+  const themes = Array.isArray(value.settings.customThemes) ? value.settings.customThemes : [];
+  settings.customThemes = themes.map((theme, themeIndex) => {
+    try {
+      const parsed = parseTheme(theme, themeIndex);
+      if (isRecord(theme) && theme.id === settings.themeId) settings.themeId = parsed.id;
+      return parsed;
+    } catch (error) {
+      if (error instanceof ThemeImportError) {
+        throw new PresetImportError(`"${name}": ${error.message}`);
+      }
+      throw error;
+    }
+  });
+
+  const now = Date.now();
+  return { id: createPresetId(), name, createdAt: now, updatedAt: now, settings };
+};
+
+// Presets from exported JSON: a single preset or a list of them
+export const parsePresets = (json: string): VisualizationPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new PresetImportError('Not valid JSON');
+  }
+
+  const list = Array.isArray(data) ? data : [data];
+  if (list.length === 0) {
+    throw new PresetImportError('No presets found');
+  }
+  return list.map(parsePreset);
+};
+
+// JSON that parsePresets reads back; ids and timestamps are left out since imports get new ones
+export const exportPresets = (presets: VisualizationPreset[]): string => {
+  const plain = presets.map(({ name, settings }) => ({ name, settings }));
+  return JSON.stringify(plain.length === 1 ? plain[0] : plain, null, 2);
+};
@@ -0,0 +1,87 @@
+import { FlowThingSettings, defaultSettings } from './types/visualization';
+import { MIN_ITEM_DURATION } from './Playlist';
+
+const STORAGE_KEY = 'flowthing-settings';
+
+type RawSettings = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades settings saved at version n to version n + 1.
+// Settings saved before versioning are version 0.
+const MIGRATIONS: ((settings: RawSettings) => RawSettings)[] = [
+  // 0 -> 1: the single colorScheme became backgroundColor/primaryColor
+  settings => {
+    if (settings.colorScheme && !settings.backgroundColor && !settings.primaryColor) {
+      const { colorScheme, ...rest } = settings;
+      console.log('[FlowThing] Migrated colorScheme to backgroundColor/primaryColor');
+      return { ...rest, backgroundColor: "#000000", primaryColor: colorScheme };
+    }
+    return settings;
+  },
+  // 1 -> 2: autoChangeInterval 0 meant "don't auto-change"; it's now the default
+  // playlist item duration and the playlist has its own switch
+  settings => {
+    if (typeof settings.autoChangeInterval === 'number' && settings.autoChangeInterval < MIN_ITEM_DURATION) {
+      return { ...settings, autoChangeInterval: defaultSettings.autoChangeInterval };
+    }
+    return settings;
+  }
+];
+
+// Version of the stored and synced settings layout. Add a migration whenever a
+// setting is renamed or changes meaning, and keep SETTINGS_SCHEMA_VERSION in
+// server/setupSettings.ts in step.
+export const SETTINGS_VERSION = MIGRATIONS.length;
+
+// Bring settings saved at `fromVersion` up to SETTINGS_VERSION
+export const migrateSettings = (settings: RawSettings, fromVersion: number): RawSettings => {
+  let migrated = settings;
+  for (let version = Math.max(0, fromVersion); version < SETTINGS_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated;
+};
+
+// Known settings whose value has the same kind as the default; everything else is dropped
+export const sanitizeSettings = (settings: RawSettings): Partial<FlowThingSettings> => {
+  const clean: RawSettings = {};
+  (Object.keys(defaultSettings) as (keyof FlowThingSettings)[]).forEach(key => {
+    const value = settings[key];
+    const fallback = defaultSettings[key];
+    if (value === undefined || value === null) return;
+
+    const sameKind = Array.isArray(fallback)
+      ? Array.isArray(value)
+      : typeof value === typeof fallback && !Array.isArray(value);
+    if (sameKind) {
+      clean[key] = value;
+    }
+  });
+  return clean as Partial<FlowThingSettings>;
+};
+
+// Settings saved on this device, migrated and merged over the defaults
+export const loadStoredSettings = (): FlowThingSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return defaultSettings;
+
+    const parsed = JSON.parse(saved);
+    if (!parsed || typeof parsed !== 'object') return defaultSettings;
+
+    const version = typeof parsed.settingsVersion === 'number' ? parsed.settingsVersion : 0;
+    const settings = { ...defaultSettings, ...sanitizeSettings(migrateSettings(parsed, version)) };
+    console.log('[FlowThing] Loaded settings from localStorage:', settings);
+    return settings;
+  } catch (error) {
+    console.warn('[FlowThing] Failed to load settings from localStorage:', error);
+    return defaultSettings;
+  }
+};
+
+export const storeSettings = (settings: FlowThingSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...settings, settingsVersion: SETTINGS_VERSION }));
+  } catch (error) {
+    console.warn('[FlowThing] Failed to save settings to localStorage:', error);
+  }
+};
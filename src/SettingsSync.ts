@@ -0,0 +1,139 @@
+import { FlowThingSettings } from './types/visualization';
+import { SettingsSnapshot, SettingsUpdate } from './types/types';
+import { migrateSettings, sanitizeSettings } from './SettingsSchema';
+
+// Settings that also appear in the DeskThing desktop settings
+// (SYNCED_SETTING_IDS in server/setupSettings.ts)
+export const SYNCED_SETTING_KEYS: (keyof FlowThingSettings)[] = [
+  'audioSensitivity',
+  'backgroundColor',
+  'primaryColor',
+  'animationSpeed',
+  'audioSource',
+  'showVisualizationName',
+  'performanceMode'
+];
+
+// Slider drags change a setting on every step; only the value it settles on is sent
+const SEND_DELAY_MS = 400;
+
+type SyncedValues = Partial<Record<keyof FlowThingSettings, unknown>>;
+
+interface PendingChange {
+  value: unknown;
+  sent: boolean;
+}
+
+const pickSynced = (settings: FlowThingSettings | Record<string, unknown>): SyncedValues => {
+  const values: SyncedValues = {};
+  SYNCED_SETTING_KEYS.forEach(key => {
+    values[key] = (settings as Record<string, unknown>)[key];
+  });
+  return values;
+};
+
+// Keeps SYNCED_SETTING_KEYS in step with the server. Local edits are found by
+// comparing each settings state with the previous one, so changes from the
+// settings panel, presets and the playlist are all sent the same way. The
+// server decides conflicts and answers with where every key landed.
+export class SettingsSync {
+  private send: (update: SettingsUpdate) => void;
+  private session: string | null = null;
+  private revision = 0;
+  private confirmed: SyncedValues = {}; // last values the server reported
+  private lastSeen: SyncedValues | null = null;
+  private pending = new Map<keyof FlowThingSettings, PendingChange>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(send: (update: SettingsUpdate) => void) {
+    this.send = send;
+  }
+
+  // Call with every local settings state
+  public update(settings: FlowThingSettings) {
+    const previous = this.lastSeen;
+    this.lastSeen = pickSynced(settings);
+    // The first state is what was loaded, not an edit
+    if (!previous) return;
+
+    let changed = false;
+    SYNCED_SETTING_KEYS.forEach(key => {
+      const value = settings[key];
+      if (value === previous[key]) return;
+      // A value the server just sent us, not an edit
+      if (value === this.confirmed[key] && !this.pending.has(key)) return;
+
+      this.pending.set(key, { value, sent: false });
+      changed = true;
+    });
+
+    if (changed) this.scheduleSend();
+  }
+
+  // Apply a server snapshot. Returns the settings to change locally, leaving
+  // out keys with a local edit the server hasn't seen yet.
+  public receive(snapshot: SettingsSnapshot): Partial<FlowThingSettings> {
+    // A restarted server may never have received what was in flight
+    if (snapshot.session !== this.session) {
+      this.pending.forEach(change => {
+        change.sent = false;
+      });
+    }
+    this.session = snapshot.session;
+    this.revision = snapshot.revision;
+
+    const values = sanitizeSettings(migrateSettings(pickSynced(snapshot.values ?? {}), snapshot.version)) as SyncedValues;
+    const rejected = new Set(snapshot.rejected ?? []);
+    const patch: SyncedValues = {};
+
+    SYNCED_SETTING_KEYS.forEach(key => {
+      if (!(key in values)) return;
+      const value = values[key];
+      this.confirmed[key] = value;
+
+      const change = this.pending.get(key);
+      if (change) {
+        const settled = change.value === value || (change.sent && rejected.has(key));
+        if (!settled) return;
+        this.pending.delete(key);
+        if (change.value !== value) {
+          console.log(`[FlowThing] Desktop setting ${key} changed since this edit, using ${value}`);
+        }
+      }
+      patch[key] = value;
+    });
+
+    if ([...this.pending.values()].some(change => !change.sent)) {
+      this.scheduleSend();
+    }
+    return patch as Partial<FlowThingSettings>;
+  }
+
+  public dispose() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleSend() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), SEND_DELAY_MS);
+  }
+
+  private flush() {
+    this.timer = null;
+    // Until the server answers there's no revision to base changes on; receive() sends what piled up
+    if (this.session === null) return;
+
+    const changes: Record<string, unknown> = {};
+    this.pending.forEach((change, key) => {
+      if (change.sent) return;
+      changes[key] = change.value;
+      change.sent = true;
+    });
+    if (Object.keys(changes).length === 0) return;
+
+    this.send({ changes, revision: this.revision, session: this.session });
+  }
+}
@@ -0,0 +1,143 @@
+export interface DynamicsOptions {
+  floorDb: number; // level drawn as 0
+  ceilingDb: number; // level drawn as 1
+  gainDb: number; // fixed input gain, derived from audioSensitivity
+  agcEnabled: boolean;
+  agcWindowSeconds: number; // how far back the AGC looks for the loudest frame
+  agcMaxGainDb: number; // limit on how far the AGC may boost or cut
+  attackMs: number;
+  releaseMs: number;
+  peakHoldEnabled: boolean;
+  peakHoldMs: number;
+  peakDecayPerSecond: number; // normalized units per second once the hold expires
+}
+
+export const DEFAULT_DYNAMICS_OPTIONS: DynamicsOptions = {
+  floorDb: -70,
+  ceilingDb: 0,
+  gainDb: 0,
+  agcEnabled: false,
+  agcWindowSeconds: 5,
+  agcMaxGainDb: 30,
+  attackMs: 10,
+  releaseMs: 250,
+  peakHoldEnabled: true,
+  peakHoldMs: 500,
+  peakDecayPerSecond: 1
+};
+
+// Map audioSensitivity (1-100, 50 = neutral) onto +/-24 dB of input gain
+export const sensitivityToGainDb = (sensitivity: number): number => {
+  return ((Math.max(1, Math.min(100, sensitivity)) - 50) / 50) * 24;
+};
+
+// Converts band amplitudes to normalized, smoothed levels with peak-hold.
+// One instance per signal (mono, left, right, ...) since it keeps state.
+export class SpectrumDynamics {
+  private options: DynamicsOptions = { ...DEFAULT_DYNAMICS_OPTIONS };
+  private levels: Float32Array = new Float32Array(0);
+  private peaks: Float32Array = new Float32Array(0);
+  private peakHoldUntil: Float64Array = new Float64Array(0);
+  private lastTime: number | null = null;
+
+  // Loudest frame level (dB) per recent frame, used by the AGC
+  private agcHistory: { time: number; db: number }[] = [];
+
+  constructor(options: Partial<DynamicsOptions> = {}) {
+    this.configure(options);
+  }
+
+  public configure(options: Partial<DynamicsOptions>) {
+    this.options = { ...this.options, ...options };
+    if (this.options.ceilingDb <= this.options.floorDb) {
+      this.options.ceilingDb = this.options.floorDb + 1;
+    }
+    if (!this.options.agcEnabled) {
+      this.agcHistory = [];
+    }
+  }
+
+  // Resize state when the band count changes
+  private ensureSize(size: number) {
+    if (this.levels.length === size) return;
+    this.levels = new Float32Array(size);
+    this.peaks = new Float32Array(size);
+    this.peakHoldUntil = new Float64Array(size);
+  }
+
+  // Work out the AGC correction from the loudest frame in the rolling window
+  private agcOffset(frameMaxDb: number, now: number): number {
+    const { agcWindowSeconds, agcMaxGainDb, ceilingDb } = this.options;
+
+    this.agcHistory.push({ time: now, db: frameMaxDb });
+    const cutoff = now - agcWindowSeconds * 1000;
+    while (this.agcHistory.length > 0 && this.agcHistory[0].time < cutoff) {
+      this.agcHistory.shift();
+    }
+
+    const reference = this.agcHistory.reduce((max, entry) => Math.max(max, entry.db), -Infinity);
+    if (!isFinite(reference)) return 0;
+
+    // Bring the recent loudest level up (or down) to just under the ceiling
+    const offset = (ceilingDb - 3) - reference;
+    return Math.max(-agcMaxGainDb, Math.min(agcMaxGainDb, offset));
+  }
+
+  // Process linear amplitudes (1.0 = full-scale sine) into 0-1 levels
+  public process(amplitudes: ArrayLike<number>, now: number = performance.now()): number[] {
+    const { floorDb, ceilingDb, gainDb, agcEnabled, attackMs, releaseMs, peakHoldEnabled, peakHoldMs, peakDecayPerSecond } = this.options;
+    const size = amplitudes.length;
+    this.ensureSize(size);
+
+    // Time since the previous frame drives smoothing and peak decay
+    const dt = this.lastTime === null ? 0 : Math.min(0.5, Math.max(0, (now - this.lastTime) / 1000));
+    this.lastTime = now;
+
+    const db = new Float32Array(size);
+    let frameMaxDb = -Infinity;
+    for (let i = 0; i < size; i++) {
+      db[i] = 20 * Math.log10(amplitudes[i] + 1e-12) + gainDb;
+      if (db[i] > frameMaxDb) frameMaxDb = db[i];
+    }
+
+    // Skip silent frames so the AGC doesn't crank up the noise floor
+    const offset = agcEnabled && frameMaxDb > floorDb ? this.agcOffset(frameMaxDb, now) : 0;
+
+    // One-pole smoothing coefficients for this frame's duration
+    const attack = dt === 0 || attackMs <= 0 ? 1 : 1 - Math.exp(-dt / (attackMs / 1000));
+    const release = dt === 0 || releaseMs <= 0 ? 1 : 1 - Math.exp(-dt / (releaseMs / 1000));
+
+    const result: number[] = new Array(size);
+    for (let i = 0; i < size; i++) {
+      const target = Math.max(0, Math.min(1, (db[i] + offset - floorDb) / (ceilingDb - floorDb)));
+      const current = this.levels[i];
+      const level = current + (target - current) * (target > current ? attack : release);
+      this.levels[i] = level;
+      result[i] = level;
+
+      if (!peakHoldEnabled) {
+        this.peaks[i] = level;
+      } else if (level >= this.peaks[i]) {
+        this.peaks[i] = level;
+        this.peakHoldUntil[i] = now + peakHoldMs;
+      } else if (now > this.peakHoldUntil[i]) {
+        this.peaks[i] = Math.max(level, this.peaks[i] - peakDecayPerSecond * dt);
+      }
+    }
+
+    return result;
+  }
+
+  // Current peak-hold values, aligned with the last processed levels
+  public getPeaks(): number[] {
+    return Array.from(this.peaks);
+  }
+
+  public reset() {
+    this.levels.fill(0);
+    this.peaks.fill(0);
+    this.peakHoldUntil.fill(0);
+    this.agcHistory = [];
+    this.lastTime = null;
+  }
+}
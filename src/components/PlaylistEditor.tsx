@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { FlowThingSettings, PlaylistItem, PlaylistOrder, TRANSITION_STYLE_OPTIONS, TransitionStyle } from '../types/visualization';
+import { VisualizationPreset } from '../types/types';
+import { MAX_ITEM_DURATION, MIN_ITEM_DURATION, createPlaylistItemId } from '../Playlist';
+import { getVisualization, getVisualizations } from '../visualizations';
+
+interface PlaylistEditorProps {
+  settings: FlowThingSettings;
+  presets: VisualizationPreset[];
+  onSettingChange: <K extends keyof FlowThingSettings>(key: K, value: FlowThingSettings[K]) => void;
+}
+
+const inputClass = "w-full p-2 bg-gray-800 border border-gray-600 rounded text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+const buttonClass = "px-3 py-2 rounded-lg font-medium transition-all text-xs bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed";
+const iconButtonClass = "px-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed";
+
+// Add targets are encoded as "kind:target" in the picker
+const encodeTarget = (kind: PlaylistItem['kind'], target: string) => `${kind}:${target}`;
+
+// Auto-cycle settings, the item list and transitions
+const PlaylistEditor: React.FC<PlaylistEditorProps> = ({ settings, presets, onSettingChange }) => {
+  const [addTarget, setAddTarget] = useState(encodeTarget('visualization', settings.visualizationType));
+
+  const items = settings.playlistItems ?? [];
+
+  const itemLabel = (item: PlaylistItem) => {
+    if (item.kind === 'preset') {
+      const preset = presets.find(candidate => candidate.id === item.target);
+      return preset ? `★ ${preset.name}` : 'Missing preset';
+    }
+    return getVisualization(item.target)?.label ?? 'Unknown visualization';
+  };
+
+  const updateItem = (id: string, patch: Partial<PlaylistItem>) => {
+    onSettingChange('playlistItems', items.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const reordered = [...items];
+    const [item] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, item);
+    onSettingChange('playlistItems', reordered);
+  };
+
+  const addItem = () => {
+    const separator = addTarget.indexOf(':');
+    const kind = addTarget.slice(0, separator) as PlaylistItem['kind'];
+    const target = addTarget.slice(separator + 1);
+    onSettingChange('playlistItems', [...items, { id: createPlaylistItemId(), kind, target, duration: settings.autoChangeInterval }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">
+          Auto-Cycle Playlist
+        </label>
+        <input
+          type="checkbox"
+          checked={settings.playlistEnabled}
+          onChange={(e) => onSettingChange('playlistEnabled', e.target.checked)}
+          className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+        />
+      </div>
+      {settings.playlistEnabled && items.length === 0 && (
+        <p className="text-xs text-gray-400">Add visualizations or presets below to start cycling</p>
+      )}
+
+      {/* Items */}
+      {items.length > 0 && (
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={item.id} className="flex items-center gap-2 p-2 rounded-lg bg-gray-800">
+              <span className="flex-1 min-w-0 text-sm truncate">{itemLabel(item)}</span>
+              <input
+                type="number"
+                min={MIN_ITEM_DURATION}
+                max={MAX_ITEM_DURATION}
+                value={item.duration}
+                onChange={(e) => updateItem(item.id, { duration: Math.max(MIN_ITEM_DURATION, Math.min(MAX_ITEM_DURATION, parseInt(e.target.value) || MIN_ITEM_DURATION)) })}
+                className="w-16 p-1 bg-gray-900 border border-gray-600 rounded text-white text-xs"
+                title="Seconds"
+              />
+              <span className="text-xs text-gray-400">s</span>
+              <button onClick={() => moveItem(index, -1)} disabled={index === 0} className={iconButtonClass} title="Move up">↑</button>
+              <button onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} className={iconButtonClass} title="Move down">↓</button>
+              <button
+                onClick={() => onSettingChange('playlistItems', items.filter(candidate => candidate.id !== item.id))}
+                className="px-1 text-gray-400 hover:text-red-400"
+                title="Remove"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add */}
+      <div className="flex gap-2">
+        <select
+          value={addTarget}
+          onChange={(e) => setAddTarget(e.target.value)}
+          className={`${inputClass} flex-1`}
+        >
+          <optgroup label="Visualizations">
+            {getVisualizations().map((plugin) => (
+              <option key={plugin.id} value={encodeTarget('visualization', plugin.id)}>{plugin.label}</option>
+            ))}
+          </optgroup>
+          {presets.length > 0 && (
+            <optgroup label="Presets">
+              {presets.map((preset) => (
+                <option key={preset.id} value={encodeTarget('preset', preset.id)}>{preset.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button onClick={addItem} className={buttonClass}>Add</button>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">
+          Default Duration: {settings.autoChangeInterval}s
+        </label>
+        <input
+          type="range"
+          min={MIN_ITEM_DURATION}
+          max="300"
+          step="5"
+          value={settings.autoChangeInterval}
+          onChange={(e) => onSettingChange('autoChangeInterval', parseInt(e.target.value))}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Order</label>
+        <select
+          value={settings.playlistOrder}
+          onChange={(e) => onSettingChange('playlistOrder', e.target.value as PlaylistOrder)}
+          className={inputClass}
+        >
+          <option value="ordered">In Order</option>
+          <option value="shuffle">Shuffle</option>
+        </select>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="text-xs text-gray-400">
+            Switch on the Beat
+          </label>
+          <input
+            type="checkbox"
+            checked={settings.playlistBeatSync}
+            onChange={(e) => onSettingChange('playlistBeatSync', e.target.checked)}
+            className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+          />
+        </div>
+        <p className="text-xs text-gray-400 mt-1">
+          When an item's time is up, wait for the next detected beat before switching
+        </p>
+      </div>
+
+      {/* Transitions apply to every visualization change, not just the playlist */}
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Transition</label>
+        <select
+          value={settings.transitionStyle}
+          onChange={(e) => onSettingChange('transitionStyle', e.target.value as TransitionStyle)}
+          className={inputClass}
+        >
+          {TRANSITION_STYLE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label} - {option.description}</option>
+          ))}
+        </select>
+      </div>
+
+      {settings.transitionStyle !== 'none' && (
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">
+            Transition Duration: {(settings.transitionDuration / 1000).toFixed(1)}s
+          </label>
+          <input
+            type="range"
+            min="200"
+            max="3000"
+            step="100"
+            value={settings.transitionDuration}
+            onChange={(e) => onSettingChange('transitionDuration', parseInt(e.target.value))}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistEditor;
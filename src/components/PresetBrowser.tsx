@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { VisualizationPreset } from '../types/types';
+import { MAX_PRESETS, PresetImportError, exportPresets, parsePresets } from '../Presets';
+import { getVisualization } from '../visualizations';
+
+interface PresetBrowserProps {
+  presets: VisualizationPreset[];
+  onSave: (name: string) => void;
+  onApply: (preset: VisualizationPreset) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: VisualizationPreset[]) => void;
+}
+
+const inputClass = "w-full p-2 bg-gray-800 border border-gray-600 rounded text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+const buttonClass = "flex-1 px-3 py-2 rounded-lg font-medium transition-all text-xs bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Saved looks: apply, save the current one, delete, and share as JSON
+const PresetBrowser: React.FC<PresetBrowserProps> = ({ presets, onSave, onApply, onDelete, onImport }) => {
+  const [name, setName] = useState('');
+  const [transferText, setTransferText] = useState('');
+  const [transferMessage, setTransferMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const trimmed = name.trim();
+  const overwriting = presets.some(preset => preset.name === trimmed);
+  const full = presets.length >= MAX_PRESETS && !overwriting;
+
+  const save = () => {
+    if (!trimmed || full) return;
+    onSave(trimmed);
+    setName('');
+  };
+
+  const exportAll = () => {
+    const json = exportPresets(presets);
+    setTransferText(json);
+    // Clipboard access isn't available everywhere (e.g. plain http), the text box always works
+    navigator.clipboard?.writeText(json)
+      .then(() => setTransferMessage({ text: `Copied ${presets.length} preset${presets.length === 1 ? '' : 's'} to the clipboard`, error: false }))
+      .catch(() => setTransferMessage({ text: 'Copy the JSON below to share these presets', error: false }));
+  };
+
+  const importPresets = () => {
+    try {
+      const imported = parsePresets(transferText);
+      if (presets.length + imported.length > MAX_PRESETS) {
+        throw new PresetImportError(`Only ${MAX_PRESETS} presets can be saved`);
+      }
+      onImport(imported);
+      setTransferMessage({ text: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}`, error: false });
+      setTransferText('');
+    } catch (error) {
+      const text = error instanceof PresetImportError ? error.message : `Import failed: ${error}`;
+      console.warn('[FlowThing] Preset import failed:', text);
+      setTransferMessage({ text, error: true });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Save current */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+          placeholder="Preset name"
+          maxLength={60}
+          className={`${inputClass} flex-1`}
+        />
+        <button onClick={save} disabled={!trimmed || full} className={`${buttonClass} flex-none`}>
+          {overwriting ? 'Update' : 'Save'}
+        </button>
+      </div>
+      {full && (
+        <p className="text-xs text-red-400">Delete a preset to save another (limit {MAX_PRESETS})</p>
+      )}
+
+      {/* Saved presets */}
+      {presets.length === 0 ? (
+        <p className="text-xs text-gray-400">No presets yet. Set up a look and save it here.</p>
+      ) : (
+        <div className="space-y-2">
+          {presets.map((preset) => {
+            const visualization = typeof preset.settings.visualizationType === 'string'
+              ? getVisualization(preset.settings.visualizationType)
+              : undefined;
+            return (
+              <div key={preset.id} className="flex items-center gap-2 p-2 rounded-lg bg-gray-800 hover:bg-gray-700">
+                <button onClick={() => onApply(preset)} className="flex-1 min-w-0 text-left">
+                  <div className="text-sm font-semibold truncate">{preset.name}</div>
+                  <div className="text-xs text-gray-400 truncate">{visualization?.label ?? 'Unknown visualization'}</div>
+                </button>
+                <button
+                  onClick={() => onDelete(preset.id)}
+                  className="px-2 text-gray-400 hover:text-red-400"
+                  title="Delete preset"
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Import / Export */}
+      <div className="space-y-2">
+        <textarea
+          value={transferText}
+          onChange={(e) => setTransferText(e.target.value)}
+          placeholder="Paste preset JSON to import"
+          rows={3}
+          className={`${inputClass} text-xs font-mono`}
+        />
+        <div className="flex gap-2">
+          <button onClick={exportAll} disabled={presets.length === 0} className={buttonClass}>Export Presets</button>
+          <button onClick={importPresets} disabled={!transferText.trim()} className={buttonClass}>Import</button>
+        </div>
+        {transferMessage && (
+          <p className={`text-xs ${transferMessage.error ? 'text-red-400' : 'text-gray-400'}`}>{transferMessage.text}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PresetBrowser;
@@ -1,9 +1,17 @@
 import React from 'react';
-import { FlowThingSettings, AUDIO_SOURCE_OPTIONS } from '../types/visualization';
+import { FlowThingSettings, AUDIO_SOURCE_OPTIONS, FFT_WINDOW_OPTIONS, FftWindow, FREQUENCY_SCALE_OPTIONS, FrequencyScale } from '../types/visualization';
+import { FFT_SIZE_OPTIONS } from '../AudioProcessor';
+import { sensitivityToGainDb } from '../SpectrumDynamics';
+import { getVisualization, resolveVisualizationOptions, VisualizationOptionValue } from '../visualizations';
+import { supportsWorkerRendering } from '../workers/VisualizationWorkerClient';
+import { VisualizationPreset } from '../types/types';
+import ThemeEditor from './ThemeEditor';
+import PlaylistEditor from './PlaylistEditor';
 
 interface SettingsPanelProps {
   settings: FlowThingSettings;
   onSettingChange: (key: keyof FlowThingSettings, value: any) => void;
+  presets: VisualizationPreset[];
   isOpen: boolean;
   onClose: () => void;
 }
@@ -11,11 +19,28 @@ interface SettingsPanelProps {
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
   settings,
   onSettingChange,
+  presets,
   isOpen,
   onClose
 }) => {
   if (!isOpen) return null;
 
+  const gainDb = sensitivityToGainDb(settings.audioSensitivity);
+
+  // Settings declared by the current visualization
+  const visualization = getVisualization(settings.visualizationType);
+  const visualizationOptions = visualization
+    ? resolveVisualizationOptions(visualization, settings.visualizationOptions?.[visualization.id])
+    : {};
+
+  const setVisualizationOption = (key: string, value: VisualizationOptionValue) => {
+    if (!visualization) return;
+    onSettingChange('visualizationOptions', {
+      ...settings.visualizationOptions,
+      [visualization.id]: { ...visualizationOptions, [key]: value }
+    });
+  };
+
   // Default color options for quick selection
   const defaultBackgroundColors = [
     { name: "Black", value: "#000000" },
@@ -51,7 +76,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
           {/* Audio Sensitivity */}
           <div>
             <label className="block text-sm font-medium mb-2">
-              Audio Sensitivity: {settings.audioSensitivity}
+              Audio Sensitivity: {settings.audioSensitivity} ({gainDb >= 0 ? '+' : ''}{gainDb.toFixed(0)} dB)
             </label>
             <input
               type="range"
@@ -67,6 +92,9 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             </div>
           </div>
 
+          {/* Color Theme */}
+          <ThemeEditor settings={settings} onSettingChange={onSettingChange} />
+
           {/* Background Color */}
           <div>
             <label className="block text-sm font-medium mb-2">
@@ -200,7 +228,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   key={option.value}
                   onClick={() => {
                     try {
-                      const value = option.value as 'deskthing' | 'system' | 'microphone' | 'mock';
+                      const value = option.value as 'system' | 'microphone' | 'file' | 'mock';
                       onSettingChange('audioSource', value);
                     } catch (error) {
                       console.error('[FlowThing] Error changing audio source:', error);
@@ -265,6 +293,390 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
        
 
+          {/* FFT Options */}
+          {settings?.audioAnalysisMethod === 'fft' && (
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  FFT Size: {settings.fftSize}
+                </label>
+                <select
+                  value={settings.fftSize}
+                  onChange={(e) => onSettingChange('fftSize', parseInt(e.target.value))}
+                  className="w-full p-2 bg-gray-800 border border-gray-600 rounded text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {FFT_SIZE_OPTIONS.map((size) => (
+                    <option key={size} value={size}>{size} points</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">
+                  Larger sizes give finer bass resolution but react more slowly
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Window Function
+                </label>
+                <select
+                  value={settings.fftWindow}
+                  onChange={(e) => onSettingChange('fftWindow', e.target.value as FftWindow)}
+                  className="w-full p-2 bg-gray-800 border border-gray-600 rounded text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {FFT_WINDOW_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">
+                  {FFT_WINDOW_OPTIONS.find(opt => opt.value === settings.fftWindow)?.description}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Overlap: {Math.round(settings.fftOverlap * 100)}%
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {[0, 0.5, 0.75, 0.875].map((overlap) => (
+                    <button
+                      key={overlap}
+                      onClick={() => onSettingChange('fftOverlap', overlap)}
+                      className={`px-2 py-1 rounded-lg text-xs font-medium transition-all ${
+                        settings.fftOverlap === overlap
+                          ? 'bg-blue-600 text-white shadow-lg ring-2 ring-blue-400'
+                          : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                      }`}
+                    >
+                      {overlap * 100}%
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Frequency Scale
+                </label>
+                <select
+                  value={settings.frequencyScale}
+                  onChange={(e) => onSettingChange('frequencyScale', e.target.value as FrequencyScale)}
+                  className="w-full p-2 bg-gray-800 border border-gray-600 rounded text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {FREQUENCY_SCALE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">
+                  {FREQUENCY_SCALE_OPTIONS.find(opt => opt.value === settings.frequencyScale)?.description}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Min Frequency: {settings.minFrequency} Hz
+                </label>
+                <input
+                  type="range"
+                  min="20"
+                  max="500"
+                  step="10"
+                  value={settings.minFrequency}
+                  onChange={(e) => onSettingChange('minFrequency', parseInt(e.target.value))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Max Frequency: {(settings.maxFrequency / 1000).toFixed(1)} kHz
+                </label>
+                <input
+                  type="range"
+                  min="2000"
+                  max="24000"
+                  step="500"
+                  value={settings.maxFrequency}
+                  onChange={(e) => onSettingChange('maxFrequency', parseInt(e.target.value))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">
+                  Show Frequency Labels
+                </label>
+                <input
+                  type="checkbox"
+                  checked={settings.showFrequencyLabels}
+                  onChange={(e) => onSettingChange('showFrequencyLabels', e.target.checked)}
+                  className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Levels */}
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Level Range: {settings.dbFloor} dB to {settings.dbCeiling} dB
+              </label>
+              <input
+                type="range"
+                min="-100"
+                max="-30"
+                step="5"
+                value={settings.dbFloor}
+                onChange={(e) => onSettingChange('dbFloor', parseInt(e.target.value))}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+              />
+              <input
+                type="range"
+                min="-30"
+                max="0"
+                step="1"
+                value={settings.dbCeiling}
+                onChange={(e) => onSettingChange('dbCeiling', parseInt(e.target.value))}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider mt-3"
+              />
+              <div className="flex justify-between text-xs text-gray-400">
+                <span>Floor</span>
+                <span>Ceiling</span>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">
+                Automatic Gain Control
+              </label>
+              <input
+                type="checkbox"
+                checked={settings.agcEnabled}
+                onChange={(e) => onSettingChange('agcEnabled', e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+              />
+            </div>
+            {settings.agcEnabled && (
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  AGC Window: {settings.agcWindow}s
+                </label>
+                <input
+                  type="range"
+                  min="1"
+                  max="30"
+                  value={settings.agcWindow}
+                  onChange={(e) => onSettingChange('agcWindow', parseInt(e.target.value))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  Quiet and loud tracks are normalized against the loudest moment in this window
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Attack: {settings.attackMs} ms
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="200"
+                step="5"
+                value={settings.attackMs}
+                onChange={(e) => onSettingChange('attackMs', parseInt(e.target.value))}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Release: {settings.releaseMs} ms
+              </label>
+              <input
+                type="range"
+                min="20"
+                max="1000"
+                step="10"
+                value={settings.releaseMs}
+                onChange={(e) => onSettingChange('releaseMs', parseInt(e.target.value))}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">
+                Peak Hold
+              </label>
+              <input
+                type="checkbox"
+                checked={settings.peakHold}
+                onChange={(e) => onSettingChange('peakHold', e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+              />
+            </div>
+            {settings.peakHold && (
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Peak Fall Speed: {settings.peakDecay.toFixed(1)}
+                </label>
+                <input
+                  type="range"
+                  min="0.1"
+                  max="3"
+                  step="0.1"
+                  value={settings.peakDecay}
+                  onChange={(e) => onSettingChange('peakDecay', parseFloat(e.target.value))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Stereo Mode */}
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Stereo View
+            </label>
+            <div className="flex items-center space-x-3 mb-2">
+              <button
+                onClick={() => onSettingChange('stereoMode', 'mono')}
+                className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all ${
+                  settings?.stereoMode !== 'split'
+                    ? 'bg-blue-600 text-white shadow-lg ring-2 ring-blue-400'
+                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                <div className="flex items-center justify-center gap-2">
+                  <span>🔈</span>
+                  <span>Mono</span>
+                </div>
+              </button>
+              <button
+                onClick={() => onSettingChange('stereoMode', 'split')}
+                className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all ${
+                  settings?.stereoMode === 'split'
+                    ? 'bg-blue-600 text-white shadow-lg ring-2 ring-blue-400'
+                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                <div className="flex items-center justify-center gap-2">
+                  <span>🎧</span>
+                  <span>Split L/R</span>
+                </div>
+              </button>
+            </div>
+            <p className="text-xs text-gray-400">
+              {settings?.stereoMode === 'split'
+                ? 'Split L/R: Wave, Bars and Meter draw left and right channels separately'
+                : 'Mono: Channels are mixed together before drawing'}
+            </p>
+          </div>
+
+          {/* Beat Detection */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">
+                React to Beats
+              </label>
+              <input
+                type="checkbox"
+                checked={settings.beatReactive}
+                onChange={(e) => onSettingChange('beatReactive', e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+              />
+            </div>
+            <p className="text-xs text-gray-400">
+              Confetti bursts, Kaleidosync changes color and Triangular pulses on each detected beat
+            </p>
+
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">
+                Show BPM
+              </label>
+              <input
+                type="checkbox"
+                checked={settings.showBpm}
+                onChange={(e) => onSettingChange('showBpm', e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+              />
+            </div>
+          </div>
+
+          {/* Visualization Options */}
+          {visualization?.settings && visualization.settings.length > 0 && (
+            <div className="space-y-3">
+              <label className="block text-sm font-medium">
+                {visualization.label} Options
+              </label>
+              {visualization.settings.map((setting) => {
+                const value = visualizationOptions[setting.key];
+                switch (setting.type) {
+                  case 'range':
+                    return (
+                      <div key={setting.key}>
+                        <label className="block text-xs text-gray-400 mb-1">
+                          {setting.label}: {value}
+                        </label>
+                        <input
+                          type="range"
+                          min={setting.min}
+                          max={setting.max}
+                          step={setting.step}
+                          value={value as number}
+                          onChange={(e) => setVisualizationOption(setting.key, parseFloat(e.target.value))}
+                          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                        />
+                        {setting.description && (
+                          <p className="text-xs text-gray-400 mt-1">{setting.description}</p>
+                        )}
+                      </div>
+                    );
+                  case 'boolean':
+                    return (
+                      <div key={setting.key}>
+                        <div className="flex items-center justify-between">
+                          <label className="text-xs text-gray-400">
+                            {setting.label}
+                          </label>
+                          <input
+                            type="checkbox"
+                            checked={value as boolean}
+                            onChange={(e) => setVisualizationOption(setting.key, e.target.checked)}
+                            className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                          />
+                        </div>
+                        {setting.description && (
+                          <p className="text-xs text-gray-400 mt-1">{setting.description}</p>
+                        )}
+                      </div>
+                    );
+                  case 'select':
+                    return (
+                      <div key={setting.key}>
+                        <label className="block text-xs text-gray-400 mb-1">
+                          {setting.label}
+                        </label>
+                        <select
+                          value={value as string}
+                          onChange={(e) => setVisualizationOption(setting.key, e.target.value)}
+                          className="w-full p-2 bg-gray-800 border border-gray-600 rounded text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          {setting.options.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        {setting.description && (
+                          <p className="text-xs text-gray-400 mt-1">{setting.description}</p>
+                        )}
+                      </div>
+                    );
+                }
+              })}
+            </div>
+          )}
+
           {/* Show Visualization Name */}
           <div className="flex items-center justify-between">
             <label className="text-sm font-medium">
@@ -278,6 +690,9 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             />
           </div>
 
+          {/* Playlist */}
+          <PlaylistEditor settings={settings} presets={presets} onSettingChange={onSettingChange} />
+
           {/* Performance Mode */}
           <div>
             <label className="block text-sm font-medium mb-2">
@@ -303,7 +718,77 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
               <option value="performance">🚀 Performance - Optimized for smooth performance</option>
             </select>
             <p className="text-xs text-gray-400 mt-1">
-              Choose between quality and performance for heavy visualizations like Plasma, Milkdrop, and Kaleidoscope
+              Sets render resolution, frame rate cap, particle counts, bins drawn and glow for each visualization
+            </p>
+          </div>
+
+          {/* Adaptive Quality */}
+          <div className="space-y-3">
+            <div>
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">
+                  Adaptive Quality
+                </label>
+                <input
+                  type="checkbox"
+                  checked={settings.adaptiveQuality}
+                  onChange={(e) => onSettingChange('adaptiveQuality', e.target.checked)}
+                  className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                />
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                Lowers resolution, grid detail and particle counts when frames fall behind the target rate, and restores them when there is headroom
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">
+                Show Performance Overlay
+              </label>
+              <input
+                type="checkbox"
+                checked={settings.showPerformanceOverlay}
+                onChange={(e) => onSettingChange('showPerformanceOverlay', e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+              />
+            </div>
+          </div>
+
+          {/* GPU Rendering */}
+          <div>
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">
+                GPU Rendering (WebGL)
+              </label>
+              <input
+                type="checkbox"
+                checked={settings.useWebGL}
+                onChange={(e) => onSettingChange('useWebGL', e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+              />
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              Plasma, Milkdrop, Burning and Kaleidosync run as shaders; falls back to Canvas 2D when WebGL is unavailable
+            </p>
+          </div>
+
+          {/* Worker Rendering */}
+          <div>
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">
+                Render in Background Thread
+              </label>
+              <input
+                type="checkbox"
+                checked={settings.renderInWorker}
+                onChange={(e) => onSettingChange('renderInWorker', e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+              />
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              {supportsWorkerRendering()
+                ? 'Moves audio analysis and drawing to a Web Worker with OffscreenCanvas so the interface stays responsive'
+                : 'OffscreenCanvas is not supported on this device; rendering stays on the main thread'}
             </p>
           </div>
         </div>
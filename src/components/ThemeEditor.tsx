@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { COLOR_MAPPING_OPTIONS, ColorMapping, ColorTheme, FlowThingSettings } from '../types/visualization';
+import { CLASSIC_THEME_ID, MAX_GRADIENT_STOPS, ThemeImportError, copyTheme, exportThemes, getThemes, isBuiltinTheme, parseThemes, resolveTheme } from '../ColorThemes';
+
+interface ThemeEditorProps {
+  settings: FlowThingSettings;
+  onSettingChange: <K extends keyof FlowThingSettings>(key: K, value: FlowThingSettings[K]) => void;
+}
+
+const inputClass = "w-full p-2 bg-gray-800 border border-gray-600 rounded text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+const buttonClass = "flex-1 px-3 py-2 rounded-lg font-medium transition-all text-xs bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed";
+
+// CSS preview of a theme's gradient
+const gradientCss = (theme: ColorTheme) => theme.gradient.length > 1
+  ? `linear-gradient(to right, ${theme.gradient.join(', ')})`
+  : theme.gradient[0] ?? theme.primary;
+
+// Theme picker, editor for custom themes, and JSON import/export
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ settings, onSettingChange }) => {
+  const [transferText, setTransferText] = useState('');
+  const [transferMessage, setTransferMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const themes = getThemes(settings);
+  const theme = resolveTheme(settings);
+  const customThemes = settings.customThemes ?? [];
+  const editable = !isBuiltinTheme(theme.id);
+
+  const updateTheme = (patch: Partial<ColorTheme>) => {
+    onSettingChange('customThemes', customThemes.map(candidate => candidate.id === theme.id ? { ...candidate, ...patch } : candidate));
+  };
+
+  const updateStop = (index: number, color: string) => {
+    updateTheme({ gradient: theme.gradient.map((stop, i) => i === index ? color : stop) });
+  };
+
+  // Built-ins are read-only; editing starts from a copy
+  const customize = () => {
+    const copy = copyTheme(theme);
+    onSettingChange('customThemes', [...customThemes, copy]);
+    onSettingChange('themeId', copy.id);
+  };
+
+  const deleteTheme = () => {
+    onSettingChange('customThemes', customThemes.filter(candidate => candidate.id !== theme.id));
+    onSettingChange('themeId', CLASSIC_THEME_ID);
+  };
+
+  const exportCurrent = () => {
+    const json = exportThemes([theme]);
+    setTransferText(json);
+    // Clipboard access isn't available everywhere (e.g. plain http), the text box always works
+    navigator.clipboard?.writeText(json)
+      .then(() => setTransferMessage({ text: `Copied "${theme.name}" to the clipboard`, error: false }))
+      .catch(() => setTransferMessage({ text: 'Copy the JSON below to share this theme', error: false }));
+  };
+
+  const importThemes = () => {
+    try {
+      const imported = parseThemes(transferText);
+      onSettingChange('customThemes', [...customThemes, ...imported]);
+      onSettingChange('themeId', imported[0].id);
+      setTransferMessage({ text: `Imported ${imported.length} theme${imported.length === 1 ? '' : 's'}`, error: false });
+      setTransferText('');
+    } catch (error) {
+      const text = error instanceof ThemeImportError ? error.message : `Import failed: ${error}`;
+      console.warn('[FlowThing] Theme import failed:', text);
+      setTransferMessage({ text, error: true });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium">
+        Color Theme
+      </label>
+      <select
+        value={theme.id}
+        onChange={(e) => onSettingChange('themeId', e.target.value)}
+        className={inputClass}
+      >
+        {themes.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.name}{isBuiltinTheme(option.id) ? '' : ' (custom)'}
+          </option>
+        ))}
+      </select>
+
+      {/* Preview */}
+      <div className="flex items-center gap-2">
+        <div className="w-8 h-8 rounded border border-gray-600 flex-shrink-0" style={{ backgroundColor: theme.background }} title="Background" />
+        <div className="w-8 h-8 rounded border border-gray-600 flex-shrink-0" style={{ backgroundColor: theme.primary }} title="Primary" />
+        <div className="flex-1 h-8 rounded border border-gray-600" style={{ background: gradientCss(theme) }} title="Gradient" />
+      </div>
+      <p className="text-xs text-gray-400">
+        {theme.id === CLASSIC_THEME_ID
+          ? 'Classic uses the Background and Primary colors below with a rainbow gradient.'
+          : `${COLOR_MAPPING_OPTIONS.find(option => option.value === theme.mapping)?.description ?? ''}${theme.hueCycle > 0 ? `, hue cycling at ${theme.hueCycle}°/s` : ''}`}
+      </p>
+
+      {editable ? (
+        <div className="space-y-3 p-3 bg-gray-800 bg-opacity-50 rounded-lg">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Name</label>
+            <input
+              type="text"
+              value={theme.name}
+              onChange={(e) => updateTheme({ name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="flex gap-4">
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={theme.background}
+                onChange={(e) => updateTheme({ background: e.target.value })}
+                className="w-10 h-8 bg-transparent border border-gray-600 rounded cursor-pointer"
+              />
+              <span className="text-xs text-gray-400">Background</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={theme.primary}
+                onChange={(e) => updateTheme({ primary: e.target.value })}
+                className="w-10 h-8 bg-transparent border border-gray-600 rounded cursor-pointer"
+              />
+              <span className="text-xs text-gray-400">Primary</span>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Gradient (low to high)</label>
+            <div className="flex flex-wrap items-center gap-2">
+              {theme.gradient.map((stop, index) => (
+                <div key={index} className="flex items-center">
+                  <input
+                    type="color"
+                    value={stop}
+                    onChange={(e) => updateStop(index, e.target.value)}
+                    className="w-8 h-8 bg-transparent border border-gray-600 rounded cursor-pointer"
+                  />
+                  {theme.gradient.length > 1 && (
+                    <button
+                      onClick={() => updateTheme({ gradient: theme.gradient.filter((_, i) => i !== index) })}
+                      className="ml-0.5 text-xs text-gray-400 hover:text-white"
+                      title="Remove stop"
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+              {theme.gradient.length < MAX_GRADIENT_STOPS && (
+                <button
+                  onClick={() => updateTheme({ gradient: [...theme.gradient, theme.gradient[theme.gradient.length - 1] ?? theme.primary] })}
+                  className="w-8 h-8 rounded border border-dashed border-gray-500 text-gray-400 hover:text-white hover:border-gray-300"
+                  title="Add stop"
+                >
+                  +
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Color Mapping</label>
+            <select
+              value={theme.mapping}
+              onChange={(e) => updateTheme({ mapping: e.target.value as ColorMapping })}
+              className={inputClass}
+            >
+              {COLOR_MAPPING_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Hue Cycle: {theme.hueCycle === 0 ? 'Off' : `${theme.hueCycle}°/s`}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="120"
+              step="5"
+              value={theme.hueCycle}
+              onChange={(e) => updateTheme({ hueCycle: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={customize} className={buttonClass}>Duplicate</button>
+            <button onClick={deleteTheme} className={`${buttonClass} hover:bg-red-700`}>Delete</button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button onClick={customize} className={buttonClass}>Customize</button>
+        </div>
+      )}
+
+      {/* Import / Export */}
+      <div className="space-y-2">
+        <textarea
+          value={transferText}
+          onChange={(e) => setTransferText(e.target.value)}
+          placeholder="Paste theme JSON to import"
+          rows={3}
+          className={`${inputClass} text-xs font-mono`}
+        />
+        <div className="flex gap-2">
+          <button onClick={exportCurrent} className={buttonClass}>Export Theme</button>
+          <button onClick={importThemes} disabled={!transferText.trim()} className={buttonClass}>Import</button>
+        </div>
+        {transferMessage && (
+          <p className={`text-xs ${transferMessage.error ? 'text-red-400' : 'text-gray-400'}`}>{transferMessage.text}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ThemeEditor;
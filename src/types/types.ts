@@ -1,5 +1,5 @@
 export type GenericTransitData = {
-  type: 'get' | 'connect' | 'disconnect' | 'refresh' | 'start' | 'stop';
+  type: 'get' | 'audio_source' | 'presets' | 'settings_update' | 'connect' | 'disconnect' | 'refresh' | 'start' | 'stop';
   payload?: any;
 };
 
@@ -14,20 +14,60 @@ export type ToClientData =
     }
   | {
       type: 'audio_data';
-      payload: AudioStreamData;
+      payload: AudioStreamData | LegacyAudioStreamData;
+    }
+  | {
+      type: 'spectrum';
+      payload: SpectrumData;
+    }
+  | {
+      type: 'presets';
+      payload: VisualizationPreset[];
+    }
+  | {
+      type: 'settings_sync';
+      payload: SettingsSnapshot;
     };
 
+// 'raw': PCM bytes laid out as described by the audio_format message
+// 'f32le': normalized little-endian float32 samples (server-side downsampled)
+export type AudioTransportEncoding = 'raw' | 'f32le';
+
+// Transport v2+: base64-encoded payload
 export interface AudioStreamData {
-  data: number[]; // Audio buffer as array
+  version: number;
+  encoding: AudioTransportEncoding;
+  data: string; // base64
+  length: number; // decoded byte length
+  timestamp: number;
+}
+
+// Transport v1: raw bytes as a number array
+export interface LegacyAudioStreamData {
+  version?: undefined;
+  data: number[];
   length: number;
   timestamp: number;
 }
 
+// Pre-analyzed spectrum frame sent when analysis runs on the server
+export interface SpectrumData {
+  bins: number[]; // normalized 0-1, log-frequency spaced from minFrequency to Nyquist
+  rms: number;
+  peak: number;
+  sampleRate: number;
+  fftSize: number;
+  minFrequency: number; // Hz at the low edge of the first bin
+  rangeDb: number; // dB covered by 0-1 in bins
+  timestamp: number;
+}
+
 export interface AudioFormatData {
   sampleRate: number;
   bitsPerSample: number;
   channels: number;
   encoding: string;
+  endianness?: 'little' | 'big';
   downsampleFactor?: number;
   originalSampleRate?: number;
 }
@@ -36,4 +76,59 @@ export interface AudioStreamStatus {
   connected: boolean;
   audioFormat?: AudioFormatData;
   serverUrl: string;
+  transportVersion?: number;
+  analysisMode?: AnalysisMode;
+  source?: AudioStreamSource;
+  playbackFile?: string; // file name when source is 'file'
+  captureBackend?: 'websocket' | 'pulse'; // what the 'capture' source reads from
+  // Capture source only: where the connection is in its reconnect cycle
+  connectionState?: StreamConnectionState;
+  reconnectAttempt?: number; // attempts since the last successful connection
+  retryInMs?: number; // while in 'backoff'
+  stale?: boolean; // connected, but no audio has arrived for a while
+}
+
+// 'backoff': waiting to retry after a lost or refused connection
+// 'failed': gave up after too many attempts; a new connect request starts over
+export type StreamConnectionState = 'idle' | 'connecting' | 'connected' | 'backoff' | 'failed';
+
+// Where the server's audio stream comes from
+export type AudioStreamSource = 'capture' | 'file';
+
+// 'client': raw PCM is streamed and analyzed in the browser
+// 'server': only spectrum frames are streamed
+export type AnalysisMode = 'client' | 'server';
+
+// A saved look: the visualization with its options, colors and audio response.
+// `settings` holds a subset of the client's FlowThingSettings (see src/Presets.ts).
+export interface VisualizationPreset {
+  id: string;
+  name: string;
+  createdAt: number; // ms since epoch
+  updatedAt: number;
+  settings: Record<string, unknown>;
+}
+
+// Preset requests from the client; the server answers each with the full list
+export type PresetRequest =
+  | { action: 'list' }
+  | { action: 'save'; presets: VisualizationPreset[] } // add, or replace by id
+  | { action: 'delete'; id: string };
+
+// Server -> client: the settings the desktop holds. Not sent as 'settings',
+// which DeskThing uses for its own app settings event. Revisions count changes
+// from either side within one server session; see server/setupSettings.ts.
+export interface SettingsSnapshot {
+  values: Record<string, unknown>;
+  revision: number;
+  session: string; // changes when the server restarts
+  version: number; // settings schema version the values are in
+  rejected?: string[]; // keys of the client's last update that lost to newer desktop changes
+}
+
+// Client -> server: changed synced settings and the revision they were based on
+export interface SettingsUpdate {
+  changes: Record<string, unknown>;
+  revision: number;
+  session: string | null;
 }
\ No newline at end of file
@@ -1,81 +1,81 @@
+import type { AudioFrameStore } from '../AudioFrameStore';
+import type { VisualizationOptions } from '../visualizations/types';
+import type { VisualizationWorkerClient } from '../workers/VisualizationWorkerClient';
+import type { FftWindow } from '../../shared/fftWindow';
+
+export type { FftWindow };
+
 export interface FlowThingSettings {
   visualizationType: string;
   audioSensitivity: number;
   backgroundColor: string;
   primaryColor: string;
+  themeId: string; // built-in or custom ColorTheme id; 'classic' uses backgroundColor/primaryColor
+  customThemes: ColorTheme[];
   animationSpeed: number;
-  audioSource: 'system' | 'microphone' | 'mock';
+  audioSource: 'system' | 'microphone' | 'file' | 'mock';
   audioAnalysisMethod: AudioAnalysisMethod;
-  autoChangeInterval: number;
+  fftSize: number;
+  fftWindow: FftWindow;
+  fftOverlap: number;
+  frequencyScale: FrequencyScale;
+  minFrequency: number;
+  maxFrequency: number;
+  showFrequencyLabels: boolean;
+  dbFloor: number;
+  dbCeiling: number;
+  agcEnabled: boolean;
+  agcWindow: number; // seconds
+  attackMs: number;
+  releaseMs: number;
+  peakHold: boolean;
+  peakDecay: number; // normalized units per second
+  stereoMode: StereoMode;
+  beatReactive: boolean; // let effects pulse and burst on detected beats
+  showBpm: boolean;
+  autoChangeInterval: number; // seconds, default duration for new playlist items
+  playlistEnabled: boolean;
+  playlistItems: PlaylistItem[];
+  playlistOrder: PlaylistOrder;
+  playlistBeatSync: boolean; // once an item's time is up, switch on the next beat
+  transitionStyle: TransitionStyle;
+  transitionDuration: number; // ms
   showVisualizationName: boolean;
+  visualizationOptions: Record<string, VisualizationOptions>; // per-visualization settings keyed by visualization id
   performanceMode: 'quality' | 'balanced' | 'performance';
+  adaptiveQuality: boolean; // step quality below performanceMode when frames run slow
+  showPerformanceOverlay: boolean;
+  useWebGL: boolean; // draw heavy visualizations with shaders when WebGL is available
+  renderInWorker: boolean; // analyse and draw in a Web Worker via OffscreenCanvas when supported
+}
+
+// Stereo analysis produced from the first two channels of the stream
+export interface StereoAudioData {
+  left: number[];
+  right: number[];
+  mid: number[];
+  side: number[];
+  correlation: number; // -1 (out of phase) to 1 (mono)
+  balance: number; // -1 (left) to 1 (right)
+  scope: {
+    left: number[];
+    right: number[];
+  };
 }
 
 export interface VisualizationProps {
   settings: FlowThingSettings;
-  audioData?: number[];
+  frameStore: AudioFrameStore; // read once per drawn frame, never through React state
   isActive: boolean;
+  worker?: VisualizationWorkerClient | null; // when set, the worker draws and frameStore is unused
 }
 
-export type VisualizationType = 'wave' | 'confetti' | 'bars' | 'burning' | 'plasma' | 'meter' | 'triangular' | 'milkdrop' | 'kaleidosync';
-
-export interface VisualizationOption {
-  label: string;
-  value: VisualizationType;
-  description: string;
-}
-
-export const VISUALIZATION_OPTIONS: VisualizationOption[] = [
-  {
-    label: "Wave",
-    value: "wave",
-    description: "Smooth wave visualization that responds to audio"
-  },
-  {
-    label: "Confetti",
-    value: "confetti",
-    description: "Colorful confetti particles"
-  },
-  {
-    label: "Bars",
-    value: "bars",
-    description: "Dynamic bar chart visualization"
-  },
-  {
-    label: "Burning",
-    value: "burning",
-    description: "Fire-like burning effect visualization"
-  },
-  {
-    label: "Plasma",
-    value: "plasma",
-    description: "Smooth plasma field visualization"
-  },
-  {
-    label: "Meter",
-    value: "meter",
-    description: "Audio level meter visualization"
-  },
-  {
-    label: "Triangular",
-    value: "triangular",
-    description: "Geometric triangular patterns"
-  },
-  {
-    label: "Milkdrop",
-    value: "milkdrop",
-    description: "Classic milkdrop-style visualization"
-  },
-  {
-    label: "Kaleidosync",
-    value: "kaleidosync",
-    description: "Kaleidoscope with audio synchronization"
-  }
-];
+// Id of a visualization registered in src/visualizations
+export type VisualizationType = string;
 
 export interface AudioSourceOption {
   label: string;
-  value: 'system' | 'microphone' | 'mock';
+  value: 'system' | 'microphone' | 'file' | 'mock';
   description: string;
 }
 
@@ -88,7 +88,12 @@ export const AUDIO_SOURCE_OPTIONS: AudioSourceOption[] = [
   {
     label: "🎤 Microphone",
     value: "microphone",
-    description: "Use microphone input for audio visualization"
+    description: "Use this device's microphone (asks for permission the first time)"
+  },
+  {
+    label: "📁 Audio File",
+    value: "file",
+    description: "Play a WAV, FLAC or MP3 file from the host's playback folder through the server"
   },
   {
     label: "🎲 Demo Mode",
@@ -103,12 +108,102 @@ export const defaultSettings: FlowThingSettings = {
   audioSensitivity: 50,
   backgroundColor: "#000000",
   primaryColor: "#667eea",
+  themeId: "classic",
+  customThemes: [],
   animationSpeed: 50,
   audioSource: "system",
   audioAnalysisMethod: 'fft',
+  fftSize: 2048,
+  fftWindow: 'hann',
+  fftOverlap: 0.5,
+  frequencyScale: 'log',
+  minFrequency: 20,
+  maxFrequency: 20000,
+  showFrequencyLabels: false,
+  dbFloor: -70,
+  dbCeiling: 0,
+  agcEnabled: false,
+  agcWindow: 5,
+  attackMs: 10,
+  releaseMs: 250,
+  peakHold: true,
+  peakDecay: 1,
+  stereoMode: 'mono',
+  beatReactive: true,
+  showBpm: false,
   autoChangeInterval: 30,
+  playlistEnabled: false,
+  playlistItems: [],
+  playlistOrder: 'ordered',
+  playlistBeatSync: false,
+  transitionStyle: 'crossfade',
+  transitionDuration: 1000,
   showVisualizationName: true,
-  performanceMode: "balanced"
+  visualizationOptions: {},
+  performanceMode: "balanced",
+  adaptiveQuality: false,
+  showPerformanceOverlay: false,
+  useWebGL: true,
+  renderInWorker: false
 };
 
 export type AudioAnalysisMethod = 'fft' | 'rms';
+
+export type FrequencyScale = 'linear' | 'log' | 'mel' | 'bark' | 'octave-3' | 'octave-6';
+
+export const FREQUENCY_SCALE_OPTIONS: { label: string; value: FrequencyScale; description: string }[] = [
+  { label: "Linear", value: "linear", description: "Equal Hz per band - treble takes most of the screen" },
+  { label: "Logarithmic", value: "log", description: "Equal width per octave - musical and balanced" },
+  { label: "Mel", value: "mel", description: "Perceptual pitch scale used in speech and music analysis" },
+  { label: "Bark", value: "bark", description: "Critical bands of human hearing" },
+  { label: "1/3 Octave", value: "octave-3", description: "Standard 1/3-octave bands, like a graphic EQ" },
+  { label: "1/6 Octave", value: "octave-6", description: "Finer 1/6-octave bands" }
+];
+
+export const FFT_WINDOW_OPTIONS: { label: string; value: FftWindow; description: string }[] = [
+  { label: "Hann", value: "hann", description: "Good general-purpose window" },
+  { label: "Hamming", value: "hamming", description: "Slightly sharper peaks, higher side lobes" },
+  { label: "Blackman-Harris", value: "blackman-harris", description: "Very low leakage, wider peaks" },
+  { label: "Flat-top", value: "flat-top", description: "Accurate peak levels, widest peaks" }
+];
+
+export type StereoMode = 'mono' | 'split';
+
+// One entry in the auto-cycle playlist: a visualization with its current
+// settings, or a saved preset, shown for `duration` seconds
+export interface PlaylistItem {
+  id: string;
+  kind: 'visualization' | 'preset';
+  target: string; // visualization id or preset id
+  duration: number;
+}
+
+export type PlaylistOrder = 'ordered' | 'shuffle';
+
+export type TransitionStyle = 'none' | 'crossfade' | 'wipe';
+
+export const TRANSITION_STYLE_OPTIONS: { label: string; value: TransitionStyle; description: string }[] = [
+  { label: "None", value: "none", description: "Switch instantly" },
+  { label: "Crossfade", value: "crossfade", description: "Fade the new visualization in over the old one" },
+  { label: "Wipe", value: "wipe", description: "Sweep the new visualization in from the left" }
+];
+
+// How bars, rings and other per-bin shapes pick their color from a theme
+export type ColorMapping = 'single' | 'frequency' | 'level';
+
+export const COLOR_MAPPING_OPTIONS: { label: string; value: ColorMapping; description: string }[] = [
+  { label: "Single Color", value: "single", description: "Everything in the theme's primary color" },
+  { label: "By Frequency", value: "frequency", description: "Bass to treble runs along the gradient" },
+  { label: "By Level", value: "level", description: "Louder bins move further along the gradient" }
+];
+
+// A named palette that every visualization draws from
+export interface ColorTheme {
+  id: string;
+  name: string;
+  background: string; // '#rrggbb'
+  primary: string; // single-color shapes, glow and accents
+  gradient: string[]; // evenly spaced stops from low to high, at least one
+  mapping: ColorMapping;
+  hueCycle: number; // degrees per second the whole palette rotates, 0 to hold still
+}
@@ -0,0 +1,143 @@
+import { VisualizationQuality } from './types';
+
+// How far each tier backs off from the selected performance mode.
+// Tier 0 is the mode as configured; the controller never goes above it.
+const QUALITY_TIERS = [
+  { resolution: 1, grid: 1, particles: 1 },
+  { resolution: 0.85, grid: 1.25, particles: 0.8 },
+  { resolution: 0.7, grid: 1.5, particles: 0.6 },
+  { resolution: 0.55, grid: 2, particles: 0.45 },
+  { resolution: 0.4, grid: 2.5, particles: 0.3 }
+];
+
+// Frames kept for the rolling averages (~1 s at 60 FPS)
+const WINDOW_SIZE = 60;
+// Step down when the measured rate falls below this share of the target
+const DOWNGRADE_FPS_RATIO = 0.85;
+// Step up only when rendering takes less than this share of the frame budget
+const UPGRADE_WORK_RATIO = 0.45;
+// A condition has to hold this long before the tier changes
+const DOWNGRADE_AFTER_MS = 1000;
+const UPGRADE_AFTER_MS = 4000;
+// Let the averages settle on the new tier before judging it
+const COOLDOWN_MS = 2000;
+// Longer gaps mean the tab was hidden or the loop paused, not a slow frame
+const MAX_FRAME_GAP_MS = 500;
+
+export interface AdaptiveQualityStats {
+  fps: number;
+  frameTime: number; // ms between rendered frames
+  workTime: number; // ms spent inside render()
+  tier: number; // 0 = selected mode, higher = more reduced
+  tierCount: number;
+}
+
+// Steps rendering quality down when frames miss the target rate and back up
+// when there is sustained headroom. Separate thresholds, hold times and a
+// cooldown after each change keep it from oscillating between tiers.
+export class AdaptiveQualityController {
+  private tier = 0;
+  private frameTimes: number[] = [];
+  private workTimes: number[] = [];
+  private lastFrameTime = 0;
+  private lastChangeTime = 0;
+  private missingSince: number | null = null;
+  private headroomSince: number | null = null;
+
+  public reset(now: number = 0) {
+    this.tier = 0;
+    this.frameTimes = [];
+    this.workTimes = [];
+    this.lastFrameTime = 0;
+    this.lastChangeTime = now;
+    this.missingSince = null;
+    this.headroomSince = null;
+  }
+
+  public getTier(): number {
+    return this.tier;
+  }
+
+  // Record a rendered frame's timing
+  public recordFrame(now: number, workTime: number) {
+    const gap = this.lastFrameTime > 0 ? now - this.lastFrameTime : 0;
+    this.lastFrameTime = now;
+
+    if (gap > 0 && gap <= MAX_FRAME_GAP_MS) {
+      this.push(this.frameTimes, gap);
+      this.push(this.workTimes, workTime);
+    }
+  }
+
+  // Step the tier if the recent frames call for it. Returns true when it changed.
+  public update(now: number, targetFps: number): boolean {
+    if (this.frameTimes.length < WINDOW_SIZE / 2 || now - this.lastChangeTime < COOLDOWN_MS) {
+      return false;
+    }
+
+    const budget = 1000 / targetFps;
+    const fps = 1000 / this.average(this.frameTimes);
+    const missing = fps < targetFps * DOWNGRADE_FPS_RATIO;
+    const headroom = !missing && this.average(this.workTimes) < budget * UPGRADE_WORK_RATIO;
+
+    this.missingSince = missing ? this.missingSince ?? now : null;
+    this.headroomSince = headroom ? this.headroomSince ?? now : null;
+
+    if (this.missingSince !== null && now - this.missingSince >= DOWNGRADE_AFTER_MS && this.tier < QUALITY_TIERS.length - 1) {
+      return this.setTier(this.tier + 1, now);
+    }
+
+    if (this.headroomSince !== null && now - this.headroomSince >= UPGRADE_AFTER_MS && this.tier > 0) {
+      return this.setTier(this.tier - 1, now);
+    }
+
+    return false;
+  }
+
+  // Scale the configured quality down to the current tier
+  public apply(quality: VisualizationQuality): VisualizationQuality {
+    const tier = QUALITY_TIERS[this.tier];
+    if (this.tier === 0) return quality;
+
+    return {
+      ...quality,
+      resolutionScale: quality.resolutionScale * tier.resolution,
+      gridStep: Math.round(quality.gridStep * tier.grid),
+      particleScale: quality.particleScale * tier.particles,
+      glow: false
+    };
+  }
+
+  public getStats(): AdaptiveQualityStats {
+    const frameTime = this.average(this.frameTimes);
+    return {
+      fps: frameTime > 0 ? 1000 / frameTime : 0,
+      frameTime,
+      workTime: this.average(this.workTimes),
+      tier: this.tier,
+      tierCount: QUALITY_TIERS.length
+    };
+  }
+
+  private setTier(tier: number, now: number): boolean {
+    this.tier = tier;
+    this.lastChangeTime = now;
+    this.missingSince = null;
+    this.headroomSince = null;
+    // Old samples describe the previous tier
+    this.frameTimes = [];
+    this.workTimes = [];
+    return true;
+  }
+
+  private push(buffer: number[], value: number) {
+    buffer.push(value);
+    if (buffer.length > WINDOW_SIZE) {
+      buffer.shift();
+    }
+  }
+
+  private average(values: number[]): number {
+    return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+}
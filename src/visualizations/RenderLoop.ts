@@ -0,0 +1,339 @@
+import { FlowThingSettings, defaultSettings } from '../types/visualization';
+import { AudioFrameStore } from '../AudioFrameStore';
+import { VisualizationFrame, VisualizationPlugin, VisualizationQuality, VisualizationRenderer, WebGLVisualizationRenderer } from './types';
+import { getVisualization, resolveVisualizationOptions } from './registry';
+import { qualityPixelRatio, reduceBins, reduceStereoBins, resolveQuality } from './quality';
+import { createGLContext } from './webgl';
+import { AdaptiveQualityController } from './AdaptiveQuality';
+import { createPalette } from './palette';
+import { resolveTheme } from '../ColorThemes';
+import { createLayer, drawTransition } from './transitions';
+
+// The loop runs on the main thread with DOM canvases, or in a worker with
+// OffscreenCanvases transferred from them
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export type RenderBackend = '2d' | 'webgl';
+
+export interface RenderLoopCallbacks {
+  onBackendChange?: (backend: RenderBackend) => void;
+  onStats?: (text: string) => void; // performance overlay text, a few times a second
+}
+
+// width/height are the CSS size last passed to renderer.resize()
+type ActiveVisualization = { plugin: VisualizationPlugin; width: number; height: number } & (
+  | { backend: '2d'; renderer: VisualizationRenderer; ctx: CanvasRenderingContext2D }
+  | { backend: 'webgl'; renderer: WebGLVisualizationRenderer; gl: WebGLRenderingContext }
+);
+
+// Without audio yet, draw low random levels so the screen isn't empty
+const placeholderLevels = () => Array.from({ length: 128 }, () => Math.random() * 0.5 + 0.1);
+
+// Dedicated workers get requestAnimationFrame alongside OffscreenCanvas, but not everywhere
+const scheduleFrame = (callback: () => void): number => {
+  if (typeof requestAnimationFrame === 'function') {
+    return requestAnimationFrame(callback);
+  }
+  return setTimeout(callback, 1000 / 60) as unknown as number;
+};
+
+// Resizing clears a canvas, so only do it when the size actually changes
+const sizeCanvas = (canvas: RenderCanvas, width: number, height: number) => {
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+};
+
+const cancelFrame = (handle: number) => {
+  if (typeof cancelAnimationFrame === 'function') {
+    cancelAnimationFrame(handle);
+  } else {
+    clearTimeout(handle);
+  }
+};
+
+// Set up the plugin's WebGL renderer. Throws when its shaders fail to compile
+// or link.
+const createWebGLVisualization = (plugin: VisualizationPlugin, createWebGL: () => WebGLVisualizationRenderer, gl: WebGLRenderingContext): ActiveVisualization => {
+  const renderer = createWebGL();
+  try {
+    renderer.init(gl);
+  } catch (error) {
+    renderer.dispose?.();
+    throw error;
+  }
+  return { plugin, width: 0, height: 0, backend: 'webgl', renderer, gl };
+};
+
+// Draws the selected visualization from the latest frame in an AudioFrameStore.
+// Owns renderer lifetime, the WebGL/2D choice, quality levels, the frame rate
+// cap and transitions between visualizations.
+export class VisualizationRenderLoop {
+  private canvas: RenderCanvas;
+  private glCanvas: RenderCanvas;
+  private frameStore: AudioFrameStore;
+  private callbacks: RenderLoopCallbacks;
+  private settings: FlowThingSettings = defaultSettings;
+  private active: ActiveVisualization | null = null;
+  // The visualization being switched away from, drawn alongside the new one until the transition ends
+  private transition: { from: ActiveVisualization; start: number } | null = null;
+  // Scratch canvases for the outgoing and incoming frames, only held during a transition
+  private layers: CanvasRenderingContext2D[] = [];
+  private adaptiveQuality = new AdaptiveQualityController();
+  private width = 0; // CSS pixels
+  private height = 0;
+  private devicePixelRatio = 1;
+  private frameHandle: number | null = null;
+  private lastFrameTime = 0;
+  private lastBeatCount = 0;
+  private lastStatsUpdate = 0;
+  // Set once WebGL itself is unusable (no context, context lost) so we stop retrying
+  private webglFailed = false;
+  // Plugins whose shaders failed; the others can still use WebGL
+  private failedWebGLPlugins = new Set<string>();
+
+  constructor(canvas: RenderCanvas, glCanvas: RenderCanvas, frameStore: AudioFrameStore, callbacks: RenderLoopCallbacks = {}) {
+    this.canvas = canvas;
+    this.glCanvas = glCanvas;
+    this.frameStore = frameStore;
+    this.callbacks = callbacks;
+    this.glCanvas.addEventListener('webglcontextlost', this.handleContextLost);
+  }
+
+  public setSettings(settings: FlowThingSettings) {
+    const previous = this.settings;
+    this.settings = settings;
+
+    if (!this.active || previous.useWebGL !== settings.useWebGL) {
+      this.rebuild();
+    } else if (previous.visualizationType !== settings.visualizationType) {
+      this.rebuild(settings.transitionStyle !== 'none' && settings.transitionDuration > 0);
+    }
+
+    // A new mode is a new ceiling, so start measuring again from the top tier
+    if (previous.performanceMode !== settings.performanceMode || previous.adaptiveQuality !== settings.adaptiveQuality) {
+      this.adaptiveQuality.reset(performance.now());
+    }
+  }
+
+  public setSize(width: number, height: number, devicePixelRatio: number) {
+    this.width = width;
+    this.height = height;
+    this.devicePixelRatio = devicePixelRatio;
+  }
+
+  public start() {
+    if (this.frameHandle !== null) return;
+
+    const loop = () => {
+      this.renderFrame();
+      this.frameHandle = scheduleFrame(loop);
+    };
+    this.frameHandle = scheduleFrame(loop);
+  }
+
+  public stop() {
+    if (this.frameHandle !== null) {
+      cancelFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+  }
+
+  public dispose() {
+    this.stop();
+    this.endTransition();
+    this.active?.renderer.dispose?.();
+    this.active = null;
+    this.glCanvas.removeEventListener('webglcontextlost', this.handleContextLost);
+  }
+
+  // Fall back to Canvas 2D if the GPU drops our context
+  private handleContextLost = (event: Event) => {
+    event.preventDefault();
+    console.warn('[FlowThing] WebGL context lost, falling back to Canvas 2D');
+    this.webglFailed = true;
+    this.rebuild();
+  };
+
+  // Create the renderer for the selected visualization. The previous one is
+  // disposed, or kept to transition from.
+  private rebuild(withTransition: boolean = false) {
+    this.endTransition();
+    if (withTransition && this.active && this.width > 0 && this.height > 0) {
+      this.transition = { from: this.active, start: performance.now() };
+    } else {
+      this.active?.renderer.dispose?.();
+    }
+    this.active = null;
+
+    const plugin = getVisualization(this.settings.visualizationType) ?? getVisualization(defaultSettings.visualizationType);
+    if (!plugin) return;
+
+    if (this.settings.useWebGL && !this.webglFailed && plugin.createWebGL && !this.failedWebGLPlugins.has(plugin.id)) {
+      const gl = createGLContext(this.glCanvas);
+      if (!gl) {
+        console.warn('[FlowThing] WebGL is not available, using Canvas 2D');
+        this.webglFailed = true;
+      } else {
+        try {
+          this.active = createWebGLVisualization(plugin, plugin.createWebGL, gl);
+        } catch (error) {
+          console.warn(`[FlowThing] WebGL ${plugin.label} failed, using Canvas 2D:`, error);
+          this.failedWebGLPlugins.add(plugin.id);
+        }
+      }
+    }
+
+    if (!this.active) {
+      // OffscreenCanvasRenderingContext2D has the drawing API the visualizations use
+      const ctx = (this.canvas as HTMLCanvasElement).getContext('2d');
+      if (!ctx) return;
+      const renderer = plugin.create();
+      renderer.init?.(ctx);
+      this.active = { plugin, width: 0, height: 0, backend: '2d', renderer, ctx };
+    }
+
+    this.adaptiveQuality.reset(performance.now());
+    // Transitions are composited on the 2D canvas
+    this.callbacks.onBackendChange?.(this.transition ? '2d' : this.active.backend);
+  }
+
+  private endTransition() {
+    if (!this.transition) return;
+
+    this.transition.from.renderer.dispose?.();
+    this.transition = null;
+    this.layers = [];
+    if (this.active) {
+      this.callbacks.onBackendChange?.(this.active.backend);
+    }
+  }
+
+  // Draw on the visualization's own canvas, or into a transition layer
+  private draw(visualization: ActiveVisualization, frame: VisualizationFrame, canvasWidth: number, canvasHeight: number, layer: CanvasRenderingContext2D | null = null) {
+    if (visualization.width !== frame.width || visualization.height !== frame.height) {
+      visualization.width = frame.width;
+      visualization.height = frame.height;
+      visualization.renderer.resize?.(frame.width, frame.height);
+    }
+
+    if (visualization.backend === 'webgl') {
+      sizeCanvas(this.glCanvas, canvasWidth, canvasHeight);
+      visualization.renderer.render(visualization.gl, frame);
+      // Copy out right away: the GL canvas is shared and its buffer isn't kept once presented
+      if (layer) {
+        layer.setTransform(1, 0, 0, 1, 0, 0);
+        layer.drawImage(this.glCanvas, 0, 0);
+      }
+    } else {
+      const ctx = layer ?? visualization.ctx;
+      if (!layer) sizeCanvas(this.canvas, canvasWidth, canvasHeight);
+      ctx.setTransform(canvasWidth / frame.width, 0, 0, canvasHeight / frame.height, 0, 0);
+      visualization.renderer.render(ctx, frame);
+    }
+  }
+
+  // Draw both visualizations into layers and blend them onto the 2D canvas.
+  // Returns false when there's nowhere to draw the layers.
+  private renderTransition(from: ActiveVisualization, fromFrame: VisualizationFrame, to: ActiveVisualization, toFrame: VisualizationFrame, progress: number, canvasWidth: number, canvasHeight: number): boolean {
+    const ctx = (this.canvas as HTMLCanvasElement).getContext('2d');
+    if (this.layers.length === 0) {
+      const layers = [createLayer(), createLayer()];
+      if (!layers[0] || !layers[1]) return false;
+      this.layers = layers as CanvasRenderingContext2D[];
+    }
+    if (!ctx) return false;
+
+    const [fromLayer, toLayer] = this.layers;
+    sizeCanvas(this.canvas, canvasWidth, canvasHeight);
+    sizeCanvas(fromLayer.canvas, canvasWidth, canvasHeight);
+    sizeCanvas(toLayer.canvas, canvasWidth, canvasHeight);
+
+    this.draw(from, fromFrame, canvasWidth, canvasHeight, fromLayer);
+    this.draw(to, toFrame, canvasWidth, canvasHeight, toLayer);
+    drawTransition(ctx, fromLayer.canvas, toLayer.canvas, this.settings.transitionStyle, progress, canvasWidth, canvasHeight);
+    return true;
+  }
+
+  private renderFrame() {
+    const { settings, active, width, height, transition } = this;
+    if (!active || width <= 0 || height <= 0) return;
+
+    const now = performance.now();
+    const modeQuality = resolveQuality(active.plugin, settings.performanceMode);
+    const quality = settings.adaptiveQuality ? this.adaptiveQuality.apply(modeQuality) : modeQuality;
+    const frameBudget = 1000 / quality.maxFps;
+
+    // Skip frames to stay under the mode's frame rate cap (with a little slack for rAF jitter)
+    if (now - this.lastFrameTime < frameBudget - 2) return;
+    // Carry the remainder over so a 45 FPS cap on a 60 Hz display averages 45, not 30
+    this.lastFrameTime = Math.max(this.lastFrameTime + frameBudget, now - frameBudget);
+
+    // Size the backing store for the current quality; drawers work in CSS pixels
+    const pixelRatio = qualityPixelRatio(quality, this.devicePixelRatio);
+    const canvasWidth = Math.max(1, Math.round(width * pixelRatio));
+    const canvasHeight = Math.max(1, Math.round(height * pixelRatio));
+
+    const audio = this.frameStore.getFrame();
+    const levels = audio.levels.length > 0 ? audio.levels : placeholderLevels();
+    // Labels and caps only make sense when they line up one-to-one with the bins being drawn
+    const frequencies = audio.frequencies && audio.frequencies.length === levels.length ? audio.frequencies : null;
+    const peaks = audio.peaks && audio.peaks.length === levels.length ? audio.peaks : null;
+
+    // Effects that fire once per beat need to know whether this frame saw a new one
+    const beat = audio.beat;
+    const isNewBeat = !!beat && beat.beatCount !== this.lastBeatCount;
+    if (beat) {
+      this.lastBeatCount = beat.beatCount;
+    }
+
+    const palette = createPalette(resolveTheme(settings), now);
+    const createFrame = (visualization: ActiveVisualization, frameQuality: VisualizationQuality): VisualizationFrame => ({
+      width,
+      height,
+      data: reduceBins(levels, frameQuality.maxBins),
+      stereo: audio.stereo && reduceStereoBins(audio.stereo, frameQuality.maxBins),
+      frequencies: frequencies && reduceBins(frequencies, frameQuality.maxBins, 'center'),
+      peaks: peaks && reduceBins(peaks, frameQuality.maxBins, 'max'),
+      beat,
+      isNewBeat,
+      settings,
+      options: resolveVisualizationOptions(visualization.plugin, settings.visualizationOptions?.[visualization.plugin.id]),
+      quality: frameQuality,
+      palette,
+      time: now
+    });
+    const frame = createFrame(active, quality);
+
+    const progress = transition ? (now - transition.start) / settings.transitionDuration : 1;
+    let blended = false;
+    if (transition && progress < 1 && settings.transitionStyle !== 'none') {
+      // The outgoing visualization keeps its own quality overrides, at the same resolution
+      const fromModeQuality = resolveQuality(transition.from.plugin, settings.performanceMode);
+      const fromQuality = settings.adaptiveQuality ? this.adaptiveQuality.apply(fromModeQuality) : fromModeQuality;
+      blended = this.renderTransition(transition.from, createFrame(transition.from, fromQuality), active, frame, progress, canvasWidth, canvasHeight);
+    }
+    if (!blended) {
+      this.endTransition();
+      this.draw(active, frame, canvasWidth, canvasHeight);
+    }
+
+    // Always measured so the overlay has numbers; only stepped in adaptive mode
+    this.adaptiveQuality.recordFrame(now, performance.now() - now);
+    if (settings.adaptiveQuality && this.adaptiveQuality.update(now, quality.maxFps)) {
+      console.log(`[FlowThing] Adaptive quality tier ${this.adaptiveQuality.getTier()} for ${active.plugin.label}`);
+    }
+
+    if (this.callbacks.onStats && settings.showPerformanceOverlay && now - this.lastStatsUpdate > 250) {
+      this.lastStatsUpdate = now;
+      const stats = this.adaptiveQuality.getStats();
+      const tier = settings.adaptiveQuality ? `${stats.tier}/${stats.tierCount - 1}` : 'fixed';
+      const thread = typeof window === 'undefined' ? ' · worker' : '';
+      this.callbacks.onStats(
+        `${stats.fps.toFixed(0)} FPS · ${stats.frameTime.toFixed(1)} ms frame · ${stats.workTime.toFixed(1)} ms render\n` +
+        `${settings.performanceMode} · tier ${tier} · ${canvasWidth}×${canvasHeight} ${active.backend === 'webgl' ? 'WebGL' : '2D'}${thread}`
+      );
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { VisualizationPlugin } from './types';
+import { applyGlow, clearCanvas, drawChannelLabel, drawFrequencyLabels, drawPeakCaps } from './helpers';
+
+const bars: VisualizationPlugin = {
+  id: 'bars',
+  label: 'Bars',
+  description: 'Dynamic bar chart visualization',
+  icon: (
+    <svg className="w-6 h-6 text-green-400" fill="currentColor" viewBox="0 0 24 24">
+      <rect x="2" y="8" width="3" height="8" fill="currentColor"/>
+      <rect x="7" y="4" width="3" height="12" fill="currentColor"/>
+      <rect x="12" y="2" width="3" height="14" fill="currentColor"/>
+      <rect x="17" y="6" width="3" height="10" fill="currentColor"/>
+    </svg>
+  ),
+  settings: [
+    { key: 'barGap', label: 'Bar Gap', type: 'range', min: 0, max: 6, step: 1, default: 2 }
+  ],
+  create: () => ({
+    render: (ctx, { width, height, data, stereo, frequencies, peaks, settings, options, quality, palette }) => {
+      const gap = options.barGap as number;
+
+      clearCanvas(ctx, palette);
+      applyGlow(ctx, quality.glow, palette.primary, 8);
+      const position = (index: number, count: number) => count > 1 ? index / (count - 1) : 0;
+
+      if (settings.stereoMode === 'split' && stereo) {
+        // Left channel grows up from the centre line, right channel grows down
+        const centerY = height / 2;
+        const barWidth = width / stereo.left.length;
+
+        stereo.left.forEach((value, index) => {
+          const barHeight = value * centerY * 0.9;
+          ctx.fillStyle = palette.colorFor(position(index, stereo.left.length), value);
+          ctx.fillRect(index * barWidth, centerY - barHeight, barWidth - gap, barHeight);
+        });
+
+        ctx.globalAlpha = 0.7;
+        stereo.right.forEach((value, index) => {
+          const barHeight = value * centerY * 0.9;
+          ctx.fillStyle = palette.colorFor(position(index, stereo.right.length), value);
+          ctx.fillRect(index * barWidth, centerY, barWidth - gap, barHeight);
+        });
+        ctx.globalAlpha = 1;
+
+        drawChannelLabel(ctx, 'L', 8, 8, palette.primary);
+        drawChannelLabel(ctx, 'R', 8, height - 20, palette.primary);
+        return;
+      }
+
+      const barWidth = width / data.length;
+
+      data.forEach((value, index) => {
+        const barHeight = value * height * 0.8;
+        const x = index * barWidth;
+        const y = height - barHeight;
+
+        ctx.fillStyle = palette.colorFor(position(index, data.length), value);
+        ctx.fillRect(x, y, barWidth - gap, barHeight);
+      });
+      applyGlow(ctx, false, palette.primary);
+
+      if (settings.peakHold && peaks) {
+        drawPeakCaps(ctx, peaks, width, height, height * 0.8, gap, '#ffffff');
+      }
+
+      if (settings.showFrequencyLabels && frequencies) {
+        drawFrequencyLabels(ctx, frequencies, width, height);
+      }
+    }
+  })
+};
+
+export default bars;
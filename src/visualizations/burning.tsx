@@ -0,0 +1,109 @@
+import { VisualizationPlugin } from './types';
+import { EFFECT_REACTIVITY, averageLevel, clearCanvas } from './helpers';
+import { createShaderRenderer } from './webgl';
+
+// Noise flames rising from the bottom; each column's height follows its bin
+const BURNING_SHADER = `
+uniform float u_flames;
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+}
+
+float valueNoise(vec2 p) {
+  vec2 i = floor(p);
+  vec2 f = fract(p);
+  vec2 u = f * f * (3.0 - 2.0 * f);
+  return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x),
+             mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x), u.y);
+}
+
+float fbm(vec2 p) {
+  float value = 0.0;
+  float amplitude = 0.5;
+  for (int i = 0; i < 4; i++) {
+    value += amplitude * valueNoise(p);
+    p *= 2.0;
+    amplitude *= 0.5;
+  }
+  return value;
+}
+
+void main() {
+  vec2 uv = fragPosition() / u_resolution;
+  uv.y = 1.0 - uv.y;
+
+  // Flames cover the middle 80% of the width, like the 2D drawer
+  float x = (uv.x - 0.1) / 0.8;
+  float edge = smoothstep(0.0, 0.1, x) * (1.0 - smoothstep(0.9, 1.0, x));
+
+  float boost = 1.0 + u_level * u_reactivity * 2.0;
+  float flameHeight = (0.3 + audioAt(x) * 0.3) * boost * (1.0 + u_beat * 0.3);
+  float n = fbm(vec2(uv.x * u_flames * 0.2, uv.y * 3.0 - u_time * 2.0));
+  float intensity = clamp((flameHeight * (0.6 + n * 0.8) - uv.y) / max(flameHeight, 0.01), 0.0, 1.0) * edge;
+
+  // Hotter parts sit further along the gradient under level mapping, and the core runs towards white
+  vec3 flame = paletteFor(x, clamp(intensity * 0.7 + u_level * 0.3, 0.0, 1.0));
+  vec3 color = mix(u_background, flame, smoothstep(0.0, 0.5, intensity));
+  color = mix(color, mix(flame, vec3(1.0), 0.5), smoothstep(0.8, 1.0, intensity));
+  gl_FragColor = vec4(color, 1.0);
+}
+`;
+
+const burning: VisualizationPlugin = {
+  id: 'burning',
+  label: 'Burning',
+  description: 'Fire-like burning effect visualization',
+  icon: (
+    <svg className="w-6 h-6 text-red-400" fill="currentColor" viewBox="0 0 24 24">
+      <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" fill="currentColor"/>
+    </svg>
+  ),
+  settings: [
+    { key: 'flameCount', label: 'Flames', type: 'range', min: 10, max: 60, step: 5, default: 30 }
+  ],
+  quality: {
+    balanced: { maxFps: 45 },
+    performance: { particleScale: 0.5, maxFps: 30, resolutionScale: 0.5 }
+  },
+  create: () => ({
+    render: (ctx, { width, height, data, settings, options, quality, palette }) => {
+      const sensitivity = EFFECT_REACTIVITY;
+      const speed = settings.animationSpeed / 100;
+      const avgAudio = averageLevel(data);
+
+      clearCanvas(ctx, palette);
+
+      const time = Date.now() * speed * 0.001;
+      const centerX = width / 2;
+      const baseY = height;
+
+      // Create audio-reactive fire effect
+      const flameCount = Math.max(5, Math.round((options.flameCount as number) * quality.particleScale));
+      for (let i = 0; i < flameCount; i++) {
+        const x = centerX + (Math.random() - 0.5) * width * 0.8;
+        const baseFlameHeight = (Math.random() * 0.5 + 0.5) * height * 0.6;
+        const audioBoost = 1 + avgAudio * sensitivity * 2;
+        const flameHeight = baseFlameHeight * audioBoost;
+        const y = baseY - flameHeight * (1 + Math.sin(time + i) * 0.3);
+
+        const radius = 20 + avgAudio * sensitivity * 40;
+        const position = (x - width * 0.1) / (width * 0.8);
+        const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+        gradient.addColorStop(0, palette.colorFor(position, Math.min(1, avgAudio + 0.5)));
+        gradient.addColorStop(0.5, palette.colorFor(position, avgAudio * 0.5));
+        gradient.addColorStop(1, palette.colorFor(position, avgAudio * 0.5, 0));
+
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  }),
+  createWebGL: () => createShaderRenderer(BURNING_SHADER, ({ options }) => ({
+    u_flames: options.flameCount as number
+  }))
+};
+
+export default burning;
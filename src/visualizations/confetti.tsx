@@ -0,0 +1,113 @@
+import { VisualizationPlugin } from './types';
+import { EFFECT_REACTIVITY, averageLevel, clearCanvas } from './helpers';
+
+interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  size: number;
+  shade: number; // 0-1 position along the theme gradient
+  rotation: number;
+  rotationSpeed: number;
+  kickX: number; // decaying push from beat bursts
+  kickY: number;
+}
+
+const confetti: VisualizationPlugin = {
+  id: 'confetti',
+  label: 'Confetti',
+  description: 'Colorful confetti particles',
+  icon: (
+    <svg className="w-6 h-6 text-yellow-400" fill="currentColor" viewBox="0 0 24 24">
+      <circle cx="6" cy="6" r="1" fill="currentColor"/>
+      <circle cx="18" cy="8" r="1" fill="currentColor"/>
+      <circle cx="12" cy="18" r="1" fill="currentColor"/>
+      <circle cx="20" cy="16" r="1" fill="currentColor"/>
+    </svg>
+  ),
+  settings: [
+    { key: 'particleCount', label: 'Particles', type: 'range', min: 50, max: 300, step: 10, default: 150 }
+  ],
+  quality: {
+    balanced: { particleScale: 0.8 },
+    performance: { particleScale: 0.4, maxFps: 30 }
+  },
+  create: () => {
+    let particles: Particle[] = [];
+
+    const spawn = (count: number, width: number, height: number, speed: number) => {
+      particles = Array.from({ length: count }, () => ({
+        x: Math.random() * width,
+        y: Math.random() * height,
+        vx: (Math.random() - 0.5) * 4 * speed,
+        vy: (Math.random() - 0.5) * 4 * speed,
+        size: Math.random() * 6 + 2,
+        shade: Math.random(),
+        rotation: Math.random() * Math.PI * 2,
+        rotationSpeed: (Math.random() - 0.5) * 0.2,
+        kickX: 0,
+        kickY: 0
+      }));
+    };
+
+    return {
+      render: (ctx, { width, height, data, beat, isNewBeat, settings, options, quality, palette }) => {
+        const speed = settings.animationSpeed / 100;
+        const sensitivity = EFFECT_REACTIVITY;
+        const avgAudio = averageLevel(data);
+
+        const particleCount = Math.max(10, Math.round((options.particleCount as number) * quality.particleScale));
+        if (particles.length !== particleCount) {
+          spawn(particleCount, width, height, speed);
+        }
+
+        // Burst outwards from the centre on each beat
+        if (isNewBeat && settings.beatReactive && beat) {
+          const force = 6 + beat.strength * 10;
+          particles.forEach(particle => {
+            const dx = particle.x - width / 2;
+            const dy = particle.y - height / 2;
+            const distance = Math.max(1, Math.sqrt(dx * dx + dy * dy));
+            particle.kickX += (dx / distance) * force;
+            particle.kickY += (dy / distance) * force;
+          });
+        }
+
+        clearCanvas(ctx, palette);
+
+        particles.forEach(particle => {
+          // Update position with audio reactivity
+          const audioBoost = 1 + avgAudio * sensitivity * 3;
+          particle.x += particle.vx * audioBoost + particle.kickX;
+          particle.y += particle.vy * audioBoost + particle.kickY;
+          particle.kickX *= 0.9;
+          particle.kickY *= 0.9;
+          particle.rotation += particle.rotationSpeed * audioBoost;
+
+          // Bounce off walls
+          if (particle.x < 0 || particle.x > width) particle.vx *= -1;
+          if (particle.y < 0 || particle.y > height) particle.vy *= -1;
+
+          // Keep particles in bounds
+          particle.x = Math.max(0, Math.min(width, particle.x));
+          particle.y = Math.max(0, Math.min(height, particle.y));
+
+          // Draw particle with audio-reactive size and rotation
+          const drawSize = particle.size * (1 + avgAudio * sensitivity * 2);
+          ctx.save();
+          ctx.translate(particle.x, particle.y);
+          ctx.rotate(particle.rotation);
+          ctx.fillStyle = palette.colorAt(particle.shade);
+          ctx.fillRect(-drawSize / 2, -drawSize / 2, drawSize, drawSize);
+          ctx.restore();
+        });
+      },
+      dispose: () => {
+        particles = [];
+      }
+    };
+  }
+};
+
+export default confetti;
@@ -0,0 +1,94 @@
+import { VisualizationPlugin } from './types';
+import { averageLevel, clearCanvas, drawChannelLabel } from './helpers';
+
+const goniometer: VisualizationPlugin = {
+  id: 'goniometer',
+  label: 'Goniometer',
+  description: 'Stereo vectorscope with phase correlation and balance',
+  icon: (
+    <svg className="w-6 h-6 text-teal-400" fill="currentColor" viewBox="0 0 24 24">
+      <path d="M12 2v20M2 12h20M5 5l14 14M19 5L5 19" stroke="currentColor" strokeWidth="1" opacity="0.4"/>
+      <ellipse cx="12" cy="12" rx="3" ry="8" fill="none" stroke="currentColor" strokeWidth="2"/>
+    </svg>
+  ),
+  settings: [
+    { key: 'showMeters', label: 'Correlation & Balance Meters', type: 'boolean', default: true }
+  ],
+  create: () => ({
+    render: (ctx, { width, height, data, stereo, settings, options, palette }) => {
+      const sensitivity = settings.audioSensitivity / 100;
+
+      clearCanvas(ctx, palette);
+
+      const centerX = width / 2;
+      const centerY = height / 2 - 12;
+      const radius = Math.min(width, height) * 0.4;
+
+      // Guide lines: vertical is mono (M), diagonals are hard L / hard R
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(centerX, centerY - radius);
+      ctx.lineTo(centerX, centerY + radius);
+      ctx.moveTo(centerX - radius, centerY);
+      ctx.lineTo(centerX + radius, centerY);
+      const diag = radius * Math.SQRT1_2;
+      ctx.moveTo(centerX - diag, centerY - diag);
+      ctx.lineTo(centerX + diag, centerY + diag);
+      ctx.moveTo(centerX + diag, centerY - diag);
+      ctx.lineTo(centerX - diag, centerY + diag);
+      ctx.stroke();
+
+      drawChannelLabel(ctx, 'L', centerX - diag - 14, centerY - diag - 14, '#ffffff');
+      drawChannelLabel(ctx, 'R', centerX + diag + 6, centerY - diag - 14, '#ffffff');
+
+      if (!stereo) {
+        // Mono streams collapse onto the vertical axis, so approximate from the level
+        const extent = Math.min(1, averageLevel(data)) * radius;
+        ctx.strokeStyle = palette.primary;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(centerX, centerY - extent);
+        ctx.lineTo(centerX, centerY + extent);
+        ctx.stroke();
+        return;
+      }
+
+      // Rotate L/R by 45 degrees so mid is vertical and side is horizontal
+      const gain = radius * (0.5 + sensitivity * 2);
+      ctx.fillStyle = palette.primary;
+      const points = Math.min(stereo.scope.left.length, stereo.scope.right.length);
+      for (let i = 0; i < points; i++) {
+        const l = stereo.scope.left[i];
+        const r = stereo.scope.right[i];
+        const x = centerX + ((r - l) * Math.SQRT1_2) * gain;
+        const y = centerY - ((l + r) * Math.SQRT1_2) * gain;
+        ctx.fillRect(x - 1, y - 1, 2, 2);
+      }
+
+      if (!options.showMeters) return;
+
+      // Correlation meter along the bottom: -1 on the left, +1 on the right
+      const meterWidth = width * 0.6;
+      const meterX = (width - meterWidth) / 2;
+      const meterY = height - 18;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+      ctx.fillRect(meterX, meterY, meterWidth, 6);
+      ctx.fillStyle = stereo.correlation < 0 ? '#f56565' : '#48bb78';
+      const correlationX = meterX + ((stereo.correlation + 1) / 2) * meterWidth;
+      ctx.fillRect(correlationX - 2, meterY - 3, 4, 12);
+
+      // Balance marker above the correlation meter
+      ctx.fillStyle = palette.primary;
+      const balanceX = meterX + ((stereo.balance + 1) / 2) * meterWidth;
+      ctx.beginPath();
+      ctx.moveTo(balanceX, meterY - 6);
+      ctx.lineTo(balanceX - 4, meterY - 12);
+      ctx.lineTo(balanceX + 4, meterY - 12);
+      ctx.closePath();
+      ctx.fill();
+    }
+  })
+};
+
+export default goniometer;
@@ -0,0 +1,85 @@
+import { FlowThingSettings } from '../types/visualization';
+import { Palette } from './palette';
+import { formatFrequency } from '../FrequencyScale';
+import { BeatInfo } from '../BeatDetector';
+
+// audioSensitivity is applied as gain in the analysis stage (SpectrumDynamics),
+// so levels arrive already scaled. Effects use a fixed reactivity on top.
+export const EFFECT_REACTIVITY = 0.5;
+
+export const averageLevel = (data: number[]): number => {
+  return data.length === 0 ? 0 : data.reduce((sum, val) => sum + val, 0) / data.length;
+};
+
+// Fill the whole canvas with the theme background, whatever the current scale
+export const clearCanvas = (ctx: CanvasRenderingContext2D, palette: Palette) => {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = palette.background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+};
+
+// Soft glow around whatever is drawn next, for the high quality level
+export const applyGlow = (ctx: CanvasRenderingContext2D, enabled: boolean, color: string, blur: number = 12) => {
+  ctx.shadowBlur = enabled ? blur : 0;
+  ctx.shadowColor = enabled ? color : 'transparent';
+};
+
+// Small channel label used by the split L/R views
+export const drawChannelLabel = (ctx: CanvasRenderingContext2D, label: string, x: number, y: number, color: string) => {
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.globalAlpha = 0.6;
+  ctx.font = '12px sans-serif';
+  ctx.textBaseline = 'top';
+  ctx.fillText(label, x, y);
+  ctx.restore();
+};
+
+// Falling peak-hold caps above each bar
+export const drawPeakCaps = (ctx: CanvasRenderingContext2D, peaks: number[], width: number, height: number, maxHeight: number, gap: number, color: string) => {
+  const barWidth = width / peaks.length;
+  ctx.save();
+  ctx.fillStyle = color;
+  peaks.forEach((peak, index) => {
+    if (peak <= 0.01) return;
+    const y = height - peak * maxHeight;
+    ctx.fillRect(index * barWidth, y - 3, barWidth - gap, 2);
+  });
+  ctx.restore();
+};
+
+// Frequency axis along the bottom edge, spaced so labels don't overlap
+export const drawFrequencyLabels = (ctx: CanvasRenderingContext2D, frequencies: number[], width: number, height: number) => {
+  if (frequencies.length === 0) return;
+
+  const bandWidth = width / frequencies.length;
+  const minSpacing = 36;
+  let lastX = -Infinity;
+
+  ctx.save();
+  ctx.fillStyle = '#ffffff';
+  ctx.globalAlpha = 0.6;
+  ctx.font = '10px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+
+  frequencies.forEach((hz, index) => {
+    const x = index * bandWidth + bandWidth / 2;
+    if (x - lastX < minSpacing || x < 12 || x > width - 12) return;
+    ctx.fillText(formatFrequency(hz), x, height - 2);
+    lastX = x;
+  });
+
+  ctx.restore();
+};
+
+// 0-1 envelope that jumps on each beat and decays over ~150 ms
+export const beatPulse = (beat: BeatInfo | null, settings: FlowThingSettings, now: number): number => {
+  if (!settings.beatReactive || !beat || beat.lastBeatTime === 0) return 0;
+  const elapsed = now - beat.lastBeatTime;
+  return Math.exp(-elapsed / 150) * (0.5 + beat.strength * 0.5);
+};
@@ -0,0 +1,20 @@
+import { registerVisualization } from './registry';
+import wave from './wave';
+import confetti from './confetti';
+import bars from './bars';
+import burning from './burning';
+import plasma from './plasma';
+import meter from './meter';
+import triangular from './triangular';
+import milkdrop from './milkdrop';
+import kaleidosync from './kaleidosync';
+import goniometer from './goniometer';
+
+// Built-in visualizations, in selector order. New visualizations are
+// self-contained modules: add the file and register it here.
+[wave, confetti, bars, burning, plasma, meter, triangular, milkdrop, kaleidosync, goniometer]
+  .forEach(registerVisualization);
+
+export { registerVisualization, getVisualization, getVisualizations, resolveVisualizationOptions } from './registry';
+export { DEFAULT_QUALITY, resolveQuality, qualityPixelRatio, reduceBins, reduceStereoBins } from './quality';
+export type * from './types';
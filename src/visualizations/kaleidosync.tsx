@@ -0,0 +1,176 @@
+import { VisualizationPlugin } from './types';
+import { EFFECT_REACTIVITY, applyGlow, averageLevel, beatPulse, clearCanvas } from './helpers';
+import { createShaderRenderer } from './webgl';
+
+// Ring of circles joined by a closed outline, as in the 2D drawer.
+// Each point is pushed out by its own bin.
+const KALEIDOSYNC_SHADER = `
+uniform float u_segments;
+uniform float u_hueShift; // degrees
+
+const int MAX_SEGMENTS = 16;
+
+float segmentDistance(vec2 p, vec2 a, vec2 b) {
+  vec2 pa = p - a;
+  vec2 ba = b - a;
+  float h = clamp(dot(pa, ba) / dot(ba, ba), 0.0, 1.0);
+  return length(pa - ba * h);
+}
+
+// Rotate around the grey axis, close to CSS hue-rotate()
+vec3 hueRotate(vec3 color, float degrees) {
+  float angle = radians(degrees);
+  vec3 k = vec3(0.57735);
+  float c = cos(angle);
+  return clamp(color * c + cross(k, color) * sin(angle) + k * dot(k, color) * (1.0 - c), 0.0, 1.0);
+}
+
+void main() {
+  vec2 p = fragPosition();
+  vec2 center = u_resolution * 0.5;
+
+  float baseRadius = min(u_resolution.x, u_resolution.y) * 0.15;
+  float variation = baseRadius * 0.5;
+  float boost = (1.0 + u_level * u_reactivity * 2.0) * (1.0 + u_beat * 0.2);
+  float circleSize = 15.0 + u_level * u_reactivity * 20.0;
+  float halfLine = (2.0 + u_level * u_reactivity * 5.0) * 0.5;
+  float angleStep = 6.28318530718 / u_segments;
+
+  // Circles take their color from the palette; the outline stays primary
+  float coverage = 0.0; // outline
+  float circleCoverage = 0.0;
+  vec3 circleColor = u_primary;
+  vec2 first = center;
+  vec2 previous = center;
+
+  for (int i = 0; i < MAX_SEGMENTS; i++) {
+    float index = float(i);
+    if (index >= u_segments) break;
+
+    float angle = index * angleStep;
+    float level = audioAt(index / u_segments);
+    float radius = (baseRadius + sin(u_time + index) * variation + level * variation * u_reactivity) * boost;
+    vec2 point = center + vec2(cos(angle), sin(angle)) * radius;
+
+    float circle = 1.0 - smoothstep(circleSize - 1.0, circleSize + 1.0, length(p - point));
+    if (circle > circleCoverage) {
+      circleCoverage = circle;
+      circleColor = paletteFor(index / u_segments, level);
+    }
+    if (i == 0) {
+      first = point;
+    } else {
+      coverage = max(coverage, 1.0 - smoothstep(halfLine - 0.5, halfLine + 0.5, segmentDistance(p, previous, point)));
+    }
+    previous = point;
+  }
+  coverage = max(coverage, 1.0 - smoothstep(halfLine - 0.5, halfLine + 0.5, segmentDistance(p, previous, first)));
+
+  // The outline goes over the circles, as in the 2D drawer
+  vec3 color = mix(u_background, hueRotate(circleColor, u_hueShift), circleCoverage);
+  gl_FragColor = vec4(mix(color, hueRotate(u_primary, u_hueShift), coverage), 1.0);
+}
+`;
+
+const kaleidosync: VisualizationPlugin = {
+  id: 'kaleidosync',
+  label: 'Kaleidosync',
+  description: 'Kaleidoscope with audio synchronization',
+  icon: (
+    <svg className="w-6 h-6 text-indigo-400" fill="currentColor" viewBox="0 0 24 24">
+      <path d="M12 2L13.09 8.26L20 9.27L14.5 14.14L15.68 21.02L12 17.27L8.32 21.02L9.5 14.14L4 9.27L10.91 8.26L12 2z" fill="currentColor"/>
+    </svg>
+  ),
+  settings: [
+    { key: 'segments', label: 'Segments', type: 'range', min: 4, max: 16, step: 1, default: 8 }
+  ],
+  quality: {
+    performance: { maxFps: 30, resolutionScale: 0.5 }
+  },
+  create: () => {
+    // Hue offset that jumps on each beat
+    let hueShift = 0;
+
+    return {
+      render: (ctx, { width, height, data, beat, isNewBeat, settings, options, quality, palette, time: now }) => {
+        const sensitivity = EFFECT_REACTIVITY;
+        const speed = settings.animationSpeed / 100;
+        const avgAudio = averageLevel(data);
+
+        clearCanvas(ctx, palette);
+
+        const time = Date.now() * speed * 0.001;
+        const centerX = width / 2;
+        const centerY = height / 2;
+
+        const segments = options.segments as number;
+        const angleStep = (Math.PI * 2) / segments;
+        const baseRadius = Math.min(width, height) * 0.15;
+        const radiusVariation = baseRadius * 0.5;
+
+        const audioBoost = (1 + avgAudio * sensitivity * 2) * (1 + beatPulse(beat, settings, now) * 0.2);
+
+        // Flip to a new hue on each beat
+        if (isNewBeat && settings.beatReactive) {
+          hueShift = (hueShift + 137) % 360;
+        }
+
+        ctx.save();
+        ctx.filter = hueShift === 0 ? 'none' : `hue-rotate(${hueShift}deg)`;
+        ctx.strokeStyle = palette.primary;
+        ctx.lineWidth = 2 + avgAudio * sensitivity * 5;
+        applyGlow(ctx, quality.glow, palette.primary);
+
+        // Draw all circles first
+        for (let i = 0; i < segments; i++) {
+          const angle = i * angleStep;
+          const radius = (baseRadius + Math.sin(time + i) * radiusVariation) * audioBoost;
+
+          const x = centerX + Math.cos(angle) * radius;
+          const y = centerY + Math.sin(angle) * radius;
+
+          ctx.fillStyle = palette.colorFor(i / segments, avgAudio);
+          ctx.beginPath();
+          const circleSize = 15 + avgAudio * sensitivity * 20;
+          ctx.arc(x, y, circleSize, 0, Math.PI * 2);
+          ctx.fill();
+        }
+
+        // Then draw all connecting lines
+        ctx.beginPath();
+        for (let i = 0; i < segments; i++) {
+          const angle = i * angleStep;
+          const radius = (baseRadius + Math.sin(time + i) * radiusVariation) * audioBoost;
+
+          const x = centerX + Math.cos(angle) * radius;
+          const y = centerY + Math.sin(angle) * radius;
+
+          if (i === 0) {
+            ctx.moveTo(x, y);
+          } else {
+            ctx.lineTo(x, y);
+          }
+        }
+        ctx.closePath();
+        ctx.stroke();
+        ctx.restore();
+      }
+    };
+  },
+  createWebGL: () => {
+    // Hue offset that jumps on each beat
+    let hueShift = 0;
+
+    return createShaderRenderer(KALEIDOSYNC_SHADER, ({ isNewBeat, settings, options }) => {
+      if (isNewBeat && settings.beatReactive) {
+        hueShift = (hueShift + 137) % 360;
+      }
+      return {
+        u_segments: options.segments as number,
+        u_hueShift: hueShift
+      };
+    });
+  }
+};
+
+export default kaleidosync;
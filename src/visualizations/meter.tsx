@@ -0,0 +1,69 @@
+import { VisualizationPlugin } from './types';
+import { clearCanvas, drawChannelLabel, drawFrequencyLabels, drawPeakCaps } from './helpers';
+
+const meter: VisualizationPlugin = {
+  id: 'meter',
+  label: 'Meter',
+  description: 'Audio level meter visualization',
+  icon: (
+    <svg className="w-6 h-6 text-orange-400" fill="currentColor" viewBox="0 0 24 24">
+      <rect x="2" y="4" width="20" height="16" rx="2" fill="none" stroke="currentColor" strokeWidth="2"/>
+      <rect x="4" y="6" width="4" height="12" fill="currentColor"/>
+      <rect x="10" y="6" width="4" height="12" fill="currentColor"/>
+      <rect x="16" y="6" width="4" height="12" fill="currentColor"/>
+    </svg>
+  ),
+  create: () => ({
+    render: (ctx, { width, height, data, stereo, frequencies, peaks, settings, palette }) => {
+
+      clearCanvas(ctx, palette);
+
+      if (settings.stereoMode === 'split' && stereo) {
+        // Mirrored meters: left channel above the centre line, right below
+        const centerY = height / 2;
+        const maxHeight = centerY * 0.9;
+        const barWidth = width / stereo.left.length;
+
+        // Both run from the start of the gradient at the centre line to its end at full level
+        const upGradient = palette.createGradient(ctx, 0, centerY, 0, centerY - maxHeight);
+        const downGradient = palette.createGradient(ctx, 0, centerY, 0, centerY + maxHeight);
+
+        ctx.fillStyle = upGradient;
+        stereo.left.forEach((value, index) => {
+          const barHeight = value * maxHeight;
+          ctx.fillRect(index * barWidth, centerY - barHeight, barWidth - 1, barHeight);
+        });
+
+        ctx.fillStyle = downGradient;
+        stereo.right.forEach((value, index) => {
+          const barHeight = value * maxHeight;
+          ctx.fillRect(index * barWidth, centerY, barWidth - 1, barHeight);
+        });
+
+        drawChannelLabel(ctx, 'L', 8, 8, '#ffffff');
+        drawChannelLabel(ctx, 'R', 8, height - 20, '#ffffff');
+        return;
+      }
+
+      const barWidth = width / data.length;
+      const maxHeight = height * 0.8;
+
+      // One gradient for every bar, so a bar's color says how loud it is
+      ctx.fillStyle = palette.createGradient(ctx, 0, height, 0, height - maxHeight);
+      data.forEach((value, index) => {
+        const barHeight = value * maxHeight;
+        ctx.fillRect(index * barWidth, height - barHeight, barWidth - 1, barHeight);
+      });
+
+      if (settings.peakHold && peaks) {
+        drawPeakCaps(ctx, peaks, width, height, maxHeight, 1, palette.colorAt(1));
+      }
+
+      if (settings.showFrequencyLabels && frequencies) {
+        drawFrequencyLabels(ctx, frequencies, width, height);
+      }
+    }
+  })
+};
+
+export default meter;
@@ -0,0 +1,62 @@
+import { VisualizationPlugin } from './types';
+import { EFFECT_REACTIVITY, averageLevel, clearCanvas } from './helpers';
+import { createShaderRenderer } from './webgl';
+import { pingPong } from './palette';
+
+// Same field as the 2D drawer, brightened in rings by the bin at each radius
+const MILKDROP_SHADER = `
+void main() {
+  vec2 p = fragPosition();
+  float radius = length(p - u_resolution * 0.5) / (0.5 * length(u_resolution));
+  float noise = sin(p.x * 0.01 + u_time) * sin(p.y * 0.01 + u_time * 0.7);
+  float value = (noise + 1.0) / 2.0;
+  float audioInfluence = u_level * u_reactivity * 3.0;
+  float hue = (value * 240.0 + u_time * 30.0 + audioInfluence * 120.0) / 360.0;
+  float brightness = 0.8 + u_level * u_reactivity * 0.3 + audioAt(radius) * u_reactivity * 0.2 + u_beat * 0.1;
+  gl_FragColor = vec4(min(paletteCycle(hue) * brightness, 1.0), 1.0);
+}
+`;
+
+const milkdrop: VisualizationPlugin = {
+  id: 'milkdrop',
+  label: 'Milkdrop',
+  description: 'Classic milkdrop-style visualization',
+  icon: (
+    <svg className="w-6 h-6 text-pink-400" fill="currentColor" viewBox="0 0 24 24">
+      <path d="M12 2c-5.5 0-10 4.5-10 10s4.5 10 10 10 10-4.5 10-10S17.5 2 12 2zm0 18c-4.4 0-8-3.6-8-8s3.6-8 8-8 8 3.6 8 8-3.6 8-8 8z" fill="currentColor"/>
+      <path d="M12 6c-2.2 0-4 1.8-4 4s1.8 4 4 4 4-1.8 4-4-1.8-4-4-4z" fill="currentColor"/>
+    </svg>
+  ),
+  quality: {
+    quality: { gridStep: 6 },
+    balanced: { gridStep: 10, maxFps: 45, resolutionScale: 0.75 },
+    performance: { gridStep: 16, maxFps: 24, resolutionScale: 0.5 }
+  },
+  create: () => ({
+    render: (ctx, { width, height, data, settings, quality, palette }) => {
+      const sensitivity = EFFECT_REACTIVITY;
+      const speed = settings.animationSpeed / 100;
+      const avgAudio = averageLevel(data);
+
+      clearCanvas(ctx, palette);
+
+      const time = Date.now() * speed * 0.001;
+      const step = Math.max(quality.gridStep, Math.floor(width / 80));
+
+      for (let x = 0; x < width; x += step) {
+        for (let y = 0; y < height; y += step) {
+          const noise = Math.sin(x * 0.01 + time) * Math.sin(y * 0.01 + time * 0.7);
+          const value = (noise + 1) / 2;
+
+          const audioInfluence = avgAudio * sensitivity * 3;
+          const hue = value * 240 + time * 30 + audioInfluence * 120;
+          ctx.fillStyle = palette.colorAt(pingPong(hue / 360));
+          ctx.fillRect(x, y, step, step);
+        }
+      }
+    }
+  }),
+  createWebGL: () => createShaderRenderer(MILKDROP_SHADER)
+};
+
+export default milkdrop;
@@ -0,0 +1,117 @@
+import { ColorMapping, ColorTheme } from '../types/visualization';
+
+// Gradient lookups are sampled from a table this long, also uploaded to shaders as u_palette
+export const PALETTE_SIZE = 64;
+
+// A theme resolved for one frame, with its hue cycle applied
+export interface Palette {
+  background: string;
+  primary: string;
+  mapping: ColorMapping;
+  lut: Uint8Array; // PALETTE_SIZE RGB triples along the gradient
+  // Color at 0-1 along the gradient
+  colorAt(position: number, alpha?: number): string;
+  // Color for something at `position` 0-1 across the spectrum with the given level, per the theme's mapping
+  colorFor(position: number, level: number, alpha?: number): string;
+  // Canvas gradient along a line with the theme's stops
+  createGradient(ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number): CanvasGradient;
+}
+
+type Rgb = [number, number, number]; // 0-255
+
+// '#rrggbb' or '#rgb'; anything else is black
+export const parseColor = (hex: string): Rgb => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const parsed = parseInt(full, 16);
+  if (full.length !== 6 || isNaN(parsed)) return [0, 0, 0];
+  return [parsed >> 16, (parsed >> 8) & 0xff, parsed & 0xff];
+};
+
+const toHex = ([r, g, b]: Rgb): string => `#${((1 << 24) | (r << 16) | (g << 8) | b).toString(16).slice(1)}`;
+
+// Rotate a color's hue by `degrees`, keeping saturation and lightness
+const rotateHue = ([r, g, b]: Rgb, degrees: number): Rgb => {
+  const rn = r / 255, gn = g / 255, bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return [r, g, b];
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue = max === rn ? ((gn - bn) / delta) % 6 : max === gn ? (bn - rn) / delta + 2 : (rn - gn) / delta + 4;
+  hue = (((hue * 60 + degrees) % 360) + 360) % 360;
+
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = lightness - chroma / 2;
+  const [r1, g1, b1] = hue < 60 ? [chroma, x, 0] : hue < 120 ? [x, chroma, 0] : hue < 180 ? [0, chroma, x]
+    : hue < 240 ? [0, x, chroma] : hue < 300 ? [x, 0, chroma] : [chroma, 0, x];
+  return [Math.round((r1 + m) * 255), Math.round((g1 + m) * 255), Math.round((b1 + m) * 255)];
+};
+
+// Map an ever-increasing value onto the gradient and back, so cycling
+// through it never jumps from the last stop to the first
+export const pingPong = (value: number): number => 1 - Math.abs(1 - 2 * (value - Math.floor(value)));
+
+// Resolve a theme for a frame. `time` is in ms, as in VisualizationFrame.
+export const createPalette = (theme: ColorTheme, time: number): Palette => {
+  const shift = theme.hueCycle > 0 ? (time * 0.001 * theme.hueCycle) % 360 : 0;
+  const cycle = (hex: string): Rgb => shift === 0 ? parseColor(hex) : rotateHue(parseColor(hex), shift);
+
+  const stops = (theme.gradient.length > 0 ? theme.gradient : [theme.primary]).map(cycle);
+  const stopHex = stops.map(toHex);
+  const primary = toHex(cycle(theme.primary));
+
+  const lut = new Uint8Array(PALETTE_SIZE * 3);
+  for (let i = 0; i < PALETTE_SIZE; i++) {
+    const scaled = (i / (PALETTE_SIZE - 1)) * (stops.length - 1);
+    const index = Math.min(stops.length - 1, Math.floor(scaled));
+    const next = Math.min(stops.length - 1, index + 1);
+    const mix = scaled - index;
+    for (let c = 0; c < 3; c++) {
+      lut[i * 3 + c] = Math.round(stops[index][c] + (stops[next][c] - stops[index][c]) * mix);
+    }
+  }
+
+  // Drawers ask for the same few dozen colors thousands of times a frame
+  const opaque: string[] = [];
+
+  const colorAt = (position: number, alpha: number = 1): string => {
+    const i = Math.round(Math.max(0, Math.min(1, position || 0)) * (PALETTE_SIZE - 1));
+    if (alpha >= 1) {
+      if (!opaque[i]) {
+        opaque[i] = `rgb(${lut[i * 3]}, ${lut[i * 3 + 1]}, ${lut[i * 3 + 2]})`;
+      }
+      return opaque[i];
+    }
+    return `rgba(${lut[i * 3]}, ${lut[i * 3 + 1]}, ${lut[i * 3 + 2]}, ${Math.max(0, alpha)})`;
+  };
+
+  const colorFor = (position: number, level: number, alpha: number = 1): string => {
+    if (theme.mapping === 'frequency') return colorAt(position, alpha);
+    if (theme.mapping === 'level') return colorAt(level, alpha);
+    if (alpha >= 1) return primary;
+    const [r, g, b] = parseColor(primary);
+    return `rgba(${r}, ${g}, ${b}, ${Math.max(0, alpha)})`;
+  };
+
+  const createGradient = (ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number): CanvasGradient => {
+    const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+    stopHex.forEach((color, index) => {
+      gradient.addColorStop(stopHex.length === 1 ? 0 : index / (stopHex.length - 1), color);
+    });
+    return gradient;
+  };
+
+  return {
+    background: theme.background || '#000000',
+    primary,
+    mapping: theme.mapping,
+    lut,
+    colorAt,
+    colorFor,
+    createGradient
+  };
+};
@@ -0,0 +1,59 @@
+import { VisualizationPlugin } from './types';
+import { EFFECT_REACTIVITY, averageLevel, clearCanvas } from './helpers';
+import { createShaderRenderer } from './webgl';
+import { pingPong } from './palette';
+
+// Same field as the 2D drawer, per pixel, with each column nudged by its bin
+const PLASMA_SHADER = `
+void main() {
+  vec2 p = fragPosition();
+  float value = sin(p.x * 0.01 + u_time) + sin(p.y * 0.01 + u_time * 0.7);
+  float audioInfluence = u_level * u_reactivity * 2.0 + audioAt(p.x / u_resolution.x) * u_reactivity;
+  float hue = ((value + 2.0 + audioInfluence) * 60.0 + u_time * 30.0) / 360.0;
+  float brightness = 0.85 + u_level * u_reactivity * 0.3;
+  gl_FragColor = vec4(min(paletteCycle(hue) * brightness, 1.0), 1.0);
+}
+`;
+
+const plasma: VisualizationPlugin = {
+  id: 'plasma',
+  label: 'Plasma',
+  description: 'Smooth plasma field visualization',
+  icon: (
+    <svg className="w-6 h-6 text-purple-400" fill="currentColor" viewBox="0 0 24 24">
+      <circle cx="12" cy="12" r="10" fill="currentColor" opacity="0.3"/>
+      <circle cx="12" cy="12" r="6" fill="currentColor" opacity="0.6"/>
+      <circle cx="12" cy="12" r="2" fill="currentColor"/>
+    </svg>
+  ),
+  quality: {
+    quality: { gridStep: 6 },
+    balanced: { gridStep: 10, maxFps: 45, resolutionScale: 0.75 },
+    performance: { gridStep: 16, maxFps: 24, resolutionScale: 0.5 }
+  },
+  create: () => ({
+    render: (ctx, { width, height, data, settings, quality, palette }) => {
+      const speed = settings.animationSpeed / 100;
+      const sensitivity = EFFECT_REACTIVITY;
+      const avgAudio = averageLevel(data);
+
+      clearCanvas(ctx, palette);
+
+      const time = Date.now() * speed * 0.001;
+      const step = quality.gridStep;
+
+      for (let x = 0; x < width; x += step) {
+        for (let y = 0; y < height; y += step) {
+          const value = Math.sin(x * 0.01 + time) + Math.sin(y * 0.01 + time * 0.7);
+          const audioInfluence = avgAudio * sensitivity * 2;
+          const hue = (value + 2 + audioInfluence) * 60 + time * 30;
+          ctx.fillStyle = palette.colorAt(pingPong(hue / 360));
+          ctx.fillRect(x, y, step, step);
+        }
+      }
+    }
+  }),
+  createWebGL: () => createShaderRenderer(PLASMA_SHADER)
+};
+
+export default plasma;
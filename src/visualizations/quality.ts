@@ -0,0 +1,83 @@
+import { StereoAudioData } from '../types/visualization';
+import { QualityLevel, VisualizationPlugin, VisualizationQuality } from './types';
+
+// Baseline levers per performance mode. Plugins override what matters to them.
+export const DEFAULT_QUALITY: Record<QualityLevel, VisualizationQuality> = {
+  quality: {
+    maxPixelRatio: 2,
+    resolutionScale: 1,
+    maxFps: 60,
+    gridStep: 6,
+    particleScale: 1,
+    maxBins: 0,
+    glow: true
+  },
+  balanced: {
+    maxPixelRatio: 1,
+    resolutionScale: 1,
+    maxFps: 60,
+    gridStep: 8,
+    particleScale: 1,
+    maxBins: 128,
+    glow: false
+  },
+  performance: {
+    maxPixelRatio: 1,
+    resolutionScale: 0.75,
+    maxFps: 30,
+    gridStep: 12,
+    particleScale: 0.5,
+    maxBins: 64,
+    glow: false
+  }
+};
+
+export const resolveQuality = (plugin: VisualizationPlugin, level: QualityLevel): VisualizationQuality => {
+  const base = DEFAULT_QUALITY[level] ?? DEFAULT_QUALITY.balanced;
+  return { ...base, ...plugin.quality?.[level] };
+};
+
+// Canvas pixels per CSS pixel for a quality level. Workers have no window,
+// so the device ratio is passed in.
+export const qualityPixelRatio = (quality: VisualizationQuality, deviceRatio: number): number => {
+  return Math.min(deviceRatio || 1, quality.maxPixelRatio) * quality.resolutionScale;
+};
+
+type BinCombine = 'mean' | 'max' | 'center';
+
+// Merge neighbouring bins so at most maxBins remain
+export const reduceBins = (values: number[], maxBins: number, combine: BinCombine = 'mean'): number[] => {
+  if (maxBins <= 0 || values.length <= maxBins) return values;
+
+  const result = new Array<number>(maxBins);
+  for (let i = 0; i < maxBins; i++) {
+    const start = Math.floor((i * values.length) / maxBins);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * values.length) / maxBins));
+
+    if (combine === 'center') {
+      result[i] = values[Math.floor((start + end - 1) / 2)];
+      continue;
+    }
+
+    let sum = 0;
+    let max = 0;
+    for (let j = start; j < end; j++) {
+      sum += values[j];
+      max = Math.max(max, values[j]);
+    }
+    result[i] = combine === 'max' ? max : sum / (end - start);
+  }
+  return result;
+};
+
+// Per-channel spectra follow the same bin limit; the scope is left as-is
+export const reduceStereoBins = (stereo: StereoAudioData, maxBins: number): StereoAudioData => {
+  if (maxBins <= 0 || stereo.left.length <= maxBins) return stereo;
+  return {
+    ...stereo,
+    left: reduceBins(stereo.left, maxBins),
+    right: reduceBins(stereo.right, maxBins),
+    mid: reduceBins(stereo.mid, maxBins),
+    side: reduceBins(stereo.side, maxBins)
+  };
+};
@@ -0,0 +1,29 @@
+import { VisualizationOptions, VisualizationPlugin } from './types';
+
+// Visualizations in the order they were registered (the order the selector shows)
+const plugins = new Map<string, VisualizationPlugin>();
+
+export const registerVisualization = (plugin: VisualizationPlugin): void => {
+  if (plugins.has(plugin.id)) {
+    console.warn(`[FlowThing] Visualization "${plugin.id}" is already registered, replacing it`);
+  }
+  plugins.set(plugin.id, plugin);
+};
+
+export const getVisualization = (id: string): VisualizationPlugin | undefined => {
+  return plugins.get(id);
+};
+
+export const getVisualizations = (): VisualizationPlugin[] => {
+  return Array.from(plugins.values());
+};
+
+// Stored options for a visualization with schema defaults filled in
+export const resolveVisualizationOptions = (plugin: VisualizationPlugin, stored: VisualizationOptions = {}): VisualizationOptions => {
+  const options: VisualizationOptions = {};
+  plugin.settings?.forEach(setting => {
+    const value = stored[setting.key];
+    options[setting.key] = typeof value === typeof setting.default ? value : setting.default;
+  });
+  return options;
+};
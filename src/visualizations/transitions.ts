@@ -0,0 +1,43 @@
+import { TransitionStyle } from '../types/visualization';
+
+// Ease in and out so transitions don't start or stop abruptly
+export const easeTransition = (progress: number): number => {
+  const t = Math.max(0, Math.min(1, progress));
+  return t * t * (3 - 2 * t);
+};
+
+// A scratch 2D canvas the outgoing and incoming visualizations draw into during a transition
+export const createLayer = (): CanvasRenderingContext2D | null => {
+  const canvas = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1) : document.createElement('canvas');
+  // OffscreenCanvasRenderingContext2D has the drawing API we use
+  return (canvas as HTMLCanvasElement).getContext('2d');
+};
+
+// Blend two same-sized frames onto `ctx` at `progress` 0-1 of the transition
+export const drawTransition = (
+  ctx: CanvasRenderingContext2D,
+  from: CanvasImageSource,
+  to: CanvasImageSource,
+  style: TransitionStyle,
+  progress: number,
+  width: number, // canvas pixels
+  height: number
+) => {
+  const eased = easeTransition(progress);
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = 1;
+  ctx.drawImage(from, 0, 0);
+
+  if (style === 'wipe') {
+    const edge = Math.round(width * eased);
+    if (edge > 0) {
+      ctx.drawImage(to, 0, 0, edge, height, 0, 0, edge, height);
+    }
+    return;
+  }
+
+  ctx.globalAlpha = eased;
+  ctx.drawImage(to, 0, 0);
+  ctx.globalAlpha = 1;
+};
@@ -0,0 +1,62 @@
+import { VisualizationPlugin } from './types';
+import { EFFECT_REACTIVITY, applyGlow, averageLevel, beatPulse, clearCanvas } from './helpers';
+
+const triangular: VisualizationPlugin = {
+  id: 'triangular',
+  label: 'Triangular',
+  description: 'Geometric triangular patterns',
+  icon: (
+    <svg className="w-6 h-6 text-cyan-400" fill="currentColor" viewBox="0 0 24 24">
+      <path d="M12 2L2 22h20L12 2z" fill="currentColor"/>
+    </svg>
+  ),
+  settings: [
+    { key: 'triangleCount', label: 'Triangles', type: 'range', min: 3, max: 16, step: 1, default: 8 }
+  ],
+  create: () => ({
+    render: (ctx, { width, height, data, beat, settings, options, quality, palette, time: now }) => {
+      const sensitivity = EFFECT_REACTIVITY;
+      const speed = settings.animationSpeed / 100;
+      const avgAudio = averageLevel(data);
+
+      clearCanvas(ctx, palette);
+
+      const time = Date.now() * speed * 0.001;
+      const centerX = width / 2;
+      const centerY = height / 2;
+
+      const triangleCount = options.triangleCount as number;
+      const angleStep = (Math.PI * 2) / triangleCount;
+      const baseRadius = Math.min(width, height) * 0.1;
+      const radiusVariation = baseRadius * 0.6;
+      const pulse = beatPulse(beat, settings, now);
+
+      ctx.save();
+      applyGlow(ctx, quality.glow, palette.primary);
+
+      for (let i = 0; i < triangleCount; i++) {
+        const angle = i * angleStep + time;
+        const audioBoost = (1 + avgAudio * sensitivity * 2) * (1 + pulse * 0.5);
+        const radius = (baseRadius + Math.sin(time * 2 + i) * radiusVariation) * audioBoost;
+
+        const x1 = centerX + Math.cos(angle) * radius;
+        const y1 = centerY + Math.sin(angle) * radius;
+        const x2 = centerX + Math.cos(angle + Math.PI * 2 / 3) * radius;
+        const y2 = centerY + Math.sin(angle + Math.PI * 2 / 3) * radius;
+        const x3 = centerX + Math.cos(angle + Math.PI * 4 / 3) * radius;
+        const y3 = centerY + Math.sin(angle + Math.PI * 4 / 3) * radius;
+
+        ctx.fillStyle = palette.colorFor(i / triangleCount, avgAudio);
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.lineTo(x3, y3);
+        ctx.closePath();
+        ctx.fill();
+      }
+      ctx.restore();
+    }
+  })
+};
+
+export default triangular;
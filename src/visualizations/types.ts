@@ -0,0 +1,104 @@
+import type { ReactNode } from 'react';
+import { FlowThingSettings, StereoAudioData } from '../types/visualization';
+import { BeatInfo } from '../BeatDetector';
+import type { Palette } from './palette';
+
+// Value of a per-visualization setting
+export type VisualizationOptionValue = number | boolean | string;
+
+// Per-visualization settings keyed by setting key
+export type VisualizationOptions = Record<string, VisualizationOptionValue>;
+
+interface BaseSettingSchema {
+  key: string;
+  label: string;
+  description?: string;
+}
+
+export interface RangeSettingSchema extends BaseSettingSchema {
+  type: 'range';
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface BooleanSettingSchema extends BaseSettingSchema {
+  type: 'boolean';
+  default: boolean;
+}
+
+export interface SelectSettingSchema extends BaseSettingSchema {
+  type: 'select';
+  options: { label: string; value: string }[];
+  default: string;
+}
+
+// Describes one per-visualization setting so the settings panel can render it
+export type VisualizationSettingSchema = RangeSettingSchema | BooleanSettingSchema | SelectSettingSchema;
+
+// Performance mode the user picked in settings
+export type QualityLevel = FlowThingSettings['performanceMode'];
+
+// Concrete rendering levers for one quality level
+export interface VisualizationQuality {
+  maxPixelRatio: number; // cap on devicePixelRatio
+  resolutionScale: number; // canvas pixels per (capped) device pixel; below 1 renders small and upscales
+  maxFps: number;
+  gridStep: number; // cell size in CSS pixels for grid-drawn fields
+  particleScale: number; // multiplier on particle and flame counts
+  maxBins: number; // spectrum bins handed to the drawer, 0 for all
+  glow: boolean; // shadow-blur glow on strokes and shapes
+}
+
+// Everything a visualization needs to draw one frame
+export interface VisualizationFrame {
+  width: number; // canvas size in CSS pixels; the 2D context is pre-scaled to match
+  height: number;
+  data: number[]; // normalized 0-1 levels
+  stereo: StereoAudioData | null;
+  frequencies: number[] | null; // centre frequency of each data bin, when known
+  peaks: number[] | null; // peak-hold level of each data bin, when enabled
+  beat: BeatInfo | null;
+  isNewBeat: boolean; // a beat landed since the previous frame
+  settings: FlowThingSettings;
+  options: VisualizationOptions; // this visualization's settings, defaults filled in
+  quality: VisualizationQuality; // levers for the current performance mode
+  palette: Palette; // the selected color theme, hue cycle applied
+  time: number; // performance.now() at the start of the frame
+}
+
+// A live visualization. Holds its own state (particles, hue, ...) between frames.
+export interface VisualizationRenderer {
+  // Called once after creation, before the first resize/render
+  init?(ctx: CanvasRenderingContext2D): void;
+  // Called when the canvas size changes, in CSS pixels
+  resize?(width: number, height: number): void;
+  render(ctx: CanvasRenderingContext2D, frame: VisualizationFrame): void;
+  // Called when switching away; release anything init() acquired
+  dispose?(): void;
+}
+
+// WebGL counterpart of VisualizationRenderer, drawing on a WebGL/WebGL2 canvas
+export interface WebGLVisualizationRenderer {
+  // Compile shaders and allocate buffers; throw to fall back to the 2D renderer
+  init(gl: WebGLRenderingContext): void;
+  resize?(width: number, height: number): void;
+  render(gl: WebGLRenderingContext, frame: VisualizationFrame): void;
+  // Release GL objects created in init()
+  dispose?(): void;
+}
+
+// A self-contained visualization module registered with the registry
+export interface VisualizationPlugin {
+  id: string;
+  label: string;
+  description: string;
+  icon: ReactNode;
+  settings?: VisualizationSettingSchema[];
+  // How this visualization scales per performance mode, on top of DEFAULT_QUALITY
+  quality?: Partial<Record<QualityLevel, Partial<VisualizationQuality>>>;
+  create(): VisualizationRenderer;
+  // Optional GPU implementation, used instead of create() when WebGL is available
+  createWebGL?(): WebGLVisualizationRenderer;
+}
@@ -0,0 +1,63 @@
+import { VisualizationPlugin } from './types';
+import { applyGlow, averageLevel, clearCanvas, drawChannelLabel } from './helpers';
+
+const wave: VisualizationPlugin = {
+  id: 'wave',
+  label: 'Wave',
+  description: 'Smooth wave visualization that responds to audio',
+  icon: (
+    <svg className="w-6 h-6 text-blue-400" fill="currentColor" viewBox="0 0 24 24">
+      <path d="M2 12h2l2-8 2 16 2-8h2" stroke="currentColor" strokeWidth="2" fill="none" strokeLinecap="round" strokeLinejoin="round"/>
+    </svg>
+  ),
+  settings: [
+    { key: 'lineWidth', label: 'Line Width', type: 'range', min: 1, max: 8, step: 1, default: 3 }
+  ],
+  create: () => ({
+    render: (ctx, { width, height, data, stereo, settings, options, quality, palette }) => {
+      const speed = (settings.animationSpeed || 50) / 100;
+
+      clearCanvas(ctx, palette);
+      ctx.lineWidth = options.lineWidth as number;
+      applyGlow(ctx, quality.glow, palette.primary);
+
+      const time = Date.now() * speed * 0.001;
+
+      const traceWave = (values: number[], centerY: number, scale: number) => {
+        const step = width / values.length;
+        // One stroke, so frequency mapping becomes a gradient along the line
+        ctx.strokeStyle = palette.mapping === 'frequency'
+          ? palette.createGradient(ctx, 0, 0, width, 0)
+          : palette.colorFor(0, averageLevel(values));
+        ctx.beginPath();
+
+        values.forEach((value, index) => {
+          const x = index * step;
+          const amplitude = value * height * scale;
+          const y = centerY + Math.sin(time + index * 0.1) * amplitude;
+
+          if (index === 0) {
+            ctx.moveTo(x, y);
+          } else {
+            ctx.lineTo(x, y);
+          }
+        });
+
+        ctx.stroke();
+      };
+
+      if (settings.stereoMode === 'split' && stereo) {
+        // Left channel in the top half, right channel in the bottom half
+        traceWave(stereo.left, height / 4, 0.15);
+        traceWave(stereo.right, height * 3 / 4, 0.15);
+        drawChannelLabel(ctx, 'L', 8, 8, palette.primary);
+        drawChannelLabel(ctx, 'R', 8, height / 2 + 8, palette.primary);
+        return;
+      }
+
+      traceWave(data, height / 2, 0.3);
+    }
+  })
+};
+
+export default wave;
@@ -0,0 +1,248 @@
+import { VisualizationFrame, WebGLVisualizationRenderer } from './types';
+import { EFFECT_REACTIVITY, averageLevel, beatPulse } from './helpers';
+import { PALETTE_SIZE, parseColor } from './palette';
+
+// Uniform values a shader visualization can add on top of the shared ones
+export type ShaderUniforms = Record<string, number | number[]>;
+
+// Every fragment shader gets these. Written in GLSL ES 1.00 so the same source
+// runs on WebGL1 and WebGL2.
+const FRAGMENT_PREAMBLE = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+uniform vec2 u_resolution;   // canvas size in CSS pixels
+uniform float u_pixelRatio;  // drawing-buffer pixels per CSS pixel
+uniform float u_time;        // seconds, scaled by animation speed
+uniform float u_level;       // average audio level 0-1
+uniform float u_beat;        // 0-1 beat envelope
+uniform float u_reactivity;  // EFFECT_REACTIVITY
+uniform float u_bins;        // number of audio bins in u_audio
+uniform sampler2D u_audio;   // audio bins as a bins x 1 luminance texture
+uniform vec3 u_background;
+uniform vec3 u_primary;
+uniform sampler2D u_palette; // theme gradient as a PALETTE_SIZE x 1 RGB texture
+uniform float u_mapping;     // theme color mapping: 0 single, 1 frequency, 2 level
+
+// Fragment position in CSS pixels, origin top-left like the 2D canvas
+vec2 fragPosition() {
+  vec2 p = gl_FragCoord.xy / u_pixelRatio;
+  return vec2(p.x, u_resolution.y - p.y);
+}
+
+// Level of the bin at position 0-1 across the spectrum
+float audioAt(float position) {
+  return texture2D(u_audio, vec2(clamp(position, 0.0, 1.0), 0.5)).r;
+}
+
+// Color at 0-1 along the theme gradient
+vec3 paletteAt(float t) {
+  return texture2D(u_palette, vec2(clamp(t, 0.0, 1.0), 0.5)).rgb;
+}
+
+// Color per the theme's mapping, like Palette.colorFor()
+vec3 paletteFor(float position, float level) {
+  if (u_mapping < 0.5) return u_primary;
+  return paletteAt(u_mapping < 1.5 ? position : level);
+}
+
+// Walk the gradient forth and back as value increases, like pingPong()
+vec3 paletteCycle(float value) {
+  return paletteAt(1.0 - abs(1.0 - 2.0 * fract(value)));
+}
+`;
+
+// One triangle that covers the whole viewport
+const VERTEX_SOURCE = `
+attribute vec2 a_position;
+void main() {
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}
+`;
+
+// Works on an OffscreenCanvas too; its getContext takes the same arguments
+export const createGLContext = (canvas: HTMLCanvasElement | OffscreenCanvas): WebGLRenderingContext | null => {
+  const attributes: WebGLContextAttributes = { alpha: false, antialias: false, depth: false, preserveDrawingBuffer: false };
+  const target = canvas as HTMLCanvasElement;
+  try {
+    return target.getContext('webgl2', attributes) ?? target.getContext('webgl', attributes);
+  } catch (error) {
+    console.warn('[FlowThing] WebGL context creation failed:', error);
+    return null;
+  }
+};
+
+// '#rrggbb' or '#rgb' to 0-1 RGB
+export const hexToRgb = (hex: string): number[] => parseColor(hex).map(channel => channel / 255);
+
+const MAPPING_UNIFORM = { single: 0, frequency: 1, level: 2 };
+
+const createLinearTexture = (gl: WebGLRenderingContext): WebGLTexture | null => {
+  // NPOT textures need clamping and no mipmaps on WebGL1
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string): WebGLShader => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Failed to create shader');
+
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+};
+
+const createProgram = (gl: WebGLRenderingContext, fragmentSource: string): WebGLProgram => {
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SOURCE);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_PREAMBLE + fragmentSource);
+  const program = gl.createProgram();
+  if (!program) throw new Error('Failed to create shader program');
+
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+
+  // Shaders can be flagged for deletion once linked
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    throw new Error(`Shader link failed: ${log}`);
+  }
+  return program;
+};
+
+// Build a WebGL renderer from a fragment shader. The shader sees the shared
+// uniforms above plus whatever getUniforms returns for the frame.
+export const createShaderRenderer = (
+  fragmentSource: string,
+  getUniforms?: (frame: VisualizationFrame) => ShaderUniforms
+): WebGLVisualizationRenderer => {
+  let gl: WebGLRenderingContext | null = null;
+  let program: WebGLProgram | null = null;
+  let vertexBuffer: WebGLBuffer | null = null;
+  let audioTexture: WebGLTexture | null = null;
+  let paletteTexture: WebGLTexture | null = null;
+  let audioBytes = new Uint8Array(0);
+  const locations = new Map<string, WebGLUniformLocation | null>();
+
+  const location = (name: string) => {
+    if (!gl || !program) return null;
+    if (!locations.has(name)) {
+      locations.set(name, gl.getUniformLocation(program, name));
+    }
+    return locations.get(name) ?? null;
+  };
+
+  const setUniform = (name: string, value: number | number[]) => {
+    const loc = location(name);
+    if (!gl || !loc) return;
+    if (typeof value === 'number') {
+      gl.uniform1f(loc, value);
+    } else if (value.length === 2) {
+      gl.uniform2fv(loc, value);
+    } else if (value.length === 3) {
+      gl.uniform3fv(loc, value);
+    } else if (value.length === 4) {
+      gl.uniform4fv(loc, value);
+    }
+  };
+
+  return {
+    init: (context) => {
+      gl = context;
+      program = createProgram(context, fragmentSource);
+
+      vertexBuffer = context.createBuffer();
+      context.bindBuffer(context.ARRAY_BUFFER, vertexBuffer);
+      context.bufferData(context.ARRAY_BUFFER, new Float32Array([-1, -1, 3, -1, -1, 3]), context.STATIC_DRAW);
+
+      audioTexture = createLinearTexture(context);
+      paletteTexture = createLinearTexture(context);
+    },
+
+    render: (context, frame) => {
+      if (!program) return;
+      const { width, height } = context.canvas;
+      const { data, beat, settings, palette, time } = frame;
+
+      context.viewport(0, 0, width, height);
+      context.useProgram(program);
+
+      context.bindBuffer(context.ARRAY_BUFFER, vertexBuffer);
+      const position = context.getAttribLocation(program, 'a_position');
+      context.enableVertexAttribArray(position);
+      context.vertexAttribPointer(position, 2, context.FLOAT, false, 0, 0);
+
+      // Upload the bins; one byte per bin is plenty for driving colors
+      const bins = Math.max(1, data.length);
+      if (audioBytes.length !== bins) {
+        audioBytes = new Uint8Array(bins);
+      }
+      for (let i = 0; i < data.length; i++) {
+        audioBytes[i] = Math.max(0, Math.min(255, Math.round(data[i] * 255)));
+      }
+      context.activeTexture(context.TEXTURE0);
+      context.bindTexture(context.TEXTURE_2D, audioTexture);
+      context.pixelStorei(context.UNPACK_ALIGNMENT, 1);
+      context.texImage2D(context.TEXTURE_2D, 0, context.LUMINANCE, bins, 1, 0, context.LUMINANCE, context.UNSIGNED_BYTE, audioBytes);
+      context.uniform1i(location('u_audio'), 0);
+
+      // The theme changes with its hue cycle, so it is uploaded every frame too
+      context.activeTexture(context.TEXTURE1);
+      context.bindTexture(context.TEXTURE_2D, paletteTexture);
+      context.texImage2D(context.TEXTURE_2D, 0, context.RGB, PALETTE_SIZE, 1, 0, context.RGB, context.UNSIGNED_BYTE, palette.lut);
+      context.uniform1i(location('u_palette'), 1);
+      context.activeTexture(context.TEXTURE0);
+
+      // performance.now() keeps the value small enough for float precision in the shader
+      setUniform('u_resolution', [frame.width, frame.height]);
+      setUniform('u_pixelRatio', frame.width > 0 ? width / frame.width : 1);
+      setUniform('u_time', time * 0.001 * (settings.animationSpeed / 100));
+      setUniform('u_level', averageLevel(data));
+      setUniform('u_beat', beatPulse(beat, settings, time));
+      setUniform('u_reactivity', EFFECT_REACTIVITY);
+      setUniform('u_bins', bins);
+      setUniform('u_background', hexToRgb(palette.background));
+      setUniform('u_primary', hexToRgb(palette.primary));
+      setUniform('u_mapping', MAPPING_UNIFORM[palette.mapping]);
+
+      if (getUniforms) {
+        Object.entries(getUniforms(frame)).forEach(([name, value]) => setUniform(name, value));
+      }
+
+      context.drawArrays(context.TRIANGLES, 0, 3);
+    },
+
+    dispose: () => {
+      if (gl) {
+        gl.deleteTexture(audioTexture);
+        gl.deleteTexture(paletteTexture);
+        gl.deleteBuffer(vertexBuffer);
+        gl.deleteProgram(program);
+      }
+      gl = null;
+      program = null;
+      vertexBuffer = null;
+      audioTexture = null;
+      paletteTexture = null;
+      locations.clear();
+    }
+  };
+};
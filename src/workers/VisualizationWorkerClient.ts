@@ -0,0 +1,164 @@
+import { AudioFormatData, AudioStreamData, LegacyAudioStreamData, SpectrumData } from '../types/types';
+import { AudioAnalysisMethod, FlowThingSettings } from '../types/visualization';
+import { FftOptions } from '../AudioProcessor';
+import { DynamicsOptions } from '../SpectrumDynamics';
+import { BeatListener } from '../BeatDetector';
+import { decodeAudioFrame } from '../AudioTransport';
+import { UnsupportedAudioFormatError } from '../PcmDecoder';
+import { AudioFormatErrorListener, AudioPipeline } from '../AudioPipeline';
+import { RenderBackend } from '../visualizations/RenderLoop';
+import { WorkerRequest, WorkerResponse } from './messages';
+
+// Rendering in a worker needs canvases that can hand control to an OffscreenCanvas
+export const supportsWorkerRendering = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof HTMLCanvasElement !== 'undefined' &&
+  typeof HTMLCanvasElement.prototype.transferControlToOffscreen === 'function';
+
+let nextClientId = 1;
+
+// Main-thread side of the visualization worker. Implements AudioPipeline, so
+// the app feeds it audio exactly as it would the local pipeline, plus the
+// canvas plumbing the renderer needs.
+export class VisualizationWorkerClient implements AudioPipeline {
+  // Distinguishes clients so a new worker gets fresh canvases; a canvas can only be transferred once
+  public readonly id = nextClientId++;
+  private worker: Worker;
+  private beatListeners = new Set<BeatListener>();
+  private formatErrorListeners = new Set<AudioFormatErrorListener>();
+  private backendListeners = new Set<(backend: RenderBackend) => void>();
+  private statsListeners = new Set<(text: string) => void>();
+
+  constructor() {
+    this.worker = new Worker(new URL('./visualization.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => {
+      console.error('[FlowThing] Visualization worker error:', event.message);
+    };
+  }
+
+  // Hand both canvases to the worker. After this the page can't draw on them.
+  public attachCanvases(canvas: HTMLCanvasElement, glCanvas: HTMLCanvasElement) {
+    const offscreen = canvas.transferControlToOffscreen();
+    const glOffscreen = glCanvas.transferControlToOffscreen();
+    this.post({ type: 'init', canvas: offscreen, glCanvas: glOffscreen }, [offscreen, glOffscreen]);
+  }
+
+  public setSettings(settings: FlowThingSettings) {
+    this.post({ type: 'settings', settings });
+  }
+
+  public resize(width: number, height: number, devicePixelRatio: number) {
+    this.post({ type: 'resize', width, height, devicePixelRatio });
+  }
+
+  public setActive(active: boolean) {
+    this.post({ type: 'active', active });
+  }
+
+  public configure(options: Partial<FftOptions>) {
+    this.post({ type: 'configure', options });
+  }
+
+  public configureDynamics(options: Partial<DynamicsOptions>) {
+    this.post({ type: 'configureDynamics', options });
+  }
+
+  public setAudioFormat(format: AudioFormatData) {
+    this.post({ type: 'audioFormat', format });
+  }
+
+  public setSampleRate(sampleRate: number) {
+    this.post({ type: 'sampleRate', sampleRate });
+  }
+
+  // Unpack the transport here so the worker receives raw bytes it can take ownership of
+  public processAudioData(audioStreamData: AudioStreamData | LegacyAudioStreamData, analysisMethod: AudioAnalysisMethod) {
+    if (!audioStreamData.data || audioStreamData.data.length === 0) {
+      return;
+    }
+
+    try {
+      const frame = decodeAudioFrame(audioStreamData);
+      // samples, when present, is a view over the same buffer
+      this.post({ type: 'frame', frame, analysisMethod }, [frame.bytes.buffer]);
+    } catch (error) {
+      if (error instanceof UnsupportedAudioFormatError) {
+        console.error('[FlowThing] Cannot decode audio frame:', error.message);
+        this.formatErrorListeners.forEach(listener => listener(error.message));
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  public processSpectrum(spectrum: SpectrumData) {
+    this.post({ type: 'spectrum', spectrum });
+  }
+
+  // The capture callback hands over fresh arrays each time, so they can be transferred
+  public processChannels(channels: Float32Array[], analysisMethod: AudioAnalysisMethod) {
+    this.post({ type: 'channels', channels, analysisMethod }, channels.map(channel => channel.buffer));
+  }
+
+  public processLevels(levels: number[], rangeDb: number) {
+    this.post({ type: 'levels', levels, rangeDb });
+  }
+
+  public reset() {
+    this.post({ type: 'reset' });
+  }
+
+  public onBeat(listener: BeatListener): () => void {
+    return this.subscribe(this.beatListeners, listener);
+  }
+
+  public onAudioFormatError(listener: AudioFormatErrorListener): () => void {
+    return this.subscribe(this.formatErrorListeners, listener);
+  }
+
+  public onBackendChange(listener: (backend: RenderBackend) => void): () => void {
+    return this.subscribe(this.backendListeners, listener);
+  }
+
+  public onStats(listener: (text: string) => void): () => void {
+    return this.subscribe(this.statsListeners, listener);
+  }
+
+  public dispose() {
+    this.worker.terminate();
+    this.beatListeners.clear();
+    this.formatErrorListeners.clear();
+    this.backendListeners.clear();
+    this.statsListeners.clear();
+  }
+
+  private post(message: WorkerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private subscribe<T>(listeners: Set<T>, listener: T): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private handleMessage(message: WorkerResponse) {
+    switch (message.type) {
+      case 'backend':
+        this.backendListeners.forEach(listener => listener(message.backend));
+        break;
+      case 'stats':
+        this.statsListeners.forEach(listener => listener(message.text));
+        break;
+      case 'beat':
+        this.beatListeners.forEach(listener => listener(message.info));
+        break;
+      case 'formatError':
+        this.formatErrorListeners.forEach(listener => listener(message.message));
+        break;
+    }
+  }
+}
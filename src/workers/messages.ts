@@ -0,0 +1,30 @@
+import { AudioFormatData, SpectrumData } from '../types/types';
+import { AudioAnalysisMethod, FlowThingSettings } from '../types/visualization';
+import { FftOptions } from '../AudioProcessor';
+import { DynamicsOptions } from '../SpectrumDynamics';
+import { DecodedAudioFrame } from '../AudioTransport';
+import { BeatInfo } from '../BeatDetector';
+import { RenderBackend } from '../visualizations/RenderLoop';
+
+// Main thread -> visualization worker. Sample buffers are transferred, not copied.
+export type WorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas; glCanvas: OffscreenCanvas }
+  | { type: 'settings'; settings: FlowThingSettings }
+  | { type: 'resize'; width: number; height: number; devicePixelRatio: number }
+  | { type: 'active'; active: boolean }
+  | { type: 'configure'; options: Partial<FftOptions> }
+  | { type: 'configureDynamics'; options: Partial<DynamicsOptions> }
+  | { type: 'audioFormat'; format: AudioFormatData }
+  | { type: 'sampleRate'; sampleRate: number }
+  | { type: 'frame'; frame: DecodedAudioFrame; analysisMethod: AudioAnalysisMethod }
+  | { type: 'spectrum'; spectrum: SpectrumData }
+  | { type: 'channels'; channels: Float32Array[]; analysisMethod: AudioAnalysisMethod }
+  | { type: 'levels'; levels: number[]; rangeDb: number }
+  | { type: 'reset' };
+
+// Visualization worker -> main thread
+export type WorkerResponse =
+  | { type: 'backend'; backend: RenderBackend }
+  | { type: 'stats'; text: string }
+  | { type: 'beat'; info: BeatInfo }
+  | { type: 'formatError'; message: string | null };
@@ -0,0 +1,87 @@
+// Runs audio analysis and rendering off the main thread. The page transfers
+// its canvases here as OffscreenCanvases and posts audio as it arrives.
+import '../visualizations';
+import { FlowThingSettings, defaultSettings } from '../types/visualization';
+import { AudioProcessor } from '../AudioProcessor';
+import { AudioFrameStore } from '../AudioFrameStore';
+import { LocalAudioPipeline } from '../AudioPipeline';
+import { VisualizationRenderLoop } from '../visualizations/RenderLoop';
+import { WorkerRequest, WorkerResponse } from './messages';
+
+// Only the parts of DedicatedWorkerGlobalScope we use; the app compiles against the DOM lib
+const scope = self as unknown as {
+  postMessage(message: WorkerResponse): void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const frameStore = new AudioFrameStore();
+const pipeline = new LocalAudioPipeline(new AudioProcessor(), frameStore);
+
+// Settings, size and activity can arrive before the canvases do
+let renderLoop: VisualizationRenderLoop | null = null;
+let settings: FlowThingSettings = defaultSettings;
+let size = { width: 0, height: 0, devicePixelRatio: 1 };
+let active = true;
+
+pipeline.onBeat(info => scope.postMessage({ type: 'beat', info }));
+pipeline.onAudioFormatError(message => scope.postMessage({ type: 'formatError', message }));
+
+const handleMessage = (message: WorkerRequest) => {
+  switch (message.type) {
+    case 'init':
+      renderLoop?.dispose();
+      renderLoop = new VisualizationRenderLoop(message.canvas, message.glCanvas, frameStore, {
+        onBackendChange: backend => scope.postMessage({ type: 'backend', backend }),
+        onStats: text => scope.postMessage({ type: 'stats', text })
+      });
+      renderLoop.setSize(size.width, size.height, size.devicePixelRatio);
+      renderLoop.setSettings(settings);
+      if (active) renderLoop.start();
+      break;
+    case 'settings':
+      settings = message.settings;
+      renderLoop?.setSettings(settings);
+      break;
+    case 'resize':
+      size = { width: message.width, height: message.height, devicePixelRatio: message.devicePixelRatio };
+      renderLoop?.setSize(size.width, size.height, size.devicePixelRatio);
+      break;
+    case 'active':
+      active = message.active;
+      if (active) {
+        renderLoop?.start();
+      } else {
+        renderLoop?.stop();
+      }
+      break;
+    case 'configure':
+      pipeline.configure(message.options);
+      break;
+    case 'configureDynamics':
+      pipeline.configureDynamics(message.options);
+      break;
+    case 'audioFormat':
+      pipeline.setAudioFormat(message.format);
+      break;
+    case 'sampleRate':
+      pipeline.setSampleRate(message.sampleRate);
+      break;
+    case 'frame':
+      pipeline.processDecodedFrame(message.frame, message.analysisMethod);
+      break;
+    case 'spectrum':
+      pipeline.processSpectrum(message.spectrum);
+      break;
+    case 'channels':
+      pipeline.processChannels(message.channels, message.analysisMethod);
+      break;
+    case 'levels':
+      pipeline.processLevels(message.levels, message.rangeDb);
+      break;
+    case 'reset':
+      pipeline.reset();
+      break;
+  }
+};
+
+scope.onmessage = event => handleMessage(event.data);